@@ -0,0 +1,52 @@
+// SHM Tip Jar widget loader. Put a creator's tip button on any page with
+//
+//   <script src="https://<tip jar host>/embed.js" data-creator-id="<id>" async></script>
+//
+// The script replaces itself with an iframe showing /embed/<id> from the same
+// host, sizes the iframe to the widget, and re-dispatches the widget's messages
+// as DOM events named "shm-tip-jar:<type>" (ready, tipSent, tipConfirmed,
+// tipFailed). They bubble up to `document`, with the message as `event.detail`.
+(function () {
+  'use strict';
+
+  var MESSAGE_SOURCE = 'shm-tip-jar';
+  var INITIAL_HEIGHT = 96;
+  var MAX_WIDTH = '360px';
+
+  var script = document.currentScript;
+  if (!script) {
+    console.error('SHM Tip Jar: embed.js must be loaded with a plain <script> tag');
+    return;
+  }
+
+  var creatorId = script.getAttribute('data-creator-id');
+  if (!creatorId) {
+    console.error('SHM Tip Jar: the script tag needs a data-creator-id attribute');
+    return;
+  }
+
+  var origin = new URL(script.src).origin;
+  var iframe = document.createElement('iframe');
+  iframe.src = origin + '/embed/' + encodeURIComponent(creatorId);
+  iframe.title = 'Send a tip with SHM Tip Jar';
+  iframe.style.border = '0';
+  iframe.style.width = '100%';
+  iframe.style.maxWidth = script.getAttribute('data-max-width') || MAX_WIDTH;
+  iframe.style.height = INITIAL_HEIGHT + 'px';
+  iframe.style.colorScheme = 'normal';
+  iframe.setAttribute('scrolling', 'no');
+
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (event.source !== iframe.contentWindow || event.origin !== origin) return;
+    if (!data || data.source !== MESSAGE_SOURCE || typeof data.type !== 'string') return;
+
+    if (data.type === 'resize') {
+      if (typeof data.height === 'number' && data.height > 0) iframe.style.height = data.height + 'px';
+      return;
+    }
+    iframe.dispatchEvent(new CustomEvent(MESSAGE_SOURCE + ':' + data.type, { bubbles: true, detail: data }));
+  });
+
+  script.parentNode.insertBefore(iframe, script);
+})();
@@ -0,0 +1,36 @@
+// Build the embeddable tip widget into build/embed.html with its own bundle, so
+// that sites showing the widget do not download the app. Uses the production
+// webpack config of react-scripts with src/embed.tsx as the entry. Run after
+// `react-scripts build`, which empties build/.
+// Usage: npm run build:embed
+process.env.BABEL_ENV = 'production';
+process.env.NODE_ENV = 'production';
+
+// Reads .env files like `react-scripts build` does
+require('react-scripts/config/env');
+
+const path = require('path');
+const webpack = require('webpack');
+const HtmlWebpackPlugin = require('html-webpack-plugin');
+const configFactory = require('react-scripts/config/webpack.config');
+
+const config = configFactory('production');
+const appHtmlPlugin = config.plugins.find(plugin => plugin instanceof HtmlWebpackPlugin);
+
+config.entry = { embed: path.join(__dirname, '../src/embed.tsx') };
+config.plugins = config.plugins
+  // The app build owns asset-manifest.json
+  .filter(plugin => plugin !== appHtmlPlugin && plugin.constructor.name !== 'WebpackManifestPlugin')
+  .concat(new HtmlWebpackPlugin({
+    ...appHtmlPlugin.userOptions,
+    template: path.join(__dirname, '../src/embed.html'),
+    filename: 'embed.html'
+  }));
+
+webpack(config, (error, stats) => {
+  if (error || stats.hasErrors()) {
+    console.error(error || stats.toString({ all: false, errors: true }));
+    process.exit(1);
+  }
+  console.log(`Built the tip widget into ${path.relative(process.cwd(), path.join(config.output.path, 'embed.html'))}`);
+});
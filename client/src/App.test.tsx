@@ -1,9 +1,41 @@
 import React from 'react';
 import { render, screen } from '@testing-library/react';
 import App from './App';
+import apiService from './services/apiService';
+import { Creator } from './types';
 
-test('renders learn react link', () => {
+jest.mock('./services/apiService');
+jest.mock('./services/liveUpdates', () => ({ watchLiveEvents: () => () => {} }));
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+const creator: Creator = {
+  id: 'creator-1',
+  name: 'Alice Artist',
+  address: '0x1111111111111111111111111111111111111111',
+  description: 'Digital paintings',
+  avatar: 'https://example.com/alice.png',
+  totalTips: '1.5',
+  totalTipsWei: '1500000000000000000',
+  tipCount: 3,
+  activePledgeCount: 0,
+  supporterCount: 2,
+  tags: ['art'],
+  splits: [],
+  tokenTotals: [],
+  campaign: null,
+};
+
+beforeEach(() => {
+  mockedApi.getCreators.mockResolvedValue({ items: [creator], total: 1, page: 1, pageSize: 12 });
+  mockedApi.getCreatorTags.mockResolvedValue([{ tag: 'art', creatorCount: 1 }]);
+  mockedApi.getSession.mockResolvedValue(null);
+  mockedApi.getCreatorMessages.mockResolvedValue([]);
+});
+
+test('renders the app and lists creators', async () => {
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+
+  expect(screen.getByText('SHM Tip Jar')).toBeInTheDocument();
+  expect(await screen.findByText('Alice Artist')).toBeInTheDocument();
 });
@@ -1,11 +1,28 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Heart, Users, Plus } from 'lucide-react';
 import WalletConnect from './components/WalletConnect';
 import CreatorCard from './components/CreatorCard';
 import TransactionHistory from './components/TransactionHistory';
+import PledgeList from './components/PledgeList';
 import NetworkStatus from './components/NetworkStatus';
-import { Creator, WalletState } from './types';
+import CreatorFilters from './components/CreatorFilters';
+import CreatorPage from './components/CreatorPage';
+import RouteLink from './components/RouteLink';
+import { Creator, CreatorSort, CreatorTag, WalletState } from './types';
 import apiService from './services/apiService';
+import { watchLiveEvents } from './services/liveUpdates';
+import { Route, getCurrentRoute, watchRoute } from './services/navigation';
+import { parseTags } from './utils/tags';
+
+const CREATOR_PAGE_SIZE = 12;
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface CreatorListQuery {
+  q: string;
+  tag: string;
+  sort: CreatorSort;
+}
 
 function App() {
   const [walletState, setWalletState] = useState<WalletState>({
@@ -13,54 +30,156 @@ function App() {
     address: null,
     balance: '0',
     chainId: null,
+    tokenBalances: {},
   });
   const [creators, setCreators] = useState<Creator[]>([]);
+  const [creatorTotal, setCreatorTotal] = useState(0);
+  const [creatorPage, setCreatorPage] = useState(1);
+  const [creatorTags, setCreatorTags] = useState<CreatorTag[]>([]);
+  const [searchText, setSearchText] = useState('');
+  const [creatorQuery, setCreatorQuery] = useState<CreatorListQuery>({ q: '', tag: '', sort: 'most_tipped' });
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showAddCreator, setShowAddCreator] = useState(false);
+  const [sessionAddress, setSessionAddress] = useState<string | null>(null);
+  const [pledgeRefreshKey, setPledgeRefreshKey] = useState(0);
+  const [route, setRoute] = useState<Route>(getCurrentRoute);
+
+  // Live events and late responses need the query of the current render
+  const creatorQueryRef = useRef(creatorQuery);
+  creatorQueryRef.current = creatorQuery;
+  // Responses to superseded requests are dropped
+  const requestIdRef = useRef(0);
+
+  useEffect(() => watchRoute(setRoute), []);
 
   useEffect(() => {
     fetchCreators();
-  }, []);
+  }, [creatorQuery]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setCreatorQuery((current) => (current.q === searchText.trim() ? current : { ...current, q: searchText.trim() }));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchText]);
 
-  const fetchCreators = async () => {
-    setIsLoading(true);
+  // Creator totals, campaigns and pledge counts are pushed by the server as they
+  // change. Listed creators are updated in place; the list is only re-sorted and
+  // new creators only show up when it is fetched again.
+  useEffect(
+    () =>
+      watchLiveEvents((event) => {
+        if (event.type === 'reset') {
+          fetchCreators(true);
+        } else if (event.type === 'creator') {
+          const updated = event.creator;
+          setCreators((current) =>
+            current.map((creator) => (creator.id === updated.id ? updated : creator))
+          );
+        } else if (event.type === 'creatorRemoved') {
+          setCreators((current) => current.filter((creator) => creator.id !== event.creatorId));
+        }
+      }),
+    []
+  );
+
+  // Load the first page of creators for the current query, and the tag chips
+  const fetchCreators = async (silent = false) => {
+    const requestId = ++requestIdRef.current;
+    if (!silent) setIsLoading(true);
     setError(null);
 
     try {
-      const creatorsData = await apiService.getCreators();
-      setCreators(creatorsData);
+      const { q, tag, sort } = creatorQueryRef.current;
+      const [page, tags] = await Promise.all([
+        apiService.getCreators({ q: q || undefined, tag: tag || undefined, sort, pageSize: CREATOR_PAGE_SIZE }),
+        apiService.getCreatorTags(),
+      ]);
+      if (requestId !== requestIdRef.current) return;
+      setCreators(page.items);
+      setCreatorTotal(page.total);
+      setCreatorPage(page.page);
+      setCreatorTags(tags);
+    } catch (err: any) {
+      if (requestId === requestIdRef.current) setError(err.message);
+    } finally {
+      if (!silent && requestId === requestIdRef.current) setIsLoading(false);
+    }
+  };
+
+  const loadMoreCreators = async () => {
+    const requestId = requestIdRef.current;
+    setIsLoadingMore(true);
+
+    try {
+      const { q, tag, sort } = creatorQueryRef.current;
+      const page = await apiService.getCreators({
+        q: q || undefined,
+        tag: tag || undefined,
+        sort,
+        page: creatorPage + 1,
+        pageSize: CREATOR_PAGE_SIZE,
+      });
+      if (requestId !== requestIdRef.current) return;
+      // Creators can move between pages when tips arrive; skip the ones already listed
+      setCreators((current) => [
+        ...current,
+        ...page.items.filter((item) => !current.some((creator) => creator.id === item.id)),
+      ]);
+      setCreatorTotal(page.total);
+      setCreatorPage(page.page);
     } catch (err: any) {
-      setError(err.message);
+      if (requestId === requestIdRef.current) setError(err.message);
     } finally {
-      setIsLoading(false);
+      setIsLoadingMore(false);
     }
   };
 
+  const updateCreatorQuery = (changes: Partial<CreatorListQuery>) => {
+    setCreatorQuery((current) => ({ ...current, ...changes }));
+  };
+
+  const clearCreatorQuery = () => {
+    setSearchText('');
+    setCreatorQuery({ q: '', tag: '', sort: creatorQuery.sort });
+  };
+
+  const hasCreatorQuery = Boolean(creatorQuery.q || creatorQuery.tag);
+
   const handleWalletStateChange = (newWalletState: WalletState) => {
     setWalletState(newWalletState);
   };
 
-  const handleTipSent = () => {
-    // Refresh creators data to update tip counts
-    fetchCreators();
+  const handlePledgeCreated = () => {
+    // Show the new pledge in My Pledges; pledge counts arrive as live updates
+    setPledgeRefreshKey((key) => key + 1);
   };
 
   const AddCreatorForm = () => {
     const [formData, setFormData] = useState({
       name: '',
-      address: '',
+      address: walletState.address || '',
       description: '',
+      tags: '',
     });
     const [isSubmitting, setIsSubmitting] = useState(false);
 
     const handleSubmit = async (e: React.FormEvent) => {
       e.preventDefault();
+
+      const tags = parseTags(formData.tags);
+      if (typeof tags === 'string') {
+        alert(`Error: ${tags}`);
+        return;
+      }
+
       setIsSubmitting(true);
 
       try {
-        await apiService.createCreator(formData);
-        setFormData({ name: '', address: '', description: '' });
+        await apiService.createCreator({ ...formData, tags });
+        setFormData({ name: '', address: walletState.address || '', description: '', tags: '' });
         setShowAddCreator(false);
         fetchCreators();
       } catch (err: any) {
@@ -95,11 +214,14 @@ function App() {
                 <input
                   type="text"
                   value={formData.address}
-                  onChange={(e) => setFormData({ ...formData, address: e.target.value })}
-                  className="input-field"
-                  placeholder="0x..."
+                  className="input-field bg-gray-50"
+                  placeholder="Connect your wallet"
+                  readOnly
                   required
                 />
+                <p className="text-xs text-gray-500 mt-1">
+                  You will be asked to sign a message proving you own this wallet.
+                </p>
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -113,6 +235,21 @@ function App() {
                   required
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Tags
+                </label>
+                <input
+                  type="text"
+                  value={formData.tags}
+                  onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
+                  className="input-field"
+                  placeholder="music, podcasts"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Optional, separated by commas. Supporters can find you by tag.
+                </p>
+              </div>
               <div className="flex space-x-3">
                 <button
                   type="button"
@@ -123,10 +260,10 @@ function App() {
                 </button>
                 <button
                   type="submit"
-                  disabled={isSubmitting}
+                  disabled={isSubmitting || !walletState.isConnected}
                   className="btn-primary flex-1 disabled:opacity-50"
                 >
-                  {isSubmitting ? 'Adding...' : 'Add Creator'}
+                  {isSubmitting ? 'Waiting for signature...' : 'Add Creator'}
                 </button>
               </div>
             </form>
@@ -142,7 +279,7 @@ function App() {
       <header className="bg-white shadow-sm border-b">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex items-center justify-between h-16">
-            <div className="flex items-center space-x-3">
+            <RouteLink to="/" className="flex items-center space-x-3">
               <div className="w-10 h-10 bg-shardeum-600 rounded-lg flex items-center justify-center">
                 <Heart className="w-6 h-6 text-white" />
               </div>
@@ -150,7 +287,7 @@ function App() {
                 <h1 className="text-xl font-bold text-gray-900">SHM Tip Jar</h1>
                 <p className="text-sm text-gray-600">Support creators on Shardeum</p>
               </div>
-            </div>
+            </RouteLink>
             
             <div className="flex items-center space-x-4">
               <button
@@ -171,76 +308,135 @@ function App() {
           {/* Left Column - Wallet & History */}
           <div className="lg:col-span-1 space-y-6">
             <NetworkStatus />
-            <WalletConnect onWalletStateChange={handleWalletStateChange} />
-            <TransactionHistory walletState={walletState} />
+            <WalletConnect
+              onWalletStateChange={handleWalletStateChange}
+              onSessionChange={setSessionAddress}
+            />
+            <PledgeList
+              walletState={walletState}
+              creators={creators}
+              refreshKey={pledgeRefreshKey}
+            />
+            <TransactionHistory walletState={walletState} creators={creators} />
           </div>
 
-          {/* Right Column - Creators */}
-          <div className="lg:col-span-2">
-            <div className="flex items-center justify-between mb-6">
-              <div className="flex items-center space-x-2">
-                <Users className="w-6 h-6 text-gray-600" />
-                <h2 className="text-2xl font-bold text-gray-900">Creators</h2>
-              </div>
-              <p className="text-gray-600">
-                {creators.length} creator{creators.length !== 1 ? 's' : ''} available
-              </p>
+          {/* Right Column - Creators, or one creator's page */}
+          {route.page === 'creator' ? (
+            <div className="lg:col-span-2">
+              <CreatorPage
+                key={route.creatorId}
+                creatorId={route.creatorId}
+                walletState={walletState}
+                openTip={route.openTip}
+              />
             </div>
-
-            {error && (
-              <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
-                <p className="text-red-600">{error}</p>
-                <button
-                  onClick={fetchCreators}
-                  className="text-red-800 hover:text-red-900 text-sm font-medium underline mt-2"
-                >
-                  Try Again
-                </button>
+          ) : (
+            <div className="lg:col-span-2">
+              <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center space-x-2">
+                  <Users className="w-6 h-6 text-gray-600" />
+                  <h2 className="text-2xl font-bold text-gray-900">Creators</h2>
+                </div>
+                <p className="text-gray-600">
+                  {creatorTotal} creator{creatorTotal !== 1 ? 's' : ''} {hasCreatorQuery ? 'found' : 'available'}
+                </p>
               </div>
-            )}
-
-            {isLoading ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {[1, 2, 3, 4].map((i) => (
-                  <div key={i} className="card animate-pulse">
-                    <div className="flex items-start space-x-4">
-                      <div className="w-16 h-16 bg-gray-200 rounded-full"></div>
-                      <div className="flex-1">
-                        <div className="h-4 bg-gray-200 rounded mb-2"></div>
-                        <div className="h-3 bg-gray-200 rounded mb-3"></div>
-                        <div className="h-8 bg-gray-200 rounded"></div>
+
+              <CreatorFilters
+                search={searchText}
+                tag={creatorQuery.tag}
+                sort={creatorQuery.sort}
+                tags={creatorTags}
+                onSearchChange={setSearchText}
+                onTagChange={(tag) => updateCreatorQuery({ tag })}
+                onSortChange={(sort) => updateCreatorQuery({ sort })}
+              />
+
+              {error && (
+                <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+                  <p className="text-red-600">{error}</p>
+                  <button
+                    onClick={() => fetchCreators()}
+                    className="text-red-800 hover:text-red-900 text-sm font-medium underline mt-2"
+                  >
+                    Try Again
+                  </button>
+                </div>
+              )}
+
+              {isLoading ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {[1, 2, 3, 4].map((i) => (
+                    <div key={i} className="card animate-pulse">
+                      <div className="flex items-start space-x-4">
+                        <div className="w-16 h-16 bg-gray-200 rounded-full"></div>
+                        <div className="flex-1">
+                          <div className="h-4 bg-gray-200 rounded mb-2"></div>
+                          <div className="h-3 bg-gray-200 rounded mb-3"></div>
+                          <div className="h-8 bg-gray-200 rounded"></div>
+                        </div>
                       </div>
                     </div>
+                  ))}
+                </div>
+              ) : creators.length === 0 && hasCreatorQuery ? (
+                <div className="text-center py-12">
+                  <Users className="w-16 h-16 mx-auto text-gray-400 mb-4" />
+                  <h3 className="text-lg font-semibold text-gray-900 mb-2">No Matching Creators</h3>
+                  <p className="text-gray-600 mb-4">
+                    Try a different search or tag.
+                  </p>
+                  <button
+                    onClick={clearCreatorQuery}
+                    className="btn-secondary"
+                  >
+                    Clear Search
+                  </button>
+                </div>
+              ) : creators.length === 0 ? (
+                <div className="text-center py-12">
+                  <Users className="w-16 h-16 mx-auto text-gray-400 mb-4" />
+                  <h3 className="text-lg font-semibold text-gray-900 mb-2">No Creators Yet</h3>
+                  <p className="text-gray-600 mb-4">
+                    Be the first to add a creator to the platform!
+                  </p>
+                  <button
+                    onClick={() => setShowAddCreator(true)}
+                    className="btn-primary"
+                  >
+                    Add First Creator
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {creators.map((creator) => (
+                      <CreatorCard
+                        key={creator.id}
+                        creator={creator}
+                        walletState={walletState}
+                        onPledgeCreated={handlePledgeCreated}
+                        isOwner={sessionAddress === creator.address.toLowerCase()}
+                        onCreatorChanged={() => fetchCreators()}
+                        onTagSelected={(tag) => updateCreatorQuery({ tag })}
+                      />
+                    ))}
                   </div>
-                ))}
-              </div>
-            ) : creators.length === 0 ? (
-              <div className="text-center py-12">
-                <Users className="w-16 h-16 mx-auto text-gray-400 mb-4" />
-                <h3 className="text-lg font-semibold text-gray-900 mb-2">No Creators Yet</h3>
-                <p className="text-gray-600 mb-4">
-                  Be the first to add a creator to the platform!
-                </p>
-                <button
-                  onClick={() => setShowAddCreator(true)}
-                  className="btn-primary"
-                >
-                  Add First Creator
-                </button>
-              </div>
-            ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {creators.map((creator) => (
-                  <CreatorCard
-                    key={creator.id}
-                    creator={creator}
-                    walletState={walletState}
-                    onTipSent={handleTipSent}
-                  />
-                ))}
-              </div>
-            )}
-          </div>
+                  {creators.length < creatorTotal && (
+                    <div className="text-center mt-6">
+                      <button
+                        onClick={loadMoreCreators}
+                        disabled={isLoadingMore}
+                        className="btn-secondary disabled:opacity-50"
+                      >
+                        {isLoadingMore ? 'Loading...' : 'Show More Creators'}
+                      </button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
         </div>
       </main>
 
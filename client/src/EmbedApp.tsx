@@ -0,0 +1,29 @@
+import React, { useEffect, useRef } from 'react';
+import TipWidget from './components/TipWidget';
+import { watchContentHeight } from './services/embedHost';
+
+interface EmbedAppProps {
+  creatorId: string;
+}
+
+// Root of /embed/:id, the page public/embed.js loads into an iframe on a
+// creator's site. It is bundled apart from the app so that hosts only
+// download the widget.
+const EmbedApp: React.FC<EmbedAppProps> = ({ creatorId }) => {
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  // Let the host page show through around the widget
+  useEffect(() => {
+    document.body.style.background = 'transparent';
+  }, []);
+
+  useEffect(() => watchContentHeight(contentRef.current!, creatorId), [creatorId]);
+
+  return (
+    <div ref={contentRef} className="p-1">
+      <TipWidget creatorId={creatorId} />
+    </div>
+  );
+};
+
+export default EmbedApp;
@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import { X, AlertCircle, Trash2, Loader } from 'lucide-react';
+import { Campaign, Creator } from '../types';
+import apiService from '../services/apiService';
+import { tryParseShm } from '../utils/amounts';
+import CampaignProgress from './CampaignProgress';
+
+interface CampaignModalProps {
+  creator: Creator;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const MAX_TITLE_LENGTH = 80;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+// Owner view of a creator's campaigns: start a new one or delete old ones
+const CampaignModal: React.FC<CampaignModalProps> = ({ creator, onClose, onChanged }) => {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [formData, setFormData] = useState({ title: '', description: '', target: '', deadline: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiService
+      .getCampaigns(creator.id)
+      .then(setCampaigns)
+      .catch((err) => setError(err.message))
+      .finally(() => setIsLoading(false));
+  }, [creator.id]);
+
+  const hasActiveCampaign = campaigns.some((campaign) => campaign.status === 'active');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const targetWei = tryParseShm(formData.target);
+    if (targetWei === null || targetWei <= BigInt(0)) {
+      setError('Please enter a valid target amount');
+      return;
+    }
+
+    // The campaign runs until the end of the chosen day
+    const deadline = new Date(`${formData.deadline}T23:59:59`);
+    if (Number.isNaN(deadline.getTime()) || deadline.getTime() <= Date.now()) {
+      setError('The deadline must be in the future');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const campaign = await apiService.createCampaign(creator.id, {
+        title: formData.title.trim(),
+        description: formData.description.trim(),
+        targetWei: targetWei.toString(),
+        deadline: deadline.toISOString(),
+      });
+      setCampaigns([campaign, ...campaigns]);
+      setFormData({ title: '', description: '', target: '', deadline: '' });
+      onChanged();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (campaign: Campaign) => {
+    if (!window.confirm(`Delete the campaign "${campaign.title}"? Tips already sent stay in the history.`)) {
+      return;
+    }
+
+    setError(null);
+    try {
+      await apiService.deleteCampaign(creator.id, campaign.id);
+      setCampaigns(campaigns.filter((entry) => entry.id !== campaign.id));
+      onChanged();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold">Campaigns</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {isLoading ? (
+            <div className="text-center py-4">
+              <Loader className="w-6 h-6 mx-auto text-gray-400 animate-spin" />
+            </div>
+          ) : (
+            campaigns.length > 0 && (
+              <div className="space-y-3">
+                {campaigns.map((campaign) => (
+                  <div key={campaign.id} className="p-3 border border-gray-200 rounded-lg">
+                    <CampaignProgress campaign={campaign} showDescription />
+                    <button
+                      onClick={() => handleDelete(campaign)}
+                      className="mt-2 flex items-center space-x-1 text-xs text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                      <span>Delete</span>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+
+          {!isLoading && !hasActiveCampaign && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <h3 className="font-medium">Start a Campaign</h3>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Title
+                </label>
+                <input
+                  type="text"
+                  value={formData.title}
+                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                  className="input-field"
+                  placeholder="New microphone"
+                  maxLength={MAX_TITLE_LENGTH}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Description
+                </label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  className="input-field resize-none"
+                  rows={3}
+                  maxLength={MAX_DESCRIPTION_LENGTH}
+                  placeholder="What the money is for"
+                  required
+                />
+              </div>
+              <div className="flex space-x-3">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Target (SHM)
+                  </label>
+                  <input
+                    type="number"
+                    value={formData.target}
+                    onChange={(e) => setFormData({ ...formData, target: e.target.value })}
+                    className="input-field"
+                    placeholder="50"
+                    min="0"
+                    step="0.001"
+                    required
+                  />
+                </div>
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Deadline
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.deadline}
+                    onChange={(e) => setFormData({ ...formData, deadline: e.target.value })}
+                    className="input-field"
+                    required
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                SHM tips sent while the campaign is active count toward it. It is marked reached once the target is
+                covered, or ended when the deadline passes.
+              </p>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="btn-primary w-full disabled:opacity-50"
+              >
+                {isSubmitting ? 'Starting...' : 'Start Campaign'}
+              </button>
+            </form>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+              <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CampaignModal;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Target } from 'lucide-react';
+import { Campaign } from '../types';
+import { formatShm } from '../utils/amounts';
+
+interface CampaignProgressProps {
+  campaign: Campaign;
+  // A tip that has not been sent yet, shown on top of the amount raised
+  previewWei?: bigint;
+  showDescription?: boolean;
+}
+
+// Progress as a percentage of the target, capped at 100
+const percentOf = (valueWei: bigint, targetWei: bigint): number =>
+  targetWei === BigInt(0) ? 0 : Math.min(100, Number((valueWei * BigInt(10000)) / targetWei) / 100);
+
+const CampaignProgress: React.FC<CampaignProgressProps> = ({ campaign, previewWei, showDescription = false }) => {
+  const raisedWei = BigInt(campaign.raisedWei);
+  const targetWei = BigInt(campaign.targetWei);
+  const raisedPercent = percentOf(raisedWei, targetWei);
+  const previewPercent = previewWei ? percentOf(raisedWei + previewWei, targetWei) - raisedPercent : 0;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <span className="flex items-center space-x-1 text-sm font-medium text-gray-700 min-w-0">
+          <Target className="w-4 h-4 text-shardeum-500 flex-shrink-0" />
+          <span className="truncate">{campaign.title}</span>
+        </span>
+        {campaign.status === 'reached' ? (
+          <span className="px-2 py-0.5 text-xs rounded-full text-green-600 bg-green-50">Goal reached 🎉</span>
+        ) : campaign.status === 'expired' ? (
+          <span className="px-2 py-0.5 text-xs rounded-full text-gray-600 bg-gray-100">Ended</span>
+        ) : (
+          <span className="text-xs text-gray-500">Ends {new Date(campaign.deadline).toLocaleDateString()}</span>
+        )}
+      </div>
+      {showDescription && <p className="text-xs text-gray-600 mb-2">{campaign.description}</p>}
+      <div className="flex h-2 w-full bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className={`h-full ${campaign.status === 'reached' ? 'bg-green-500' : 'bg-shardeum-500'}`}
+          style={{ width: `${raisedPercent}%` }}
+        />
+        {previewPercent > 0 && <div className="h-full bg-shardeum-300" style={{ width: `${previewPercent}%` }} />}
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        {formatShm(raisedWei)} of {formatShm(targetWei)} SHM ({Math.floor(raisedPercent)}%) · {campaign.tipCount}{' '}
+        {campaign.tipCount === 1 ? 'tip' : 'tips'}
+      </p>
+    </div>
+  );
+};
+
+export default CampaignProgress;
@@ -1,23 +1,52 @@
-import React, { useState } from 'react';
-import { Heart, Send, User, TrendingUp } from 'lucide-react';
-import { Creator, WalletState } from '../types';
+import React, { useState, useEffect } from 'react';
+import { Heart, Send, User, TrendingUp, MessageCircle, Pencil, Trash2, BarChart2, Repeat, Users, Target } from 'lucide-react';
+import { Creator, Transaction, WalletState } from '../types';
+import apiService from '../services/apiService';
+import web3Service from '../services/web3Service';
 import TipModal from './TipModal';
+import PledgeModal from './PledgeModal';
+import EditCreatorModal from './EditCreatorModal';
+import CreatorStatsModal from './CreatorStatsModal';
+import CampaignModal from './CampaignModal';
+import CampaignProgress from './CampaignProgress';
+import RouteLink from './RouteLink';
+import { creatorPath } from '../services/navigation';
+import { findToken } from '../config/networks';
+import { formatShm, formatTokenAmount } from '../utils/amounts';
 
 interface CreatorCardProps {
   creator: Creator;
   walletState: WalletState;
-  onTipSent: () => void;
+  onTipSent?: () => void;
+  onPledgeCreated?: () => void;
+  isOwner?: boolean;
+  onCreatorChanged?: () => void;
+  // Called with a tag chip the user clicked, to filter the creator list by it
+  onTagSelected?: (tag: string) => void;
 }
 
-const CreatorCard: React.FC<CreatorCardProps> = ({ creator, walletState, onTipSent }) => {
+const CreatorCard: React.FC<CreatorCardProps> = ({
+  creator,
+  walletState,
+  onTipSent,
+  onPledgeCreated,
+  isOwner = false,
+  onCreatorChanged,
+  onTagSelected,
+}) => {
   const [showTipModal, setShowTipModal] = useState(false);
+  const [showPledgeModal, setShowPledgeModal] = useState(false);
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [showStatsModal, setShowStatsModal] = useState(false);
+  const [showCampaignModal, setShowCampaignModal] = useState(false);
+  const [latestMessage, setLatestMessage] = useState<Transaction | null>(null);
 
-  const formatTips = (tips: string): string => {
-    const num = parseFloat(tips);
-    if (num === 0) return '0';
-    if (num < 0.001) return '< 0.001';
-    return num.toFixed(4);
-  };
+  useEffect(() => {
+    apiService
+      .getCreatorMessages(creator.id, 1)
+      .then((messages) => setLatestMessage(messages[0] || null))
+      .catch((err) => console.warn('Could not load creator messages:', err));
+  }, [creator.id, creator.tipCount]);
 
   const handleTipClick = () => {
     if (!walletState.isConnected) {
@@ -27,6 +56,27 @@ const CreatorCard: React.FC<CreatorCardProps> = ({ creator, walletState, onTipSe
     setShowTipModal(true);
   };
 
+  const handlePledgeClick = () => {
+    if (!walletState.isConnected) {
+      alert('Please connect your wallet first');
+      return;
+    }
+    setShowPledgeModal(true);
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete the creator profile "${creator.name}"? Tips already sent stay in the history.`)) {
+      return;
+    }
+
+    try {
+      await apiService.deleteCreator(creator.id);
+      onCreatorChanged?.();
+    } catch (err: any) {
+      alert(`Error: ${err.message}`);
+    }
+  };
+
   return (
     <>
       <div className="card hover:shadow-lg transition-shadow duration-200">
@@ -46,20 +96,68 @@ const CreatorCard: React.FC<CreatorCardProps> = ({ creator, walletState, onTipSe
           <div className="flex-1 min-w-0">
             <div className="flex items-center space-x-2 mb-2">
               <h3 className="text-lg font-semibold text-gray-900 truncate">
-                {creator.name}
+                <RouteLink to={creatorPath(creator.id)} className="hover:text-shardeum-600">
+                  {creator.name}
+                </RouteLink>
               </h3>
-              <User className="w-4 h-4 text-gray-400" />
+              {creator.splits.length > 0 ? (
+                <span title={`Tips are split between ${creator.splits.length} addresses`}>
+                  <Users className="w-4 h-4 text-gray-400" />
+                </span>
+              ) : (
+                <User className="w-4 h-4 text-gray-400" />
+              )}
+              {isOwner && (
+                <div className="flex items-center space-x-1 ml-auto">
+                  <button
+                    onClick={() => setShowEditModal(true)}
+                    className="p-1 hover:bg-gray-100 rounded transition-colors"
+                    title="Edit profile"
+                  >
+                    <Pencil className="w-4 h-4 text-gray-500" />
+                  </button>
+                  <button
+                    onClick={() => setShowCampaignModal(true)}
+                    className="p-1 hover:bg-gray-100 rounded transition-colors"
+                    title="Campaigns"
+                  >
+                    <Target className="w-4 h-4 text-gray-500" />
+                  </button>
+                  <button
+                    onClick={handleDelete}
+                    className="p-1 hover:bg-red-50 rounded transition-colors"
+                    title="Delete profile"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </button>
+                </div>
+              )}
             </div>
             
             <p className="text-gray-600 text-sm mb-3 line-clamp-2">
               {creator.description}
             </p>
 
+            {creator.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mb-3">
+                {creator.tags.map((tag) => (
+                  <button
+                    key={tag}
+                    onClick={() => onTagSelected?.(tag)}
+                    disabled={!onTagSelected}
+                    className="px-2 py-0.5 text-xs rounded-full text-shardeum-700 bg-shardeum-50 hover:bg-shardeum-100 disabled:hover:bg-shardeum-50"
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            )}
+
             <div className="flex items-center space-x-4 mb-4">
               <div className="flex items-center space-x-1">
                 <TrendingUp className="w-4 h-4 text-green-500" />
                 <span className="text-sm font-medium text-gray-700">
-                  {formatTips(creator.totalTips)} SHM
+                  {formatShm(creator.totalTipsWei)} SHM
                 </span>
               </div>
               <div className="flex items-center space-x-1">
@@ -68,8 +166,50 @@ const CreatorCard: React.FC<CreatorCardProps> = ({ creator, walletState, onTipSe
                   {creator.tipCount} tips
                 </span>
               </div>
+              <div className="flex items-center space-x-1">
+                <Repeat className="w-4 h-4 text-shardeum-500" />
+                <span className="text-sm text-gray-600">
+                  {creator.activePledgeCount} {creator.activePledgeCount === 1 ? 'pledge' : 'pledges'}
+                </span>
+              </div>
+              <button
+                onClick={() => setShowStatsModal(true)}
+                className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+              >
+                <BarChart2 className="w-4 h-4" />
+                <span>Stats</span>
+              </button>
             </div>
 
+            {creator.tokenTotals.length > 0 && (
+              <p className="-mt-2 mb-4 text-xs text-gray-500">
+                Also tipped:{' '}
+                {creator.tokenTotals
+                  .map(
+                    (total) =>
+                      `${formatTokenAmount(total.totalWei, total.tokenDecimals)} ${
+                        findToken(total.tokenAddress)?.symbol || web3Service.formatAddress(total.tokenAddress)
+                      }`
+                  )
+                  .join(', ')}
+              </p>
+            )}
+
+            {creator.campaign && (
+              <div className="mb-4">
+                <CampaignProgress campaign={creator.campaign} />
+              </div>
+            )}
+
+            {latestMessage && (
+              <div className="mb-4 p-3 bg-gray-50 rounded-lg flex items-start space-x-2">
+                <MessageCircle className="w-4 h-4 text-gray-400 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-gray-700 italic break-words line-clamp-2">
+                  "{latestMessage.message}"
+                </p>
+              </div>
+            )}
+
             <div className="mb-4">
               <p className="text-xs text-gray-500 mb-1">Wallet Address:</p>
               <code className="text-xs bg-gray-100 px-2 py-1 rounded font-mono">
@@ -85,6 +225,16 @@ const CreatorCard: React.FC<CreatorCardProps> = ({ creator, walletState, onTipSe
               <Send className="w-4 h-4" />
               <span>Send Tip</span>
             </button>
+            {web3Service.hasPledgeVault() && (
+              <button
+                onClick={handlePledgeClick}
+                disabled={!walletState.isConnected}
+                className="btn-secondary w-full mt-2 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+              >
+                <Repeat className="w-4 h-4" />
+                <span>Pledge Monthly</span>
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -94,9 +244,41 @@ const CreatorCard: React.FC<CreatorCardProps> = ({ creator, walletState, onTipSe
           creator={creator}
           walletState={walletState}
           onClose={() => setShowTipModal(false)}
-          onTipSent={() => {
-            setShowTipModal(false);
-            onTipSent();
+          onTipSent={onTipSent}
+        />
+      )}
+
+      {showPledgeModal && (
+        <PledgeModal
+          creator={creator}
+          walletState={walletState}
+          onClose={() => setShowPledgeModal(false)}
+          onPledgeCreated={() => onPledgeCreated?.()}
+        />
+      )}
+
+      {showStatsModal && (
+        <CreatorStatsModal
+          creator={creator}
+          onClose={() => setShowStatsModal(false)}
+        />
+      )}
+
+      {showCampaignModal && (
+        <CampaignModal
+          creator={creator}
+          onClose={() => setShowCampaignModal(false)}
+          onChanged={() => onCreatorChanged?.()}
+        />
+      )}
+
+      {showEditModal && (
+        <EditCreatorModal
+          creator={creator}
+          onClose={() => setShowEditModal(false)}
+          onSaved={() => {
+            setShowEditModal(false);
+            onCreatorChanged?.();
           }}
         />
       )}
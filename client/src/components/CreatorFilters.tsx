@@ -0,0 +1,86 @@
+import React from 'react';
+import { Search, X } from 'lucide-react';
+import { CreatorSort, CreatorTag } from '../types';
+
+interface CreatorFiltersProps {
+  search: string;
+  tag: string;
+  sort: CreatorSort;
+  tags: CreatorTag[];
+  onSearchChange: (search: string) => void;
+  onTagChange: (tag: string) => void;
+  onSortChange: (sort: CreatorSort) => void;
+}
+
+const SORT_OPTIONS: { value: CreatorSort; label: string }[] = [
+  { value: 'most_tipped', label: 'Most tipped' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'most_supporters', label: 'Most supporters' },
+];
+
+// Search bar, tag chips and sort order above the creators grid
+const CreatorFilters: React.FC<CreatorFiltersProps> = ({
+  search,
+  tag,
+  sort,
+  tags,
+  onSearchChange,
+  onTagChange,
+  onSortChange,
+}) => {
+  // A tag picked from a card may not be among the most used ones
+  const chips = tag && !tags.some((entry) => entry.tag === tag) ? [{ tag, creatorCount: 0 }, ...tags] : tags;
+
+  return (
+    <div className="mb-6 space-y-3">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => onSearchChange(e.target.value)}
+            className="input-field pl-9"
+            placeholder="Search creators"
+            maxLength={100}
+          />
+        </div>
+        <select
+          value={sort}
+          onChange={(e) => onSortChange(e.target.value as CreatorSort)}
+          className="input-field sm:w-48"
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {chips.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {chips.map((entry) => {
+            const isSelected = entry.tag === tag;
+            return (
+              <button
+                key={entry.tag}
+                onClick={() => onTagChange(isSelected ? '' : entry.tag)}
+                className={`flex items-center space-x-1 px-3 py-1 text-sm rounded-full transition-colors ${
+                  isSelected
+                    ? 'bg-shardeum-600 text-white hover:bg-shardeum-700'
+                    : 'bg-white border border-gray-200 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <span>#{entry.tag}</span>
+                {isSelected && <X className="w-3 h-3" />}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CreatorFilters;
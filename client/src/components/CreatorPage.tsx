@@ -0,0 +1,320 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, Send, Link2, Code, Check, Heart, TrendingUp, Users, MessageCircle, Loader, UserX } from 'lucide-react';
+import { Creator, Transaction, WalletState } from '../types';
+import apiService, { isNotFound } from '../services/apiService';
+import web3Service from '../services/web3Service';
+import { watchLiveEvents } from '../services/liveUpdates';
+import { creatorPath, creatorUrl, embedSnippet, navigate } from '../services/navigation';
+import { findToken } from '../config/networks';
+import { formatShm, formatTokenAmount } from '../utils/amounts';
+import { formatTransactionAmount } from '../utils/transactions';
+import { resetPageMeta, setPageMeta } from '../utils/pageMeta';
+import TipModal from './TipModal';
+import CampaignProgress from './CampaignProgress';
+import RouteLink from './RouteLink';
+
+interface CreatorPageProps {
+  creatorId: string;
+  walletState: WalletState;
+  // Open the tip dialog once the creator is loaded (/c/:id?tip)
+  openTip?: boolean;
+}
+
+const TIPS_PAGE_SIZE = 20;
+const COPIED_NOTICE_MS = 2000;
+
+// A creator's shareable profile: full description, totals and the tips it received
+const CreatorPage: React.FC<CreatorPageProps> = ({ creatorId, walletState, openTip = false }) => {
+  const [creator, setCreator] = useState<Creator | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [tips, setTips] = useState<Transaction[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [showTipModal, setShowTipModal] = useState(false);
+  // Which of the share buttons just copied something
+  const [copied, setCopied] = useState<'link' | 'embed' | null>(null);
+
+  const fetchCreator = useCallback(async (silent = false) => {
+    if (!silent) setIsLoading(true);
+    setError(null);
+
+    try {
+      const [creatorData, tipsPage] = await Promise.all([
+        apiService.getCreatorById(creatorId),
+        apiService.getAllTransactions({ creatorId, status: 'confirmed', limit: TIPS_PAGE_SIZE }),
+      ]);
+      setCreator(creatorData);
+      setTips(tipsPage.items);
+      setNextCursor(tipsPage.nextCursor);
+    } catch (err: any) {
+      setCreator(null);
+      setError(isNotFound(err) ? 'Creator not found' : err.message);
+    } finally {
+      if (!silent) setIsLoading(false);
+    }
+  }, [creatorId]);
+
+  useEffect(() => {
+    fetchCreator();
+  }, [fetchCreator]);
+
+  // A ?tip link waits for the wallet, which may still be reconnecting
+  useEffect(() => {
+    if (creator && openTip && walletState.isConnected) setShowTipModal(true);
+  }, [creator, openTip, walletState.isConnected]);
+
+  useEffect(() => {
+    if (!creator) return;
+    setPageMeta({
+      title: `${creator.name} on SHM Tip Jar`,
+      description: creator.description,
+      image: creator.avatar,
+      url: creatorUrl(creator.id),
+    });
+  }, [creator]);
+
+  useEffect(() => resetPageMeta, []);
+
+  // Totals and new confirmed tips are pushed by the server
+  useEffect(
+    () =>
+      watchLiveEvents((event) => {
+        if (event.type === 'reset') {
+          fetchCreator(true);
+        } else if (event.type === 'creator' && event.creator.id === creatorId) {
+          setCreator(event.creator);
+        } else if (event.type === 'creatorRemoved' && event.creatorId === creatorId) {
+          setCreator(null);
+          setError('Creator not found');
+        } else if (event.type === 'transaction') {
+          const tip = event.transaction;
+          if (tip.creatorId !== creatorId || tip.status !== 'confirmed') return;
+          setTips((current) =>
+            current.some((entry) => entry.id === tip.id)
+              ? current.map((entry) => (entry.id === tip.id ? tip : entry))
+              : [tip, ...current]
+          );
+        }
+      }),
+    [creatorId, fetchCreator]
+  );
+
+  const loadMoreTips = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+
+    try {
+      const page = await apiService.getAllTransactions({
+        creatorId,
+        status: 'confirmed',
+        cursor: nextCursor,
+        limit: TIPS_PAGE_SIZE,
+      });
+      setTips((current) => [...current, ...page.items.filter((item) => !current.some((tip) => tip.id === item.id))]);
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // The link to this page, or the script tag that embeds the tip widget elsewhere
+  const handleCopy = async (what: 'link' | 'embed') => {
+    try {
+      await navigator.clipboard.writeText(what === 'link' ? creatorUrl(creatorId) : embedSnippet(creatorId));
+      setCopied(what);
+      setTimeout(() => setCopied(null), COPIED_NOTICE_MS);
+    } catch (err: any) {
+      alert(`Could not copy the ${what === 'link' ? 'link' : 'embed code'}: ${err.message}`);
+    }
+  };
+
+  // Drop ?tip so that reloading the page does not open the dialog again
+  const handleCloseTipModal = () => {
+    setShowTipModal(false);
+    if (openTip) navigate(creatorPath(creatorId), { replace: true });
+  };
+
+  const backLink = (
+    <RouteLink to="/" className="inline-flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900 mb-6">
+      <ArrowLeft className="w-4 h-4" />
+      <span>All creators</span>
+    </RouteLink>
+  );
+
+  if (isLoading) {
+    return (
+      <div>
+        {backLink}
+        <div className="card text-center py-12">
+          <Loader className="w-8 h-8 mx-auto text-gray-400 animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!creator) {
+    return (
+      <div>
+        {backLink}
+        <div className="card text-center py-12">
+          <UserX className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">{error || 'Creator not found'}</h3>
+          {error !== 'Creator not found' && (
+            <button
+              onClick={() => fetchCreator()}
+              className="text-sm font-medium text-shardeum-600 hover:text-shardeum-700"
+            >
+              Try Again
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {backLink}
+
+      <div className="card mb-6">
+        <div className="flex flex-col sm:flex-row sm:items-start gap-6">
+          <img
+            src={creator.avatar}
+            alt={creator.name}
+            className="w-24 h-24 rounded-full bg-gray-200 flex-shrink-0"
+            onError={(e) => {
+              const target = e.target as HTMLImageElement;
+              target.src = `https://api.dicebear.com/7.x/avataaars/svg?seed=${creator.name}`;
+            }}
+          />
+
+          <div className="flex-1 min-w-0">
+            <h2 className="text-2xl font-bold text-gray-900 break-words">{creator.name}</h2>
+            <p className="text-sm text-gray-500 font-mono mb-3">{web3Service.formatAddress(creator.address)}</p>
+
+            {creator.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mb-3">
+                {creator.tags.map((tag) => (
+                  <span key={tag} className="px-2 py-0.5 text-xs rounded-full text-shardeum-700 bg-shardeum-50">
+                    #{tag}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <p className="text-gray-700 whitespace-pre-line break-words mb-4">{creator.description}</p>
+
+            <div className="flex flex-wrap items-center gap-4 mb-4">
+              <div className="flex items-center space-x-1">
+                <TrendingUp className="w-4 h-4 text-green-500" />
+                <span className="text-sm font-medium text-gray-700">{formatShm(creator.totalTipsWei)} SHM</span>
+              </div>
+              <div className="flex items-center space-x-1">
+                <Heart className="w-4 h-4 text-red-500" />
+                <span className="text-sm text-gray-600">{creator.tipCount} tips</span>
+              </div>
+              <div className="flex items-center space-x-1">
+                <Users className="w-4 h-4 text-gray-500" />
+                <span className="text-sm text-gray-600">
+                  {creator.supporterCount} {creator.supporterCount === 1 ? 'supporter' : 'supporters'}
+                </span>
+              </div>
+            </div>
+
+            {creator.tokenTotals.length > 0 && (
+              <p className="-mt-2 mb-4 text-xs text-gray-500">
+                Also tipped:{' '}
+                {creator.tokenTotals
+                  .map(
+                    (total) =>
+                      `${formatTokenAmount(total.totalWei, total.tokenDecimals)} ${
+                        findToken(total.tokenAddress)?.symbol || web3Service.formatAddress(total.tokenAddress)
+                      }`
+                  )
+                  .join(', ')}
+              </p>
+            )}
+
+            {creator.campaign && (
+              <div className="mb-4">
+                <CampaignProgress campaign={creator.campaign} showDescription />
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={() => setShowTipModal(true)}
+                disabled={!walletState.isConnected}
+                className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Send className="w-4 h-4" />
+                <span>{walletState.isConnected ? 'Send Tip' : 'Connect Wallet to Tip'}</span>
+              </button>
+              <button onClick={() => handleCopy('link')} className="btn-secondary flex items-center space-x-2">
+                {copied === 'link' ? <Check className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+                <span>{copied === 'link' ? 'Link Copied' : 'Copy Link'}</span>
+              </button>
+              <button
+                onClick={() => handleCopy('embed')}
+                className="btn-secondary flex items-center space-x-2"
+                title="Script tag that shows a tip button for this creator on another website"
+              >
+                {copied === 'embed' ? <Check className="w-4 h-4" /> : <Code className="w-4 h-4" />}
+                <span>{copied === 'embed' ? 'Embed Code Copied' : 'Embed'}</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="flex items-center space-x-2 mb-4">
+          <MessageCircle className="w-5 h-5 text-gray-600" />
+          <h3 className="text-lg font-semibold">Tips Received</h3>
+        </div>
+
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+        {tips.length === 0 ? (
+          <p className="text-gray-600 text-center py-6">No tips yet. Be the first to send one!</p>
+        ) : (
+          <div className="space-y-3">
+            {tips.map((tip) => (
+              <div key={tip.id} className="p-4 border border-gray-200 rounded-lg">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-600">
+                    From <span className="font-mono">{web3Service.formatAddress(tip.fromAddress)}</span>
+                  </p>
+                  <p className="font-semibold text-green-600">{formatTransactionAmount(tip)}</p>
+                </div>
+                {tip.message && <p className="text-sm text-gray-700 italic mt-1 break-words">"{tip.message}"</p>}
+                <p className="text-xs text-gray-500 mt-1">{new Date(tip.timestamp).toLocaleString()}</p>
+              </div>
+            ))}
+
+            {nextCursor && (
+              <div className="text-center pt-2">
+                <button
+                  onClick={loadMoreTips}
+                  disabled={isLoadingMore}
+                  className="text-sm text-shardeum-600 hover:text-shardeum-700 disabled:opacity-50"
+                >
+                  {isLoadingMore ? 'Loading...' : 'Show more tips'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {showTipModal && (
+        <TipModal creator={creator} walletState={walletState} onClose={handleCloseTipModal} />
+      )}
+    </div>
+  );
+};
+
+export default CreatorPage;
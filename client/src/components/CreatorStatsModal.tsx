@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { X, TrendingUp, Heart, Users, RefreshCw } from 'lucide-react';
+import { Creator, CreatorStats, StatsInterval } from '../types';
+import apiService from '../services/apiService';
+import web3Service from '../services/web3Service';
+import { formatShm } from '../utils/amounts';
+
+interface CreatorStatsModalProps {
+  creator: Creator;
+  onClose: () => void;
+}
+
+const INTERVAL_LABELS: Record<StatsInterval, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+const CreatorStatsModal: React.FC<CreatorStatsModalProps> = ({ creator, onClose }) => {
+  const [stats, setStats] = useState<CreatorStats | null>(null);
+  const [selectedInterval, setSelectedInterval] = useState<StatsInterval>('daily');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError(null);
+
+    apiService
+      .getCreatorStats(creator.id)
+      .then(setStats)
+      .catch((err) => setError(err.message))
+      .finally(() => setIsLoading(false));
+  }, [creator.id]);
+
+  const buckets = stats ? stats.buckets[selectedInterval] : [];
+  const maxTotal = buckets.reduce((max, bucket) => {
+    const total = BigInt(bucket.totalWei);
+    return total > max ? total : max;
+  }, BigInt(0));
+
+  // Bar height as a percentage of the largest bucket, with a visible minimum for non-empty buckets
+  const barHeight = (totalWei: string): number => {
+    const total = BigInt(totalWei);
+    if (maxTotal === BigInt(0) || total === BigInt(0)) return 0;
+    return Math.max(Number((total * BigInt(10000)) / maxTotal) / 100, 2);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-3">
+            <img
+              src={creator.avatar}
+              alt={creator.name}
+              className="w-12 h-12 rounded-full bg-gray-200"
+            />
+            <div>
+              <h2 className="text-xl font-semibold">{creator.name}</h2>
+              <p className="text-sm text-gray-600">{web3Service.formatAddress(creator.address)}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          <p className="text-gray-600 text-sm mb-6">{creator.description}</p>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="text-center py-8">
+              <RefreshCw className="w-8 h-8 mx-auto text-gray-400 animate-spin mb-2" />
+              <p className="text-gray-600">Loading stats...</p>
+            </div>
+          ) : stats && (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+                <div className="bg-gray-50 rounded-lg p-3">
+                  <div className="flex items-center space-x-1 text-xs text-gray-500 mb-1">
+                    <TrendingUp className="w-3 h-3" />
+                    <span>Total</span>
+                  </div>
+                  <p className="font-semibold">{formatShm(stats.totalTipsWei)} SHM</p>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-3">
+                  <div className="flex items-center space-x-1 text-xs text-gray-500 mb-1">
+                    <Heart className="w-3 h-3" />
+                    <span>Tips</span>
+                  </div>
+                  <p className="font-semibold">{stats.tipCount}</p>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-3">
+                  <div className="flex items-center space-x-1 text-xs text-gray-500 mb-1">
+                    <Users className="w-3 h-3" />
+                    <span>Supporters</span>
+                  </div>
+                  <p className="font-semibold">{stats.uniqueTippers}</p>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-3">
+                  <p className="text-xs text-gray-500 mb-1">Average / Median</p>
+                  <p className="font-semibold text-sm">
+                    {formatShm(stats.averageTipWei)} / {formatShm(stats.medianTipWei)}
+                  </p>
+                </div>
+              </div>
+
+              {/* Chart */}
+              <div className="mb-6">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="font-semibold">Tips over time</h3>
+                  <div className="flex space-x-1">
+                    {(Object.keys(INTERVAL_LABELS) as StatsInterval[]).map((key) => (
+                      <button
+                        key={key}
+                        onClick={() => setSelectedInterval(key)}
+                        className={`px-3 py-1 text-xs rounded-lg border ${
+                          selectedInterval === key
+                            ? 'bg-shardeum-600 text-white border-shardeum-600'
+                            : 'border-gray-300 hover:bg-gray-50'
+                        }`}
+                      >
+                        {INTERVAL_LABELS[key]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex items-end space-x-1 h-40 border-b border-gray-200">
+                  {buckets.map((bucket) => {
+                    const height = barHeight(bucket.totalWei);
+                    return (
+                      <div
+                        key={bucket.period}
+                        className="flex-1 h-full flex items-end"
+                        title={`${bucket.period}: ${formatShm(bucket.totalWei)} SHM (${bucket.count} tips)`}
+                      >
+                        <div
+                          className="w-full bg-shardeum-500 hover:bg-shardeum-600 rounded-t transition-colors"
+                          style={{ height: `${height}%` }}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+                {buckets.length > 0 && (
+                  <div className="flex justify-between text-xs text-gray-500 mt-1">
+                    <span>{buckets[0].period}</span>
+                    <span>{buckets[buckets.length - 1].period}</span>
+                  </div>
+                )}
+              </div>
+
+              {/* Top supporters */}
+              <div>
+                <h3 className="font-semibold mb-3">Top supporters</h3>
+                {stats.topSupporters.length === 0 ? (
+                  <p className="text-sm text-gray-600">No confirmed tips yet</p>
+                ) : (
+                  <div className="space-y-2">
+                    {stats.topSupporters.map((supporter, index) => (
+                      <div
+                        key={supporter.address}
+                        className="flex items-center justify-between p-3 border border-gray-200 rounded-lg"
+                      >
+                        <div className="flex items-center space-x-3">
+                          <span className="text-sm font-medium text-gray-500">#{index + 1}</span>
+                          <code className="text-sm font-mono">
+                            {web3Service.formatAddress(supporter.address)}
+                          </code>
+                        </div>
+                        <div className="text-right">
+                          <p className="font-semibold text-sm">{formatShm(supporter.totalWei)} SHM</p>
+                          <p className="text-xs text-gray-500">{supporter.count} tips</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CreatorStatsModal;
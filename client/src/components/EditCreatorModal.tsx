@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { X, AlertCircle, Plus, Trash2 } from 'lucide-react';
+import { Creator, PayoutSplit } from '../types';
+import apiService from '../services/apiService';
+import web3Service from '../services/web3Service';
+import {
+  MAX_SPLIT_RECIPIENTS,
+  TOTAL_SHARE_BPS,
+  formatSharePercent,
+  parseSharePercent,
+} from '../utils/splits';
+import { MAX_CREATOR_TAGS, formatTags, parseTags } from '../utils/tags';
+
+// A payout split row as typed in the form; the share is a percentage
+interface SplitRow {
+  address: string;
+  percent: string;
+}
+
+interface EditCreatorModalProps {
+  creator: Creator;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const EditCreatorModal: React.FC<EditCreatorModalProps> = ({ creator, onClose, onSaved }) => {
+  const [formData, setFormData] = useState({
+    name: creator.name,
+    description: creator.description,
+    avatar: creator.avatar,
+    tags: formatTags(creator.tags),
+  });
+  const [splitRows, setSplitRows] = useState<SplitRow[]>(
+    creator.splits.map((split) => ({ address: split.address, percent: formatSharePercent(split.shareBps) }))
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const totalShareBps = splitRows.reduce((sum, row) => sum + (parseSharePercent(row.percent) ?? 0), 0);
+
+  const updateSplitRow = (index: number, changes: Partial<SplitRow>) => {
+    setSplitRows(splitRows.map((row, rowIndex) => (rowIndex === index ? { ...row, ...changes } : row)));
+  };
+
+  // A new split starts with the creator's own address, which would otherwise get nothing
+  const addSplitRow = () => {
+    const rows = splitRows.length === 0 ? [{ address: creator.address, percent: '' }] : splitRows;
+    setSplitRows([...rows, { address: '', percent: '' }]);
+  };
+
+  // Returns the splits to save, or an error message
+  const buildSplits = (): PayoutSplit[] | string => {
+    if (splitRows.length === 0) return [];
+    if (splitRows.length === 1) return 'A split needs at least two addresses';
+
+    const splits: PayoutSplit[] = [];
+    for (const row of splitRows) {
+      const shareBps = parseSharePercent(row.percent);
+      if (!web3Service.isValidAddress(row.address.trim())) {
+        return `Invalid split address: ${row.address || '(empty)'}`;
+      }
+      if (shareBps === null || shareBps <= 0) {
+        return 'Every split share must be a percentage above 0 with at most two decimals';
+      }
+      splits.push({ address: row.address.trim(), shareBps });
+    }
+
+    if (totalShareBps !== TOTAL_SHARE_BPS) return 'Split shares must add up to 100%';
+    return splits;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const tags = parseTags(formData.tags);
+    if (typeof tags === 'string') {
+      setError(tags);
+      return;
+    }
+
+    const splits = buildSplits();
+    if (typeof splits === 'string') {
+      setError(splits);
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await apiService.updateCreator(creator.id, { ...formData, tags, splits });
+      onSaved();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold">Edit Profile</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Name
+            </label>
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              className="input-field"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Description
+            </label>
+            <textarea
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              className="input-field resize-none"
+              rows={3}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Avatar URL
+            </label>
+            <input
+              type="url"
+              value={formData.avatar}
+              onChange={(e) => setFormData({ ...formData, avatar: e.target.value })}
+              className="input-field"
+              placeholder="https://..."
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Tags
+            </label>
+            <input
+              type="text"
+              value={formData.tags}
+              onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
+              className="input-field"
+              placeholder="music, podcasts"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Up to {MAX_CREATOR_TAGS}, separated by commas. Supporters can find you by tag.
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Payout Split
+            </label>
+            <p className="text-xs text-gray-500 mb-2">
+              Share every tip between collaborators. Leave empty to receive tips at your own address.
+            </p>
+            {splitRows.map((row, index) => (
+              <div key={index} className="flex items-center space-x-2 mb-2">
+                <input
+                  type="text"
+                  value={row.address}
+                  onChange={(e) => updateSplitRow(index, { address: e.target.value })}
+                  className="input-field flex-1 font-mono text-xs"
+                  placeholder="0x..."
+                />
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={row.percent}
+                  onChange={(e) => updateSplitRow(index, { percent: e.target.value })}
+                  className="input-field w-20"
+                  placeholder="%"
+                />
+                <button
+                  type="button"
+                  onClick={() => setSplitRows(splitRows.filter((_, rowIndex) => rowIndex !== index))}
+                  className="p-2 text-gray-500 hover:text-red-600"
+                  title="Remove"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <button
+                type="button"
+                onClick={addSplitRow}
+                disabled={splitRows.length >= MAX_SPLIT_RECIPIENTS}
+                className="flex items-center space-x-1 text-sm text-shardeum-600 hover:text-shardeum-700 disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add recipient</span>
+              </button>
+              {splitRows.length > 0 && (
+                <span className={`text-xs ${totalShareBps === TOTAL_SHARE_BPS ? 'text-gray-500' : 'text-red-600'}`}>
+                  Total {formatSharePercent(totalShareBps)}%
+                </span>
+              )}
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+              <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="btn-secondary flex-1"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="btn-primary flex-1 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EditCreatorModal;
@@ -1,6 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { AlertTriangle, CheckCircle, RefreshCw } from 'lucide-react';
 import web3Service from '../services/web3Service';
+import { getNetworkByChainId } from '../config/networks';
+
+// Well-known non-Shardeum chains, for a friendlier "wrong network" message
+const OTHER_NETWORKS: Record<string, string> = {
+  '0x1': 'Ethereum Mainnet',
+  '0x5': 'Goerli Testnet',
+  '0x89': 'Polygon Mainnet',
+};
+
+const expectedNetwork = web3Service.getNetwork();
 
 const NetworkStatus: React.FC = () => {
   const [networkInfo, setNetworkInfo] = useState<{
@@ -13,23 +23,17 @@ const NetworkStatus: React.FC = () => {
     networkName: 'Unknown',
   });
   const [isLoading, setIsLoading] = useState(false);
-
-  const EXPECTED_CHAIN_ID = '0x1f93'; // 8083 in hex
-  const EXPECTED_NETWORK = 'Shardeum Testnet';
+  const [hasWallet, setHasWallet] = useState(web3Service.hasWallet());
 
   const checkNetwork = async () => {
     setIsLoading(true);
     try {
-      if (window.ethereum) {
-        const chainId = await window.ethereum.request({ method: 'eth_chainId' });
-        const isCorrect = chainId === EXPECTED_CHAIN_ID;
-        
-        let networkName = 'Unknown Network';
-        if (chainId === '0x1') networkName = 'Ethereum Mainnet';
-        else if (chainId === '0x5') networkName = 'Goerli Testnet';
-        else if (chainId === '0x89') networkName = 'Polygon Mainnet';
-        else if (chainId === EXPECTED_CHAIN_ID) networkName = EXPECTED_NETWORK;
-        else networkName = `Unknown (${chainId})`;
+      if (web3Service.hasWallet()) {
+        const chainId = await web3Service.getWalletChainId();
+        const isCorrect = chainId === expectedNetwork.chainIdHex;
+
+        const networkName =
+          getNetworkByChainId(chainId)?.name || OTHER_NETWORKS[chainId] || `Unknown (${chainId})`;
 
         setNetworkInfo({
           chainId,
@@ -47,13 +51,17 @@ const NetworkStatus: React.FC = () => {
   useEffect(() => {
     checkNetwork();
 
-    // Listen for network changes
-    if (window.ethereum) {
-      window.ethereum.on('chainChanged', checkNetwork);
-      return () => {
-        window.ethereum.removeListener('chainChanged', checkNetwork);
-      };
-    }
+    // Listen for network changes, and re-check when another wallet is picked
+    const removeChainListener = web3Service.onChainChanged(checkNetwork);
+    const removeWalletListener = web3Service.onWalletChanged(() => {
+      setHasWallet(web3Service.hasWallet());
+      checkNetwork();
+    });
+
+    return () => {
+      removeChainListener();
+      removeWalletListener();
+    };
   }, []);
 
   const handleSwitchNetwork = async () => {
@@ -65,7 +73,7 @@ const NetworkStatus: React.FC = () => {
     }
   };
 
-  if (!window.ethereum) {
+  if (!hasWallet) {
     return null;
   }
 
@@ -112,7 +120,7 @@ const NetworkStatus: React.FC = () => {
                 onClick={handleSwitchNetwork}
                 className="px-3 py-1 text-xs bg-yellow-600 hover:bg-yellow-700 text-white rounded transition-colors"
               >
-                Switch to Testnet
+                Switch to {expectedNetwork.name}
               </button>
             )}
           </div>
@@ -120,7 +128,7 @@ const NetworkStatus: React.FC = () => {
 
         {!networkInfo.isCorrect && (
           <div className="mt-2 text-xs text-yellow-700">
-            Expected: {EXPECTED_NETWORK} (Chain ID: {EXPECTED_CHAIN_ID})
+            Expected: {expectedNetwork.name} (Chain ID: {expectedNetwork.chainId})
           </div>
         )}
       </div>
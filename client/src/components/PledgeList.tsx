@@ -0,0 +1,240 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Repeat, RefreshCw, Pause, Play, PlusCircle, XCircle, Loader } from 'lucide-react';
+import { Creator, Pledge, PledgeStatus, WalletState } from '../types';
+import apiService from '../services/apiService';
+import web3Service from '../services/web3Service';
+import { formatShm, tryParseShm } from '../utils/amounts';
+
+interface PledgeListProps {
+  walletState: WalletState;
+  creators: Creator[];
+  // Bumped by the parent when a pledge is created elsewhere
+  refreshKey?: number;
+  onPledgeChanged?: () => void;
+}
+
+const REQUIRED_CONFIRMATIONS = parseInt(process.env.REACT_APP_REQUIRED_CONFIRMATIONS || '1', 10);
+
+const STATUS_STYLES: Record<PledgeStatus, string> = {
+  active: 'text-green-600 bg-green-50',
+  paused: 'text-gray-600 bg-gray-100',
+  lapsed: 'text-yellow-700 bg-yellow-50',
+  cancelled: 'text-red-600 bg-red-50',
+};
+
+const PledgeList: React.FC<PledgeListProps> = ({ walletState, creators, refreshKey = 0, onPledgeChanged }) => {
+  const [pledges, setPledges] = useState<Pledge[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Pledge waiting on a transaction
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [topUpId, setTopUpId] = useState<string | null>(null);
+  const [topUpAmount, setTopUpAmount] = useState('');
+
+  const fetchPledges = useCallback(async () => {
+    if (!walletState.address) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setPledges(await apiService.getPledgesBySupporter(walletState.address));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [walletState.address]);
+
+  useEffect(() => {
+    if (walletState.isConnected && walletState.address) {
+      fetchPledges();
+    }
+  }, [walletState.address, walletState.isConnected, refreshKey, fetchPledges]);
+
+  const creatorName = (pledge: Pledge): string =>
+    creators.find((creator) => creator.id === pledge.creatorId)?.name ||
+    web3Service.formatAddress(pledge.creatorAddress);
+
+  // Send the contract call, wait for it to be mined, then have the server re-read the pledge
+  const runAction = async (pledge: Pledge, send: () => Promise<string>) => {
+    setBusyId(pledge.id);
+    setError(null);
+
+    try {
+      const hash = await send();
+      const receipt = await web3Service.waitForConfirmation(hash, { confirmations: REQUIRED_CONFIRMATIONS });
+      if (receipt.status === '0x0') {
+        throw new Error('The transaction was mined but reverted');
+      }
+
+      const updated = await apiService.syncPledge(pledge.id);
+      setPledges((current) => current.map((entry) => (entry.id === updated.id ? updated : entry)));
+      onPledgeChanged?.();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleTopUp = (pledge: Pledge) => {
+    const amountWei = tryParseShm(topUpAmount);
+    if (amountWei === null || amountWei <= BigInt(0)) {
+      setError('Please enter a valid top-up amount');
+      return;
+    }
+
+    setTopUpId(null);
+    setTopUpAmount('');
+    runAction(pledge, () => web3Service.fundPledge(pledge.chainPledgeId, topUpAmount));
+  };
+
+  const handleCancel = (pledge: Pledge) => {
+    if (!window.confirm(`Cancel your pledge to ${creatorName(pledge)}? The remaining balance is refunded to you.`)) {
+      return;
+    }
+    runAction(pledge, () => web3Service.cancelPledge(pledge.chainPledgeId));
+  };
+
+  if (!walletState.isConnected || !web3Service.hasPledgeVault()) {
+    return null;
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold">My Pledges</h3>
+        <button
+          onClick={() => fetchPledges()}
+          disabled={isLoading}
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+          title="Refresh"
+        >
+          <RefreshCw className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-8">
+          <RefreshCw className="w-8 h-8 mx-auto text-gray-400 animate-spin mb-2" />
+          <p className="text-gray-600">Loading pledges...</p>
+        </div>
+      ) : pledges.length === 0 ? (
+        <div className="text-center py-8">
+          <Repeat className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+          <p className="text-gray-600">No pledges yet</p>
+          <p className="text-sm text-gray-500 mt-1">
+            Pledge a monthly amount from a creator's card
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {pledges.map((pledge) => {
+            const isOpen = pledge.status !== 'cancelled';
+            const monthsLeft = BigInt(pledge.balanceWei) / BigInt(pledge.amountPerPeriodWei);
+            const isBusy = busyId === pledge.id;
+
+            return (
+              <div key={pledge.id} className="p-4 border border-gray-200 rounded-lg">
+                <div className="flex items-center justify-between mb-1">
+                  <p className="font-medium">{creatorName(pledge)}</p>
+                  <span className={`px-2 py-1 text-xs rounded-full ${STATUS_STYLES[pledge.status]}`}>
+                    {pledge.status}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-700">{formatShm(pledge.amountPerPeriodWei)} SHM / month</p>
+                {isOpen && (
+                  <p className="text-xs text-gray-500">
+                    Balance {formatShm(pledge.balanceWei)} SHM ({monthsLeft.toString()} month
+                    {monthsLeft === BigInt(1) ? '' : 's'} left)
+                    {pledge.status !== 'paused' && ` · Next payment ${new Date(pledge.nextDueAt).toLocaleDateString()}`}
+                  </p>
+                )}
+                {pledge.status === 'lapsed' && (
+                  <p className="text-xs text-yellow-700 mt-1">
+                    The balance does not cover this month. Top up to keep supporting {creatorName(pledge)}.
+                  </p>
+                )}
+
+                {isOpen && topUpId === pledge.id && (
+                  <div className="flex space-x-2 mt-3">
+                    <input
+                      type="number"
+                      value={topUpAmount}
+                      onChange={(e) => setTopUpAmount(e.target.value)}
+                      placeholder="Amount (SHM)"
+                      min="0"
+                      step="0.001"
+                      className="input-field flex-1"
+                    />
+                    <button onClick={() => handleTopUp(pledge)} className="btn-primary">
+                      Add
+                    </button>
+                  </div>
+                )}
+
+                {isOpen && (
+                  <div className="flex items-center space-x-3 mt-3 text-sm">
+                    {isBusy ? (
+                      <span className="flex items-center space-x-1 text-gray-600">
+                        <Loader className="w-4 h-4 animate-spin" />
+                        <span>Waiting for confirmation...</span>
+                      </span>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => setTopUpId(topUpId === pledge.id ? null : pledge.id)}
+                          disabled={busyId !== null}
+                          className="flex items-center space-x-1 text-shardeum-600 hover:text-shardeum-700 disabled:opacity-50"
+                        >
+                          <PlusCircle className="w-4 h-4" />
+                          <span>Top up</span>
+                        </button>
+                        {pledge.status === 'paused' ? (
+                          <button
+                            onClick={() => runAction(pledge, () => web3Service.resumePledge(pledge.chainPledgeId))}
+                            disabled={busyId !== null}
+                            className="flex items-center space-x-1 text-gray-700 hover:text-gray-900 disabled:opacity-50"
+                          >
+                            <Play className="w-4 h-4" />
+                            <span>Resume</span>
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => runAction(pledge, () => web3Service.pausePledge(pledge.chainPledgeId))}
+                            disabled={busyId !== null}
+                            className="flex items-center space-x-1 text-gray-700 hover:text-gray-900 disabled:opacity-50"
+                          >
+                            <Pause className="w-4 h-4" />
+                            <span>Pause</span>
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleCancel(pledge)}
+                          disabled={busyId !== null}
+                          className="flex items-center space-x-1 text-red-600 hover:text-red-700 disabled:opacity-50"
+                        >
+                          <XCircle className="w-4 h-4" />
+                          <span>Cancel</span>
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PledgeList;
@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { X, Repeat, Loader, AlertCircle, CheckCircle } from 'lucide-react';
+import { Creator, WalletState } from '../types';
+import web3Service from '../services/web3Service';
+import apiService from '../services/apiService';
+import { formatShm, formatShmExact, parseShm, tryParseShm } from '../utils/amounts';
+
+interface PledgeModalProps {
+  creator: Creator;
+  walletState: WalletState;
+  onClose: () => void;
+  onPledgeCreated: () => void;
+}
+
+const REQUIRED_CONFIRMATIONS = parseInt(process.env.REACT_APP_REQUIRED_CONFIRMATIONS || '1', 10);
+
+// How many months the initial deposit can cover
+const PREFUND_MONTHS = [1, 3, 6, 12];
+
+type PledgePhase = 'idle' | 'sending' | 'pending' | 'created';
+
+const PledgeModal: React.FC<PledgeModalProps> = ({ creator, walletState, onClose, onPledgeCreated }) => {
+  const [amount, setAmount] = useState('');
+  const [months, setMonths] = useState(3);
+  const [phase, setPhase] = useState<PledgePhase>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  const predefinedAmounts = ['0.5', '1', '5', '10'];
+
+  const amountWei = tryParseShm(amount);
+  const hasValidAmount = amountWei !== null && amountWei > BigInt(0);
+  const depositWei = hasValidAmount ? amountWei! * BigInt(months) : null;
+  const balanceWei = parseShm(walletState.balance);
+  const isBusy = phase === 'sending' || phase === 'pending';
+
+  const handleCreatePledge = async () => {
+    setError(null);
+
+    if (!hasValidAmount) {
+      setError('Please enter a valid monthly amount');
+      return;
+    }
+    if (depositWei! > balanceWei) {
+      setError('Insufficient balance for the deposit');
+      return;
+    }
+
+    setPhase('sending');
+
+    try {
+      const hash = await web3Service.createPledge(creator.address, creator.id, amount, formatShmExact(depositWei!));
+      setPhase('pending');
+
+      // The server reads the new pledge from the receipt, so wait for it first
+      const receipt = await web3Service.waitForConfirmation(hash, { confirmations: REQUIRED_CONFIRMATIONS });
+      if (receipt.status === '0x0') {
+        throw new Error('The transaction was mined but reverted. No pledge was created.');
+      }
+
+      await apiService.recordPledge(hash);
+      setPhase('created');
+      onPledgeCreated();
+    } catch (err: any) {
+      setError(err.message);
+      setPhase('idle');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold">Pledge Monthly</h2>
+          <button
+            onClick={onClose}
+            disabled={phase === 'sending'}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          <div className="flex items-center space-x-3 mb-6">
+            <img src={creator.avatar} alt={creator.name} className="w-12 h-12 rounded-full" />
+            <div>
+              <h3 className="font-semibold">{creator.name}</h3>
+              <p className="text-sm text-gray-600">{web3Service.formatAddress(creator.address)}</p>
+            </div>
+          </div>
+
+          {phase === 'created' ? (
+            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-start space-x-2">
+              <CheckCircle className="w-5 h-5 text-green-500 flex-shrink-0" />
+              <p className="text-sm text-green-700">
+                Pledge created! {formatShm(amountWei!)} SHM will go to {creator.name} every month while your
+                deposit lasts. You can top it up, pause or cancel it from My Pledges.
+              </p>
+            </div>
+          ) : (
+            <>
+              {/* Monthly Amount */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Monthly Amount (SHM)
+                </label>
+                <input
+                  type="number"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="0.0"
+                  min="0"
+                  step="0.001"
+                  className="input-field"
+                  disabled={isBusy}
+                />
+                <div className="flex space-x-2 mt-3">
+                  {predefinedAmounts.map((preAmount) => (
+                    <button
+                      key={preAmount}
+                      onClick={() => setAmount(preAmount)}
+                      disabled={isBusy}
+                      className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      {preAmount} SHM
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Prefunded Months */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Prepay for
+                </label>
+                <div className="grid grid-cols-4 gap-2">
+                  {PREFUND_MONTHS.map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setMonths(option)}
+                      disabled={isBusy}
+                      className={`p-2 text-sm border rounded-lg disabled:opacity-50 ${
+                        months === option
+                          ? 'bg-shardeum-50 border-shardeum-500 text-shardeum-700'
+                          : 'border-gray-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      {option} {option === 1 ? 'month' : 'months'}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  The deposit is held by the PledgeVault contract and paid out one month at a time.
+                  The first month is paid right away. Cancelling refunds whatever is left.
+                </p>
+              </div>
+
+              {/* Deposit Preview */}
+              {depositWei !== null && (
+                <div className="mb-6 bg-gray-50 rounded-lg p-3 space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Per month</span>
+                    <span>{formatShmExact(amountWei!)} SHM</span>
+                  </div>
+                  <div className="flex justify-between font-semibold border-t border-gray-200 pt-1">
+                    <span>Deposit now</span>
+                    <span className={depositWei > balanceWei ? 'text-red-600' : ''}>
+                      {formatShmExact(depositWei)} SHM
+                    </span>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+              <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              disabled={phase === 'sending'}
+              className="btn-secondary flex-1 disabled:opacity-50"
+            >
+              {phase === 'created' ? 'Close' : 'Cancel'}
+            </button>
+            {phase !== 'created' && (
+              <button
+                onClick={handleCreatePledge}
+                disabled={isBusy || !hasValidAmount}
+                className="btn-primary flex-1 disabled:opacity-50 flex items-center justify-center space-x-2"
+              >
+                {isBusy ? (
+                  <>
+                    <Loader className="w-4 h-4 animate-spin" />
+                    <span>{phase === 'sending' ? 'Sending...' : 'Confirming...'}</span>
+                  </>
+                ) : (
+                  <>
+                    <Repeat className="w-4 h-4" />
+                    <span>Create Pledge</span>
+                  </>
+                )}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PledgeModal;
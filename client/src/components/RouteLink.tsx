@@ -0,0 +1,26 @@
+import React from 'react';
+import { navigate } from '../services/navigation';
+
+interface RouteLinkProps extends React.AnchorHTMLAttributes<HTMLAnchorElement> {
+  to: string;
+}
+
+// A link to a page of the app. Plain clicks navigate without reloading; modified
+// clicks (new tab, new window) are left to the browser.
+const RouteLink: React.FC<RouteLinkProps> = ({ to, onClick, children, ...props }) => {
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+
+    e.preventDefault();
+    navigate(to);
+  };
+
+  return (
+    <a href={to} onClick={handleClick} {...props}>
+      {children}
+    </a>
+  );
+};
+
+export default RouteLink;
@@ -1,22 +1,41 @@
 import React, { useState } from 'react';
-import { X, Send, Loader, AlertCircle } from 'lucide-react';
-import { Creator, WalletState } from '../types';
+import { X, Send, Loader, AlertCircle, CheckCircle, XCircle, Users } from 'lucide-react';
+import { Creator, FeeTierName, WalletState } from '../types';
 import web3Service from '../services/web3Service';
-import apiService from '../services/apiService';
+import { findToken } from '../config/networks';
+import { REQUIRED_CONFIRMATIONS, useTipSender } from '../hooks/useTipSender';
+import { formatShm, formatShmExact, formatTokenAmount, formatTokenAmountExact } from '../utils/amounts';
+import { formatSharePercent, splitAmount } from '../utils/splits';
+import { MAX_MESSAGE_LENGTH } from '../utils/tipValidation';
+import CampaignProgress from './CampaignProgress';
 
 interface TipModalProps {
   creator: Creator;
   walletState: WalletState;
   onClose: () => void;
-  onTipSent: () => void;
+  // Creator totals update through live events; this is for callers that need more
+  onTipSent?: () => void;
 }
 
+const tipJarAvailable = web3Service.hasTipJar();
+const tippableTokens = web3Service.getNetwork().tokens;
+
+const FEE_TIER_LABELS: Record<FeeTierName, string> = {
+  slow: 'Slow',
+  normal: 'Normal',
+  fast: 'Fast',
+};
+
 const TipModal: React.FC<TipModalProps> = ({ creator, walletState, onClose, onTipSent }) => {
   const [amount, setAmount] = useState('');
+  // ERC-20 token to tip in; null tips native SHM
+  const [tokenAddress, setTokenAddress] = useState<string | null>(null);
   const [message, setMessage] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [txHash, setTxHash] = useState<string | null>(null);
+  const [messageOnChain, setMessageOnChain] = useState(false);
+  const [countTowardCampaign, setCountTowardCampaign] = useState(true);
+  // Send through the TipJar contract when one is deployed; a direct transfer otherwise
+  const [viaTipJar, setViaTipJar] = useState(tipJarAvailable);
+  const [feeTier, setFeeTier] = useState<FeeTierName>('normal');
 
   const predefinedAmounts = ['0.1', '0.5', '1', '5'];
 
@@ -24,62 +43,72 @@ const TipModal: React.FC<TipModalProps> = ({ creator, walletState, onClose, onTi
     setAmount(selectedAmount);
   };
 
-  const validateForm = (): boolean => {
-    if (!amount || parseFloat(amount) <= 0) {
-      setError('Please enter a valid amount');
-      return false;
-    }
+  const token = findToken(tokenAddress ?? undefined);
+  const symbol = token ? token.symbol : 'SHM';
+  const formatAmount = (value: bigint) => (token ? formatTokenAmountExact(value, token.decimals) : formatShmExact(value));
 
-    if (parseFloat(amount) > parseFloat(walletState.balance)) {
-      setError('Insufficient balance');
-      return false;
-    }
+  // Campaign targets are in SHM, so token tips never count toward them
+  const activeCampaign = creator.campaign?.status === 'active' ? creator.campaign : null;
+  const campaignId = activeCampaign && countTowardCampaign && !token ? activeCampaign.id : undefined;
 
-    if (!web3Service.isValidAddress(creator.address)) {
-      setError('Invalid creator address');
-      return false;
-    }
+  const {
+    amountWei,
+    hasValidAmount,
+    balanceWei,
+    tokenBalanceWei,
+    isSplit,
+    sendViaTipJar,
+    needsApproval,
+    feeEstimate,
+    feeError,
+    selectedFee,
+    maxFeeWei,
+    totalWei,
+    phase,
+    error,
+    setError,
+    txHash,
+    progress,
+    sendTip,
+  } = useTipSender({
+    creator,
+    walletState,
+    amount,
+    token,
+    viaTipJar,
+    message,
+    messageOnChain,
+    campaignId,
+    feeTier,
+    onConfirmed: () => onTipSent?.(),
+  });
 
-    return true;
-  };
+  const isLoading = phase === 'approving' || phase === 'sending' || phase === 'pending';
+  const isFormLocked = phase !== 'idle';
+  const isFinished = phase === 'confirmed' || phase === 'failed';
 
-  const handleSendTip = async () => {
-    setError(null);
-    
-    if (!validateForm()) {
+  // Fill in the whole balance minus the worst-case fee of the selected tier, or
+  // the whole token balance
+  const handleMaxClick = () => {
+    if (token) {
+      setError(null);
+      setAmount(formatTokenAmountExact(tokenBalanceWei!, token.decimals));
       return;
     }
+    if (maxFeeWei === null) return;
 
-    setIsLoading(true);
-
-    try {
-      // Send the tip transaction
-      const txHash = await web3Service.sendTip(creator.address, amount);
-      setTxHash(txHash);
-
-      // Record the tip in the backend
-      await apiService.recordTip({
-        fromAddress: walletState.address!,
-        toAddress: creator.address,
-        amount,
-        txHash,
-        creatorId: creator.id,
-      });
-
-      // Success - call the callback
-      onTipSent();
-    } catch (err: any) {
-      setError(err.message);
-    } finally {
-      setIsLoading(false);
+    const maxAmount = balanceWei - maxFeeWei;
+    if (maxAmount <= BigInt(0)) {
+      setError('Your balance does not cover the network fee');
+      return;
     }
+    setError(null);
+    setAmount(formatShmExact(maxAmount));
   };
 
-  const formatBalance = (balance: string): string => {
-    const num = parseFloat(balance);
-    if (num < 0.001) return '< 0.001';
-    return num.toFixed(4);
-  };
+  const receipt = progress?.receipt;
+  const feeWei =
+    receipt && receipt.effectiveGasPrice ? BigInt(receipt.gasUsed) * BigInt(receipt.effectiveGasPrice) : null;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -117,15 +146,52 @@ const TipModal: React.FC<TipModalProps> = ({ creator, walletState, onClose, onTi
             <div className="flex justify-between items-center">
               <span className="text-sm text-gray-600">Your Balance:</span>
               <span className="font-semibold">
-                {formatBalance(walletState.balance)} SHM
+                {token
+                  ? `${formatTokenAmount(tokenBalanceWei!, token.decimals)} ${token.symbol}`
+                  : `${formatShm(balanceWei)} SHM`}
               </span>
             </div>
+            {token && (
+              <div className="flex justify-between items-center mt-1 text-xs text-gray-500">
+                <span>For network fees:</span>
+                <span>{formatShm(balanceWei)} SHM</span>
+              </div>
+            )}
           </div>
 
+          {/* Token Selection */}
+          {tippableTokens.length > 0 && (
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Tip With
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {[null, ...tippableTokens].map((option) => {
+                  const address = option ? option.address : null;
+                  return (
+                    <button
+                      key={address ?? 'native'}
+                      onClick={() => setTokenAddress(address)}
+                      disabled={isFormLocked}
+                      className={`px-3 py-1 text-sm border rounded-lg disabled:opacity-50 ${
+                        tokenAddress === address
+                          ? 'bg-shardeum-50 border-shardeum-500 text-shardeum-700'
+                          : 'border-gray-300 hover:bg-gray-50'
+                      }`}
+                      title={option ? option.name : 'Shardeum'}
+                    >
+                      {option ? option.symbol : 'SHM'}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Amount Input */}
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Tip Amount (SHM)
+              Tip Amount ({symbol})
             </label>
             <input
               type="number"
@@ -135,7 +201,7 @@ const TipModal: React.FC<TipModalProps> = ({ creator, walletState, onClose, onTi
               min="0"
               step="0.001"
               className="input-field"
-              disabled={isLoading}
+              disabled={isFormLocked}
             />
             
             {/* Predefined Amounts */}
@@ -144,16 +210,24 @@ const TipModal: React.FC<TipModalProps> = ({ creator, walletState, onClose, onTi
                 <button
                   key={preAmount}
                   onClick={() => handleAmountSelect(preAmount)}
-                  disabled={isLoading}
+                  disabled={isFormLocked}
                   className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
                 >
-                  {preAmount} SHM
+                  {preAmount} {symbol}
                 </button>
               ))}
+              <button
+                onClick={handleMaxClick}
+                disabled={isFormLocked || (token ? tokenBalanceWei === BigInt(0) : maxFeeWei === null)}
+                className="px-3 py-1 text-sm border border-shardeum-300 text-shardeum-700 rounded-lg hover:bg-shardeum-50 disabled:opacity-50"
+                title={token ? `Send your whole ${token.symbol} balance` : 'Send your whole balance minus the network fee'}
+              >
+                Max
+              </button>
             </div>
 
             {/* MetaMask Warning */}
-            {amount && parseFloat(amount) > 0 && (
+            {!token && hasValidAmount && (
               <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
                 <p className="text-yellow-800 text-sm">
                   ⚠️ <strong>MetaMask Display Issue:</strong> MetaMask may show an incorrect amount in the transaction popup. 
@@ -163,6 +237,30 @@ const TipModal: React.FC<TipModalProps> = ({ creator, walletState, onClose, onTi
             )}
           </div>
 
+          {/* Campaign */}
+          {activeCampaign && (
+            <div className="mb-6">
+              <CampaignProgress
+                campaign={activeCampaign}
+                previewWei={campaignId && hasValidAmount ? amountWei! : undefined}
+                showDescription
+              />
+              {token ? (
+                <p className="mt-2 text-xs text-gray-500">Only SHM tips count toward the campaign.</p>
+              ) : (
+                <label className="mt-2 flex items-center space-x-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={countTowardCampaign}
+                    onChange={(e) => setCountTowardCampaign(e.target.checked)}
+                    disabled={isFormLocked}
+                  />
+                  <span>Count this tip toward the campaign</span>
+                </label>
+              )}
+            </div>
+          )}
+
           {/* Message Input */}
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -173,9 +271,155 @@ const TipModal: React.FC<TipModalProps> = ({ creator, walletState, onClose, onTi
               onChange={(e) => setMessage(e.target.value)}
               placeholder="Leave a message for the creator..."
               rows={3}
+              maxLength={MAX_MESSAGE_LENGTH}
               className="input-field resize-none"
-              disabled={isLoading}
+              disabled={isFormLocked}
             />
+            <div className="flex items-center justify-between mt-2">
+              {sendViaTipJar ? (
+                <span className="text-sm text-gray-600">
+                  Stored on-chain in the {token ? 'TokenTip' : 'Tip'} event
+                </span>
+              ) : token ? (
+                <span className="text-sm text-gray-600">Saved with the tip (token transfers cannot carry it)</span>
+              ) : (
+                <label className="flex items-center space-x-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={messageOnChain}
+                    onChange={(e) => setMessageOnChain(e.target.checked)}
+                    disabled={isFormLocked || !message.trim()}
+                  />
+                  <span>Store message on-chain (uses extra gas)</span>
+                </label>
+              )}
+              <span className="text-xs text-gray-500">
+                {message.length}/{MAX_MESSAGE_LENGTH}
+              </span>
+            </div>
+          </div>
+
+          {/* Payout Split */}
+          {creator.splits.length > 0 && (
+            <div className="mb-6">
+              <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+                <Users className="w-4 h-4" />
+                <span>Payout Split</span>
+              </label>
+              {isSplit ? (
+                <div className="bg-gray-50 rounded-lg p-3 space-y-1 text-sm">
+                  {creator.splits.map((split, index) => (
+                    <div key={split.address} className="flex justify-between">
+                      <span className="text-gray-600">
+                        {web3Service.formatAddress(split.address)} ({formatSharePercent(split.shareBps)}%)
+                      </span>
+                      {hasValidAmount && (
+                        <span>
+                          {formatAmount(splitAmount(amountWei!, creator.splits)[index])} {symbol}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                  <p className="pt-1 text-xs text-gray-500">
+                    The TipJar contract splits your tip between these addresses in one transaction.
+                  </p>
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500">
+                  {creator.name} splits tips between {creator.splits.length} addresses, but no TipJar contract
+                  is deployed on this network. The whole tip goes to {web3Service.formatAddress(creator.address)}.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Delivery Method */}
+          {tipJarAvailable && !isSplit && (
+            <div className="mb-6">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={viaTipJar}
+                  onChange={(e) => setViaTipJar(e.target.checked)}
+                  disabled={isFormLocked}
+                />
+                <span>Send through the TipJar contract</span>
+              </label>
+              <p className="mt-1 text-xs text-gray-500">
+                {viaTipJar
+                  ? 'The contract forwards the tip to the creator and records it on-chain. Uses more gas than a direct transfer.'
+                  : "The tip is sent straight to the creator's address."}
+              </p>
+              {token && viaTipJar && (
+                <p className="mt-1 text-xs text-gray-500">
+                  The TipJar needs your approval to move {token.symbol}, which is a separate transaction.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Network Fee */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Network Fee{needsApproval ? ' (Approval)' : ''}
+            </label>
+            {needsApproval && (
+              <p className="mb-2 text-xs text-gray-500">
+                You will confirm two transactions: an approval letting the TipJar spend {symbol}, then the tip
+                itself. The fee below is for the approval.
+              </p>
+            )}
+            {feeEstimate ? (
+              <div className="grid grid-cols-3 gap-2">
+                {(Object.keys(FEE_TIER_LABELS) as FeeTierName[]).map((tier) => (
+                  <button
+                    key={tier}
+                    onClick={() => setFeeTier(tier)}
+                    disabled={isFormLocked}
+                    className={`p-2 text-sm border rounded-lg disabled:opacity-50 ${
+                      feeTier === tier
+                        ? 'bg-shardeum-50 border-shardeum-500 text-shardeum-700'
+                        : 'border-gray-300 hover:bg-gray-50'
+                    }`}
+                  >
+                    <span className="block font-medium">{FEE_TIER_LABELS[tier]}</span>
+                    <span className="block text-xs text-gray-500">
+                      ~{formatShmExact(feeEstimate.tiers[tier].estimatedFeeWei)} SHM
+                    </span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">
+                {feeError || 'Estimating network fee...'}
+              </p>
+            )}
+
+            {/* Cost Preview */}
+            {selectedFee && hasValidAmount && (
+              <div className="mt-3 bg-gray-50 rounded-lg p-3 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Tip</span>
+                  <span className={token && amountWei! > tokenBalanceWei! ? 'text-red-600' : ''}>
+                    {formatAmount(amountWei!)} {symbol}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">
+                    Network fee{feeEstimate!.type === 'eip1559' ? ' (at most)' : ''}
+                  </span>
+                  <span>{formatShmExact(selectedFee.maxFeeWei)} SHM</span>
+                </div>
+                {totalWei !== null && (
+                  <div className="flex justify-between font-semibold border-t border-gray-200 pt-1">
+                    <span>Total</span>
+                    <span className={totalWei > balanceWei ? 'text-red-600' : ''}>
+                      {formatShmExact(totalWei)} SHM
+                    </span>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Error Display */}
@@ -186,15 +430,52 @@ const TipModal: React.FC<TipModalProps> = ({ creator, walletState, onClose, onTi
             </div>
           )}
 
-          {/* Success Display */}
+          {/* Confirmation Status */}
           {txHash && (
-            <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg">
-              <p className="text-green-600 text-sm mb-2">
-                Tip sent successfully! 🎉
-              </p>
-              <p className="text-xs text-gray-600">
-                Transaction Hash: {web3Service.formatAddress(txHash)}
-              </p>
+            <div
+              className={`mb-4 p-3 border rounded-lg ${
+                phase === 'confirmed'
+                  ? 'bg-green-50 border-green-200'
+                  : phase === 'failed'
+                  ? 'bg-red-50 border-red-200'
+                  : 'bg-yellow-50 border-yellow-200'
+              }`}
+            >
+              <div className="flex items-center space-x-2 mb-2">
+                {phase === 'confirmed' ? (
+                  <CheckCircle className="w-4 h-4 text-green-500" />
+                ) : phase === 'failed' ? (
+                  <XCircle className="w-4 h-4 text-red-500" />
+                ) : (
+                  <Loader className="w-4 h-4 text-yellow-600 animate-spin" />
+                )}
+                <p
+                  className={`text-sm ${
+                    phase === 'confirmed' ? 'text-green-600' : phase === 'failed' ? 'text-red-600' : 'text-yellow-800'
+                  }`}
+                >
+                  {phase === 'confirmed'
+                    ? 'Tip confirmed! 🎉'
+                    : phase === 'failed'
+                    ? receipt?.status === '0x0'
+                      ? 'Tip failed: the transaction reverted'
+                      : 'Could not confirm the tip'
+                    : receipt
+                    ? `Mined, waiting for confirmations (${progress!.confirmations}/${REQUIRED_CONFIRMATIONS})`
+                    : 'Waiting for the transaction to be mined...'}
+                </p>
+              </div>
+              <div className="space-y-1 text-xs text-gray-600">
+                <p>Transaction Hash: {web3Service.formatAddress(txHash)}</p>
+                {receipt && (
+                  <>
+                    <p>Block: {parseInt(receipt.blockNumber, 16)}</p>
+                    <p>Confirmations: {progress!.confirmations}</p>
+                    <p>Gas Used: {parseInt(receipt.gasUsed, 16).toLocaleString()}</p>
+                    {feeWei !== null && <p>Fee Paid: {formatShmExact(feeWei)} SHM</p>}
+                  </>
+                )}
+              </div>
             </div>
           )}
 
@@ -202,28 +483,32 @@ const TipModal: React.FC<TipModalProps> = ({ creator, walletState, onClose, onTi
           <div className="flex space-x-3">
             <button
               onClick={onClose}
-              disabled={isLoading}
+              disabled={phase === 'approving' || phase === 'sending'}
               className="btn-secondary flex-1 disabled:opacity-50"
             >
-              Cancel
-            </button>
-            <button
-              onClick={handleSendTip}
-              disabled={isLoading || !amount || parseFloat(amount) <= 0}
-              className="btn-primary flex-1 disabled:opacity-50 flex items-center justify-center space-x-2"
-            >
-              {isLoading ? (
-                <>
-                  <Loader className="w-4 h-4 animate-spin" />
-                  <span>Sending...</span>
-                </>
-              ) : (
-                <>
-                  <Send className="w-4 h-4" />
-                  <span>Send Tip</span>
-                </>
-              )}
+              {isFinished || phase === 'pending' ? 'Close' : 'Cancel'}
             </button>
+            {!isFinished && (
+              <button
+                onClick={sendTip}
+                disabled={isLoading || !hasValidAmount}
+                className="btn-primary flex-1 disabled:opacity-50 flex items-center justify-center space-x-2"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader className="w-4 h-4 animate-spin" />
+                    <span>
+                      {phase === 'approving' ? 'Approving...' : phase === 'sending' ? 'Sending...' : 'Confirming...'}
+                    </span>
+                  </>
+                ) : (
+                  <>
+                    <Send className="w-4 h-4" />
+                    <span>{needsApproval ? 'Approve & Send Tip' : 'Send Tip'}</span>
+                  </>
+                )}
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,312 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Send, Loader, CheckCircle, XCircle, UserX, ExternalLink } from 'lucide-react';
+import { Creator, WalletState } from '../types';
+import web3Service from '../services/web3Service';
+import apiService, { isNotFound } from '../services/apiService';
+import { postToHost } from '../services/embedHost';
+import { useWalletConnection } from '../hooks/useWalletConnection';
+import { REQUIRED_CONFIRMATIONS, useTipSender } from '../hooks/useTipSender';
+import { creatorUrl } from '../services/navigation';
+import { getExplorerTxUrl } from '../config/networks';
+import { formatShm, formatShmExact } from '../utils/amounts';
+import { MAX_MESSAGE_LENGTH } from '../utils/tipValidation';
+import CampaignProgress from './CampaignProgress';
+import WalletPicker from './WalletPicker';
+
+interface TipWidgetProps {
+  creatorId: string;
+}
+
+interface TipFormProps {
+  creator: Creator;
+  walletState: WalletState;
+  onClose: () => void;
+  onConfirmed: () => void;
+}
+
+const PRESET_AMOUNTS = ['0.1', '0.5', '1', '5'];
+
+// The widget's SHM tip form, at the normal fee tier. Tells the host page about
+// the tip with tipSent, tipConfirmed and tipFailed messages.
+const TipForm: React.FC<TipFormProps> = ({ creator, walletState, onClose, onConfirmed }) => {
+  const [amount, setAmount] = useState('');
+  const [message, setMessage] = useState('');
+  const activeCampaign = creator.campaign?.status === 'active' ? creator.campaign : null;
+
+  const tip = useTipSender({
+    creator,
+    walletState,
+    amount,
+    viaTipJar: true,
+    message,
+    messageOnChain: false,
+    campaignId: activeCampaign?.id,
+    feeTier: 'normal',
+    onSent: (txHash, amountWei) =>
+      postToHost({ type: 'tipSent', creatorId: creator.id, txHash, amountWei: amountWei.toString() }),
+    onConfirmed: (txHash, amountWei) => {
+      postToHost({ type: 'tipConfirmed', creatorId: creator.id, txHash, amountWei: amountWei.toString() });
+      onConfirmed();
+    },
+    onFailed: (txHash, error) => postToHost({ type: 'tipFailed', creatorId: creator.id, txHash, error }),
+  });
+  const { phase, progress, txHash } = tip;
+  const isBusy = phase === 'sending' || phase === 'pending';
+
+  const tipAgain = () => {
+    setAmount('');
+    setMessage('');
+    tip.reset();
+  };
+
+  const explorerUrl = txHash ? getExplorerTxUrl(txHash, web3Service.getNetwork()) : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between text-xs text-gray-600">
+        <span>{web3Service.formatAddress(walletState.address!)}</span>
+        <span>{formatShm(tip.balanceWei)} SHM</span>
+      </div>
+
+      {activeCampaign && (
+        <CampaignProgress campaign={activeCampaign} previewWei={tip.hasValidAmount ? tip.amountWei! : undefined} />
+      )}
+
+      <div className="grid grid-cols-4 gap-2">
+        {PRESET_AMOUNTS.map((preset) => (
+          <button
+            key={preset}
+            onClick={() => setAmount(preset)}
+            disabled={phase !== 'idle'}
+            className={`px-2 py-1 text-sm border rounded-lg disabled:opacity-50 ${
+              amount === preset
+                ? 'bg-shardeum-50 border-shardeum-500 text-shardeum-700'
+                : 'border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {preset}
+          </button>
+        ))}
+      </div>
+
+      <input
+        type="number"
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        placeholder="Amount in SHM"
+        min="0"
+        step="0.001"
+        className="input-field"
+        disabled={phase !== 'idle'}
+      />
+
+      <textarea
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        placeholder="Say something nice (optional)"
+        className="input-field resize-none"
+        rows={2}
+        maxLength={MAX_MESSAGE_LENGTH}
+        disabled={phase !== 'idle'}
+      />
+
+      {phase === 'idle' && (
+        <p className="text-xs text-gray-500">
+          {tip.selectedFee
+            ? `Network fee ~${formatShmExact(tip.selectedFee.estimatedFeeWei)} SHM`
+            : tip.feeError || 'Estimating network fee...'}
+        </p>
+      )}
+
+      {txHash && (
+        <div className="flex items-center space-x-2 text-sm">
+          {phase === 'confirmed' ? (
+            <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />
+          ) : phase === 'failed' ? (
+            <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          ) : (
+            <Loader className="w-4 h-4 text-yellow-600 animate-spin flex-shrink-0" />
+          )}
+          <span
+            className={
+              phase === 'confirmed' ? 'text-green-600' : phase === 'failed' ? 'text-red-600' : 'text-yellow-800'
+            }
+          >
+            {phase === 'confirmed'
+              ? 'Tip confirmed. Thank you!'
+              : phase === 'failed'
+              ? 'The tip did not go through'
+              : progress?.receipt
+              ? `Confirming (${progress.confirmations}/${REQUIRED_CONFIRMATIONS})`
+              : 'Waiting for the transaction...'}
+          </span>
+          {explorerUrl && (
+            <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="text-gray-500 hover:text-gray-700">
+              <ExternalLink className="w-4 h-4" />
+            </a>
+          )}
+        </div>
+      )}
+
+      {tip.error && <p className="text-sm text-red-600 break-words">{tip.error}</p>}
+
+      <div className="flex space-x-2">
+        <button onClick={onClose} disabled={phase === 'sending'} className="btn-secondary flex-1 disabled:opacity-50">
+          {phase === 'idle' ? 'Cancel' : 'Close'}
+        </button>
+        {phase === 'confirmed' || phase === 'failed' ? (
+          <button onClick={tipAgain} className="btn-primary flex-1">
+            Tip Again
+          </button>
+        ) : (
+          <button
+            onClick={tip.sendTip}
+            disabled={isBusy || !tip.hasValidAmount}
+            className="btn-primary flex-1 disabled:opacity-50 flex items-center justify-center space-x-2"
+          >
+            {isBusy ? <Loader className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            <span>{phase === 'sending' ? 'Sending...' : phase === 'pending' ? 'Confirming...' : 'Send Tip'}</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// The tip button creators embed on their own sites (/embed/:id). A compact
+// TipModal: SHM only, at the normal fee tier. Tips go through the TipJar when
+// one is deployed, split on chain for creators with payout splits.
+const TipWidget: React.FC<TipWidgetProps> = ({ creatorId }) => {
+  const [creator, setCreator] = useState<Creator | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const wallet = useWalletConnection();
+  const { walletState } = wallet;
+  const [isOpen, setIsOpen] = useState(false);
+
+  const fetchCreator = useCallback(async (silent = false) => {
+    if (!silent) setIsLoading(true);
+
+    try {
+      const creatorData = await apiService.getCreatorById(creatorId);
+      setCreator(creatorData);
+      setLoadError(null);
+      if (!silent) postToHost({ type: 'ready', creatorId });
+    } catch (err: any) {
+      if (!silent) setLoadError(isNotFound(err) ? 'Creator not found' : err.message);
+    } finally {
+      if (!silent) setIsLoading(false);
+    }
+  }, [creatorId]);
+
+  useEffect(() => {
+    fetchCreator();
+  }, [fetchCreator]);
+
+  // Show the new campaign total and balance
+  const handleConfirmed = () => {
+    fetchCreator(true);
+    wallet.refreshBalances(walletState.address!);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="card p-4 text-center">
+        <Loader className="w-6 h-6 mx-auto text-gray-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!creator) {
+    return (
+      <div className="card p-4 flex items-center space-x-3 text-gray-600">
+        <UserX className="w-6 h-6 text-gray-400 flex-shrink-0" />
+        <p className="text-sm">{loadError || 'Creator not found'}</p>
+      </div>
+    );
+  }
+
+  const renderWalletPicker = () => (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-600">Connect a wallet to send a tip</p>
+      {wallet.walletCount > 0 ? (
+        <WalletPicker
+          wallets={wallet.wallets}
+          burnerWalletEnabled={wallet.burnerWalletEnabled}
+          isConnecting={wallet.isConnecting}
+          onSelect={wallet.connectWallet}
+          compact
+        />
+      ) : (
+        <p className="text-sm text-gray-600">
+          You need a browser wallet such as{' '}
+          <a
+            href="https://metamask.io/download/"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 hover:text-blue-800 underline"
+          >
+            MetaMask
+          </a>{' '}
+          to send a tip.
+        </p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="card p-4">
+      <div className="flex items-center space-x-3 mb-3">
+        <img
+          src={creator.avatar}
+          alt={creator.name}
+          className="w-10 h-10 rounded-full bg-gray-200 flex-shrink-0"
+          onError={(e) => {
+            const target = e.target as HTMLImageElement;
+            target.src = `https://api.dicebear.com/7.x/avataaars/svg?seed=${creator.name}`;
+          }}
+        />
+        <div className="min-w-0">
+          <h3 className="font-semibold text-gray-900 truncate">{creator.name}</h3>
+          <p className="text-xs text-gray-500">Accepts tips in SHM</p>
+        </div>
+      </div>
+
+      {!isOpen ? (
+        <button onClick={() => setIsOpen(true)} className="btn-primary w-full flex items-center justify-center space-x-2">
+          <Send className="w-4 h-4" />
+          <span>Send a Tip</span>
+        </button>
+      ) : !walletState.isConnected ? (
+        renderWalletPicker()
+      ) : !wallet.isCorrectNetwork ? (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">Your wallet is on another network.</p>
+          <button onClick={wallet.switchToShardeum} className="btn-primary w-full">
+            Switch to {web3Service.getNetwork().name}
+          </button>
+        </div>
+      ) : (
+        <TipForm
+          creator={creator}
+          walletState={walletState}
+          onClose={() => setIsOpen(false)}
+          onConfirmed={handleConfirmed}
+        />
+      )}
+
+      {wallet.error && <p className="mt-3 text-sm text-red-600 break-words">{wallet.error}</p>}
+
+      <a
+        href={creatorUrl(creator.id)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="block mt-3 text-center text-xs text-gray-400 hover:text-gray-600"
+      >
+        SHM Tip Jar
+      </a>
+    </div>
+  );
+};
+
+export default TipWidget;
@@ -1,50 +1,208 @@
-import React, { useState, useEffect } from 'react';
-import { Clock, ArrowUpRight, ArrowDownLeft, ExternalLink, RefreshCw } from 'lucide-react';
-import { Transaction, WalletState } from '../types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  Clock,
+  ArrowUpRight,
+  ArrowDownLeft,
+  ExternalLink,
+  RefreshCw,
+  Loader,
+  CheckCircle,
+  XCircle,
+  SlidersHorizontal,
+  Download,
+} from 'lucide-react';
+import {
+  Creator,
+  HistoryExportFormat,
+  Transaction,
+  TransactionDirection,
+  TransactionFilters,
+  WalletState,
+} from '../types';
 import apiService from '../services/apiService';
+import { watchLiveEvents } from '../services/liveUpdates';
 import web3Service from '../services/web3Service';
+import { getExplorerTxUrl } from '../config/networks';
+import { tryParseShm } from '../utils/amounts';
+import { formatSharePercent } from '../utils/splits';
+import { formatTransactionAmount, matchesFilters } from '../utils/transactions';
 
 interface TransactionHistoryProps {
   walletState: WalletState;
+  // Offered in the creator filter
+  creators?: Creator[];
 }
 
-const TransactionHistory: React.FC<TransactionHistoryProps> = ({ walletState }) => {
+const PAGE_SIZE = 20;
+
+const EXPORT_FORMATS: { format: HistoryExportFormat; label: string }[] = [
+  { format: 'csv', label: 'Download CSV' },
+  { format: 'json', label: 'Download JSON' },
+];
+
+// The filter form as typed; dates are YYYY-MM-DD and the minimum is in SHM
+interface FilterForm {
+  direction: '' | TransactionDirection;
+  status: '' | Transaction['status'];
+  creatorId: string;
+  fromDate: string;
+  toDate: string;
+  minAmount: string;
+}
+
+const EMPTY_FILTER_FORM: FilterForm = {
+  direction: '',
+  status: '',
+  creatorId: '',
+  fromDate: '',
+  toDate: '',
+  minAmount: '',
+};
+
+// Dates cover whole days in the user's time zone. An unparsable minimum is ignored.
+const toFilters = (form: FilterForm): TransactionFilters => {
+  const minAmountWei = form.minAmount ? tryParseShm(form.minAmount) : null;
+  return {
+    direction: form.direction || undefined,
+    status: form.status || undefined,
+    creatorId: form.creatorId || undefined,
+    from: form.fromDate ? new Date(`${form.fromDate}T00:00:00`).toISOString() : undefined,
+    to: form.toDate ? new Date(`${form.toDate}T23:59:59.999`).toISOString() : undefined,
+    minAmountWei: minAmountWei !== null && minAmountWei > BigInt(0) ? minAmountWei.toString() : undefined,
+  };
+};
+
+const TransactionHistory: React.FC<TransactionHistoryProps> = ({ walletState, creators = [] }) => {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [filterForm, setFilterForm] = useState<FilterForm>(EMPTY_FILTER_FORM);
 
-  useEffect(() => {
-    if (walletState.isConnected && walletState.address) {
-      fetchTransactions();
-    }
-  }, [walletState.address, walletState.isConnected]);
+  // Keyed by value, so that edits that leave the filters as they were (such as an
+  // unfinished minimum) do not reload the list
+  const filterKey = JSON.stringify(toFilters(filterForm));
+  const filters = useMemo<TransactionFilters>(() => JSON.parse(filterKey), [filterKey]);
+  const hasFilters = Object.values(filters).some((value) => value !== undefined);
 
-  const fetchTransactions = async () => {
+  // Responses to superseded requests are dropped
+  const requestIdRef = useRef(0);
+  const listRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Load the first page for the current filters
+  const fetchTransactions = useCallback(async (silent = false) => {
     if (!walletState.address) return;
 
-    setIsLoading(true);
+    const requestId = ++requestIdRef.current;
+    if (!silent) setIsLoading(true);
     setError(null);
 
     try {
-      const history = await apiService.getTransactionHistory(walletState.address);
-      setTransactions(history);
+      const page = await apiService.getTransactionHistory(walletState.address, {
+        ...filters,
+        limit: PAGE_SIZE,
+      });
+      if (requestId !== requestIdRef.current) return;
+      setTransactions(page.items);
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      if (requestId === requestIdRef.current) setError(err.message);
+    } finally {
+      if (!silent && requestId === requestIdRef.current) setIsLoading(false);
+    }
+  }, [walletState.address, filters]);
+
+  const loadMore = useCallback(async () => {
+    if (!walletState.address || !nextCursor || isLoadingMore) return;
+
+    const requestId = requestIdRef.current;
+    setIsLoadingMore(true);
+
+    try {
+      const page = await apiService.getTransactionHistory(walletState.address, {
+        ...filters,
+        cursor: nextCursor,
+        limit: PAGE_SIZE,
+      });
+      if (requestId !== requestIdRef.current) return;
+      // Live events may already have added some of these rows
+      setTransactions((current) => [
+        ...current,
+        ...page.items.filter((item) => !current.some((tx) => tx.id === item.id)),
+      ]);
+      setNextCursor(page.nextCursor);
     } catch (err: any) {
-      setError(err.message);
+      if (requestId === requestIdRef.current) setError(err.message);
     } finally {
-      setIsLoading(false);
+      setIsLoadingMore(false);
+    }
+  }, [walletState.address, filters, nextCursor, isLoadingMore]);
+
+  // Live events need the filters and loader of the current render, without
+  // resubscribing whenever the filters change
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
+  const fetchTransactionsRef = useRef(fetchTransactions);
+  fetchTransactionsRef.current = fetchTransactions;
+
+  useEffect(() => {
+    if (walletState.isConnected && walletState.address) {
+      fetchTransactions();
     }
+  }, [walletState.address, walletState.isConnected, fetchTransactions]);
+
+  // New tips and status changes are pushed by the server. Rows are replaced in
+  // place, or dropped once they no longer match the filters; after missed events
+  // the first page is reloaded.
+  useEffect(() => {
+    const address = walletState.address;
+    if (!walletState.isConnected || !address) return;
+
+    return watchLiveEvents((event) => {
+      if (event.type === 'reset') {
+        fetchTransactionsRef.current(true);
+      } else if (event.type === 'transaction') {
+        const updated = event.transaction;
+        const matches = matchesFilters(updated, address, filtersRef.current);
+        setTransactions((current) => {
+          if (!current.some((tx) => tx.id === updated.id)) {
+            return matches ? [updated, ...current] : current;
+          }
+          return matches
+            ? current.map((tx) => (tx.id === updated.id ? updated : tx))
+            : current.filter((tx) => tx.id !== updated.id);
+        });
+      }
+    });
+  }, [walletState.address, walletState.isConnected]);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) loadMore();
+      },
+      { root: listRef.current, rootMargin: '100px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore]);
+
+  const updateFilterForm = (changes: Partial<FilterForm>) => {
+    setFilterForm((current) => ({ ...current, ...changes }));
   };
 
   const formatDate = (timestamp: string): string => {
     return new Date(timestamp).toLocaleString();
   };
 
-  const formatAmount = (amount: string): string => {
-    const num = parseFloat(amount);
-    if (num < 0.001) return '< 0.001';
-    return num.toFixed(4);
-  };
-
   const getTransactionType = (tx: Transaction): 'sent' | 'received' => {
     return tx.fromAddress.toLowerCase() === walletState.address?.toLowerCase() ? 'sent' : 'received';
   };
@@ -62,8 +220,24 @@ const TransactionHistory: React.FC<TransactionHistoryProps> = ({ walletState })
     }
   };
 
+  const getStatusIcon = (status: string) => {
+    switch (status) {
+      case 'confirmed':
+        return <CheckCircle className="w-3 h-3" />;
+      case 'pending':
+        return <Loader className="w-3 h-3 animate-spin" />;
+      case 'failed':
+        return <XCircle className="w-3 h-3" />;
+      default:
+        return null;
+    }
+  };
+
   const openInExplorer = (txHash: string) => {
-    window.open(`https://explorer-testnet.shardeum.org/transaction/${txHash}`, '_blank');
+    const url = getExplorerTxUrl(txHash, web3Service.getNetwork());
+    if (url) {
+      window.open(url, '_blank');
+    }
   };
 
   if (!walletState.isConnected) {
@@ -80,16 +254,140 @@ const TransactionHistory: React.FC<TransactionHistoryProps> = ({ walletState })
     <div className="card">
       <div className="flex items-center justify-between mb-6">
         <h3 className="text-lg font-semibold">Transaction History</h3>
-        <button
-          onClick={fetchTransactions}
-          disabled={isLoading}
-          className="p-2 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
-          title="Refresh"
-        >
-          <RefreshCw className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} />
-        </button>
+        <div className="relative flex items-center space-x-1">
+          <button
+            onClick={() => setShowExport(!showExport)}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Download history"
+          >
+            <Download className="w-5 h-5" />
+          </button>
+          {showExport && walletState.address && (
+            <div className="absolute right-0 top-full mt-1 w-56 p-2 bg-white border border-gray-200 rounded-lg shadow-lg z-10">
+              {EXPORT_FORMATS.map(({ format, label }) => (
+                <a
+                  key={format}
+                  href={apiService.getHistoryExportUrl(walletState.address!, format, filters)}
+                  download
+                  onClick={() => setShowExport(false)}
+                  className="block px-3 py-2 text-sm rounded hover:bg-gray-50"
+                >
+                  {label}
+                </a>
+              ))}
+              <p className="px-3 pt-1 text-xs text-gray-500">
+                {hasFilters ? 'Only tips matching the filters are included.' : 'Includes your whole history.'}
+              </p>
+            </div>
+          )}
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`p-2 rounded-lg transition-colors ${
+              hasFilters ? 'text-shardeum-600 bg-shardeum-50 hover:bg-shardeum-100' : 'hover:bg-gray-100'
+            }`}
+            title="Filters"
+          >
+            <SlidersHorizontal className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => fetchTransactions()}
+            disabled={isLoading}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
       </div>
 
+      {showFilters && (
+        <div className="mb-4 p-4 bg-gray-50 rounded-lg space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Direction</label>
+              <select
+                value={filterForm.direction}
+                onChange={(e) => updateFilterForm({ direction: e.target.value as FilterForm['direction'] })}
+                className="input-field"
+              >
+                <option value="">Sent and received</option>
+                <option value="sent">Sent</option>
+                <option value="received">Received</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Status</label>
+              <select
+                value={filterForm.status}
+                onChange={(e) => updateFilterForm({ status: e.target.value as FilterForm['status'] })}
+                className="input-field"
+              >
+                <option value="">Any status</option>
+                <option value="pending">Pending</option>
+                <option value="confirmed">Confirmed</option>
+                <option value="failed">Failed</option>
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Creator</label>
+              <select
+                value={filterForm.creatorId}
+                onChange={(e) => updateFilterForm({ creatorId: e.target.value })}
+                className="input-field"
+              >
+                <option value="">Any creator</option>
+                {creators.map((creator) => (
+                  <option key={creator.id} value={creator.id}>
+                    {creator.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+              <input
+                type="date"
+                value={filterForm.fromDate}
+                onChange={(e) => updateFilterForm({ fromDate: e.target.value })}
+                className="input-field"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">To</label>
+              <input
+                type="date"
+                value={filterForm.toDate}
+                onChange={(e) => updateFilterForm({ toDate: e.target.value })}
+                className="input-field"
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Minimum amount (SHM)</label>
+              <input
+                type="number"
+                value={filterForm.minAmount}
+                onChange={(e) => updateFilterForm({ minAmount: e.target.value })}
+                className="input-field"
+                placeholder="0"
+                min="0"
+                step="0.001"
+              />
+            </div>
+          </div>
+          {filters.minAmountWei && (
+            <p className="text-xs text-gray-500">Token tips are hidden while a minimum SHM amount is set.</p>
+          )}
+          {hasFilters && (
+            <button
+              onClick={() => setFilterForm(EMPTY_FILTER_FORM)}
+              className="text-sm text-shardeum-600 hover:text-shardeum-700"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+      )}
+
       {error && (
         <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
           <p className="text-red-600 text-sm">{error}</p>
@@ -106,14 +404,18 @@ const TransactionHistory: React.FC<TransactionHistoryProps> = ({ walletState })
           <Clock className="w-12 h-12 mx-auto text-gray-400 mb-4" />
           <p className="text-gray-600">No transactions found</p>
           <p className="text-sm text-gray-500 mt-1">
-            Your tip history will appear here
+            {hasFilters ? 'Try different filters' : 'Your tip history will appear here'}
           </p>
         </div>
       ) : (
-        <div className="space-y-3">
+        <div ref={listRef} className="space-y-3 max-h-[40rem] overflow-y-auto">
           {transactions.map((tx) => {
             const type = getTransactionType(tx);
             const isOutgoing = type === 'sent';
+            // A split recipient only received its own part of the tip
+            const ownSplit = isOutgoing
+              ? undefined
+              : tx.splits?.find((split) => split.address === walletState.address?.toLowerCase());
 
             return (
               <div
@@ -136,38 +438,92 @@ const TransactionHistory: React.FC<TransactionHistoryProps> = ({ walletState })
                       <p className="font-medium">
                         {isOutgoing ? 'Tip Sent' : 'Tip Received'}
                       </p>
-                      <span className={`px-2 py-1 text-xs rounded-full ${getStatusColor(tx.status)}`}>
-                        {tx.status}
+                      <span className={`px-2 py-1 text-xs rounded-full flex items-center space-x-1 ${getStatusColor(tx.status)}`}>
+                        {getStatusIcon(tx.status)}
+                        <span>{tx.status}</span>
                       </span>
+                      {tx.source === 'pledge' || tx.pledgeId ? (
+                        <span className="px-2 py-1 text-xs rounded-full text-shardeum-700 bg-shardeum-50" title="Monthly pledge payment">
+                          pledge
+                        </span>
+                      ) : tx.contractAddress ? (
+                        <span className="px-2 py-1 text-xs rounded-full text-shardeum-700 bg-shardeum-50" title="Sent through the TipJar contract">
+                          TipJar
+                        </span>
+                      ) : tx.source === 'indexer' && (
+                        <span className="px-2 py-1 text-xs rounded-full text-gray-600 bg-gray-100" title="Sent directly from a wallet">
+                          direct
+                        </span>
+                      )}
                     </div>
                     
                     <p className="text-sm text-gray-600">
                       {isOutgoing ? 'To: ' : 'From: '}
                       {web3Service.formatAddress(isOutgoing ? tx.toAddress : tx.fromAddress)}
                     </p>
+
+                    {tx.splits && (
+                      <p className="text-xs text-gray-500">
+                        Split:{' '}
+                        {tx.splits
+                          .map(
+                            (split) =>
+                              `${web3Service.formatAddress(split.address)} ${formatSharePercent(split.shareBps)}% (${formatTransactionAmount(tx, split.amountWei)})`
+                          )
+                          .join(', ')}
+                      </p>
+                    )}
                     
                     <p className="text-xs text-gray-500">
                       {formatDate(tx.timestamp)}
+                      {tx.blockNumber !== undefined && ` · Block ${tx.blockNumber}`}
                     </p>
+
+                    {tx.message && (
+                      <p className="text-sm text-gray-700 italic mt-1 break-words">
+                        "{tx.message}"
+                        {tx.messageOnChain && (
+                          <span className="ml-1 text-xs not-italic text-gray-500">(on-chain)</span>
+                        )}
+                      </p>
+                    )}
+
+                    {tx.status === 'failed' && tx.failureReason && (
+                      <p className="text-xs text-red-600">{tx.failureReason}</p>
+                    )}
                   </div>
                 </div>
 
                 <div className="text-right">
                   <p className={`font-semibold ${isOutgoing ? 'text-red-600' : 'text-green-600'}`}>
-                    {isOutgoing ? '-' : '+'}{formatAmount(tx.amount)} SHM
+                    {isOutgoing ? '-' : '+'}{formatTransactionAmount(tx, ownSplit ? ownSplit.amountWei : tx.amountWei)}
                   </p>
                   
-                  <button
-                    onClick={() => openInExplorer(tx.txHash)}
-                    className="flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-800 mt-1"
-                  >
-                    <span>View</span>
-                    <ExternalLink className="w-3 h-3" />
-                  </button>
+                  {web3Service.getNetwork().explorerUrl && (
+                    <button
+                      onClick={() => openInExplorer(tx.txHash)}
+                      className="flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-800 mt-1"
+                    >
+                      <span>View</span>
+                      <ExternalLink className="w-3 h-3" />
+                    </button>
+                  )}
                 </div>
               </div>
             );
           })}
+
+          {nextCursor && (
+            <div ref={sentinelRef} className="text-center py-2">
+              {isLoadingMore ? (
+                <Loader className="w-5 h-5 mx-auto text-gray-400 animate-spin" />
+              ) : (
+                <button onClick={loadMore} className="text-sm text-shardeum-600 hover:text-shardeum-700">
+                  Load more
+                </button>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
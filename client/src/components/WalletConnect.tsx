@@ -1,130 +1,110 @@
 import React, { useState, useEffect } from 'react';
-import { Wallet, AlertCircle, CheckCircle } from 'lucide-react';
+import { AlertCircle, CheckCircle, LogIn, LogOut, Wallet } from 'lucide-react';
 import web3Service from '../services/web3Service';
-import { WalletState } from '../types';
+import apiService from '../services/apiService';
+import { watchLiveEvents } from '../services/liveUpdates';
+import { BURNER_WALLET_INFO } from '../services/signers';
+import { useWalletConnection } from '../hooks/useWalletConnection';
+import { WalletDetail, WalletState } from '../types';
+import { formatShm, formatTokenAmount, parseShm } from '../utils/amounts';
+import { isTransactionFor } from '../utils/transactions';
+import WalletPicker from './WalletPicker';
 
 interface WalletConnectProps {
   onWalletStateChange: (walletState: WalletState) => void;
+  onSessionChange?: (address: string | null) => void;
 }
 
-const WalletConnect: React.FC<WalletConnectProps> = ({ onWalletStateChange }) => {
-  const [walletState, setWalletState] = useState<WalletState>({
-    isConnected: false,
-    address: null,
-    balance: '0',
-    chainId: null,
-  });
-  const [isConnecting, setIsConnecting] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [isCorrectNetwork, setIsCorrectNetwork] = useState(false);
+const WalletConnect: React.FC<WalletConnectProps> = ({ onWalletStateChange, onSessionChange }) => {
+  const {
+    walletState,
+    wallets,
+    burnerWalletEnabled,
+    walletCount,
+    isConnecting,
+    isCorrectNetwork,
+    error,
+    setError,
+    connectWallet,
+    refreshBalances,
+    switchToShardeum,
+  } = useWalletConnection();
+  const [sessionAddress, setSessionAddress] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [isPickingWallet, setIsPickingWallet] = useState(false);
 
   useEffect(() => {
-    checkConnection();
-    setupEventListeners();
-
-    return () => {
-      web3Service.removeAllListeners();
-    };
+    apiService.getSession().then((session) => setSessionAddress(session?.address ?? null));
   }, []);
 
   useEffect(() => {
-    onWalletStateChange(walletState);
-    checkNetwork();
-  }, [walletState, onWalletStateChange]);
-
-  const checkConnection = async () => {
-    if (!web3Service.isMetaMaskInstalled()) {
-      setError('MetaMask is not installed');
-      return;
-    }
+    onSessionChange?.(sessionAddress);
+  }, [sessionAddress, onSessionChange]);
 
-    try {
-      const accounts = await window.ethereum.request({ method: 'eth_accounts' });
-      if (accounts.length > 0) {
-        const address = accounts[0];
-        const chainId = await window.ethereum.request({ method: 'eth_chainId' });
-        const balance = await web3Service.getBalance(address);
-
-        const newWalletState = {
-          isConnected: true,
-          address,
-          balance,
-          chainId,
-        };
-
-        setWalletState(newWalletState);
-        setError(null);
-      }
-    } catch (err: any) {
-      console.error('Error checking connection:', err);
-      setError(err.message);
+  // A session only applies to the wallet that signed in
+  useEffect(() => {
+    if (sessionAddress && walletState.isConnected && walletState.address?.toLowerCase() !== sessionAddress) {
+      apiService.signOut().catch((err) => console.warn('Error signing out:', err));
+      setSessionAddress(null);
     }
-  };
+  }, [walletState.isConnected, walletState.address, sessionAddress]);
 
-  const checkNetwork = () => {
-    const SHARDEUM_CHAIN_ID = '0x1f93'; // 8083 in hex
-    setIsCorrectNetwork(walletState.chainId === SHARDEUM_CHAIN_ID);
-  };
+  // Re-read the balances whenever a tip to or from this wallet is recorded or settles
+  useEffect(() => {
+    const address = walletState.address;
+    if (!address) return;
 
-  const setupEventListeners = () => {
-    web3Service.onAccountsChanged((accounts: string[]) => {
-      if (accounts.length === 0) {
-        setWalletState({
-          isConnected: false,
-          address: null,
-          balance: '0',
-          chainId: null,
-        });
-      } else {
-        checkConnection();
+    return watchLiveEvents((event) => {
+      if (event.type === 'transaction' && isTransactionFor(event.transaction, address)) {
+        refreshBalances(address);
       }
     });
+  }, [walletState.address, refreshBalances]);
 
-    web3Service.onChainChanged((chainId: string) => {
-      setWalletState(prev => ({ ...prev, chainId }));
-    });
+  useEffect(() => {
+    onWalletStateChange(walletState);
+  }, [walletState, onWalletStateChange]);
+
+  const selectWallet = async (wallet?: WalletDetail) => {
+    if (await connectWallet(wallet)) {
+      setIsPickingWallet(false);
+    }
   };
 
-  const connectWallet = async () => {
-    setIsConnecting(true);
+  const signIn = async () => {
+    if (!walletState.address || !walletState.chainId) return;
+
+    setIsSigningIn(true);
     setError(null);
 
     try {
-      const newWalletState = await web3Service.connectWallet();
-      setWalletState(newWalletState);
+      const session = await apiService.signIn(walletState.address, walletState.chainId);
+      setSessionAddress(session.address);
     } catch (err: any) {
       setError(err.message);
     } finally {
-      setIsConnecting(false);
+      setIsSigningIn(false);
     }
   };
 
-  const switchToShardeum = async () => {
+  const signOut = async () => {
     try {
-      await web3Service.switchToShardeum();
-      // Refresh connection after network switch
-      setTimeout(checkConnection, 1000);
+      await apiService.signOut();
     } catch (err: any) {
-      setError(err.message);
+      console.warn('Error signing out:', err);
     }
+    setSessionAddress(null);
   };
 
-  const formatBalance = (balance: string): string => {
-    const num = parseFloat(balance);
-    if (num === 0) return '0';
-    if (num < 0.001) return '< 0.001';
-    return num.toFixed(4);
-  };
-
-  if (!web3Service.isMetaMaskInstalled()) {
+  if (walletCount === 0) {
     return (
       <div className="card">
         <div className="flex items-center space-x-3 text-red-600">
           <AlertCircle className="w-6 h-6" />
           <div>
-            <h3 className="font-semibold">MetaMask Required</h3>
+            <h3 className="font-semibold">Wallet Required</h3>
             <p className="text-sm text-gray-600">
-              Please install MetaMask to use this application.
+              Please install a browser wallet such as MetaMask to use this application.
             </p>
             <a
               href="https://metamask.io/download/"
@@ -140,22 +120,31 @@ const WalletConnect: React.FC<WalletConnectProps> = ({ onWalletStateChange }) =>
     );
   }
 
-  if (!walletState.isConnected) {
+  if (!walletState.isConnected || isPickingWallet) {
     return (
       <div className="card">
         <div className="text-center">
           <Wallet className="w-12 h-12 mx-auto text-gray-400 mb-4" />
           <h3 className="text-lg font-semibold mb-2">Connect Your Wallet</h3>
           <p className="text-gray-600 mb-4">
-            Connect your MetaMask wallet to start sending tips
+            {walletCount > 1
+              ? 'Choose a wallet to start sending tips'
+              : 'Connect your wallet to start sending tips'}
           </p>
-          <button
-            onClick={connectWallet}
-            disabled={isConnecting}
-            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {isConnecting ? 'Connecting...' : 'Connect Wallet'}
-          </button>
+          <WalletPicker
+            wallets={wallets}
+            burnerWalletEnabled={burnerWalletEnabled}
+            isConnecting={isConnecting}
+            onSelect={selectWallet}
+          />
+          {isPickingWallet && (
+            <button
+              onClick={() => setIsPickingWallet(false)}
+              className="mt-3 text-sm text-gray-600 hover:text-gray-800"
+            >
+              Cancel
+            </button>
+          )}
           {error && (
             <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
               <p className="text-red-600 text-sm">{error}</p>
@@ -176,16 +165,68 @@ const WalletConnect: React.FC<WalletConnectProps> = ({ onWalletStateChange }) =>
           <div>
             <h3 className="font-semibold">Wallet Connected</h3>
             <p className="text-sm text-gray-600">
-              {web3Service.formatAddress(walletState.address!)}
+              {web3Service.getWallet()?.name} · {web3Service.formatAddress(walletState.address!)}
             </p>
+            {walletCount > 1 && (
+              <button
+                onClick={() => setIsPickingWallet(true)}
+                className="text-xs text-shardeum-600 hover:text-shardeum-700"
+              >
+                Switch wallet
+              </button>
+            )}
           </div>
         </div>
         <div className="text-right">
           <p className="text-lg font-semibold">
-            {formatBalance(walletState.balance)} SHM
+            {formatShm(parseShm(walletState.balance))} SHM
           </p>
           <p className="text-sm text-gray-600">Balance</p>
+          {web3Service.getNetwork().tokens.map(
+            (token) =>
+              walletState.tokenBalances[token.address] !== undefined && (
+                <p key={token.address} className="text-sm text-gray-700">
+                  {formatTokenAmount(walletState.tokenBalances[token.address], token.decimals)} {token.symbol}
+                </p>
+              )
+          )}
+        </div>
+      </div>
+
+      {web3Service.getWallet()?.uuid === BURNER_WALLET_INFO.uuid && (
+        <div className="mt-4 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+          <p className="text-xs text-gray-600">
+            Burner wallet for local development. Its private key is stored in this browser; fund{' '}
+            <code className="font-mono">{walletState.address}</code> from a faucet or a dev account on your node.
+          </p>
         </div>
+      )}
+
+      <div className="mt-4 pt-4 border-t flex items-center justify-between">
+        {sessionAddress ? (
+          <>
+            <p className="text-sm text-gray-600">Signed in</p>
+            <button
+              onClick={signOut}
+              className="flex items-center space-x-1 text-sm text-gray-700 hover:text-gray-900"
+            >
+              <LogOut className="w-4 h-4" />
+              <span>Sign out</span>
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">Sign in to manage your creator profile</p>
+            <button
+              onClick={signIn}
+              disabled={isSigningIn}
+              className="flex items-center space-x-1 text-sm font-medium text-shardeum-600 hover:text-shardeum-700 disabled:opacity-50"
+            >
+              <LogIn className="w-4 h-4" />
+              <span>{isSigningIn ? 'Signing in...' : 'Sign in'}</span>
+            </button>
+          </>
+        )}
       </div>
 
       {!isCorrectNetwork && (
@@ -194,7 +235,7 @@ const WalletConnect: React.FC<WalletConnectProps> = ({ onWalletStateChange }) =>
             <div className="flex items-center space-x-2">
               <AlertCircle className="w-5 h-5 text-yellow-600" />
               <p className="text-yellow-800 text-sm">
-                Please switch to Shardeum network
+                Please switch to {web3Service.getNetwork().name}
               </p>
             </div>
             <button
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Wallet } from 'lucide-react';
+import web3Service from '../services/web3Service';
+import { BURNER_WALLET_INFO } from '../services/signers';
+import { WalletDetail } from '../types';
+
+interface WalletPickerProps {
+  wallets: WalletDetail[];
+  burnerWalletEnabled: boolean;
+  isConnecting: boolean;
+  // Called without a wallet for the dev burner wallet
+  onSelect: (wallet?: WalletDetail) => void;
+  // Smaller buttons, for the embedded widget
+  compact?: boolean;
+}
+
+// One button per wallet the browser announced, plus the burner wallet in development
+const WalletPicker: React.FC<WalletPickerProps> = ({ wallets, burnerWalletEnabled, isConnecting, onSelect, compact }) => {
+  const buttonClass = `w-full flex items-center justify-center space-x-2 border rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed ${
+    compact ? 'px-3 py-2 text-sm' : 'px-4 py-2'
+  }`;
+  const iconClass = compact ? 'w-5 h-5' : 'w-6 h-6';
+  const label = (uuid: string, name: string) =>
+    isConnecting && web3Service.getWallet()?.uuid === uuid ? 'Connecting...' : name;
+
+  return (
+    <div className="space-y-2">
+      {wallets.map((wallet) => (
+        <button
+          key={wallet.info.uuid}
+          onClick={() => onSelect(wallet)}
+          disabled={isConnecting}
+          className={`${buttonClass} border-gray-300`}
+        >
+          {wallet.info.icon ? (
+            <img src={wallet.info.icon} alt="" className={iconClass} />
+          ) : (
+            <Wallet className={`${iconClass} text-gray-500`} />
+          )}
+          <span className="font-medium">{label(wallet.info.uuid, wallet.info.name)}</span>
+        </button>
+      ))}
+      {burnerWalletEnabled && (
+        <button
+          onClick={() => onSelect()}
+          disabled={isConnecting}
+          className={`${buttonClass} border-dashed border-gray-300`}
+        >
+          <Wallet className={`${iconClass} text-gray-500`} />
+          <span className="font-medium">{label(BURNER_WALLET_INFO.uuid, BURNER_WALLET_INFO.name)}</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default WalletPicker;
@@ -0,0 +1,75 @@
+import registry from './networks.json';
+import { NetworkConfig, NetworkKey, TokenConfig } from '../types';
+
+// The same registry is read by the server (server/config/networks.js).
+// The active network is chosen with REACT_APP_SHARDEUM_NETWORK; the local devnet
+// RPC and chain ID can be overridden for custom nodes, and the active network's
+// contracts with REACT_APP_TIPJAR_ADDRESS and REACT_APP_PLEDGE_VAULT_ADDRESS.
+// REACT_APP_TIP_TOKENS replaces its token list with a JSON array of the same shape.
+
+const selectedKey = (process.env.REACT_APP_SHARDEUM_NETWORK || registry.defaultNetwork) as NetworkKey;
+
+const toHexChainId = (chainId: number): string => `0x${chainId.toString(16)}`;
+
+const buildNetwork = (key: NetworkKey): NetworkConfig => {
+  const network = registry.networks[key];
+  let { rpcUrl, chainId } = network;
+  let tipJarAddress: string | null = network.tipJarAddress;
+  let pledgeVaultAddress: string | null = network.pledgeVaultAddress;
+  let tokens: TokenConfig[] = network.tokens;
+
+  if (key === 'local') {
+    rpcUrl = process.env.REACT_APP_LOCAL_RPC_URL || rpcUrl;
+    chainId = process.env.REACT_APP_LOCAL_CHAIN_ID
+      ? parseInt(process.env.REACT_APP_LOCAL_CHAIN_ID, 10)
+      : chainId;
+  }
+
+  if (key === selectedKey) {
+    tipJarAddress = process.env.REACT_APP_TIPJAR_ADDRESS || tipJarAddress;
+    pledgeVaultAddress = process.env.REACT_APP_PLEDGE_VAULT_ADDRESS || pledgeVaultAddress;
+    tokens = process.env.REACT_APP_TIP_TOKENS ? JSON.parse(process.env.REACT_APP_TIP_TOKENS) : tokens;
+  }
+
+  return {
+    key,
+    name: network.name,
+    chainId,
+    chainIdHex: toHexChainId(chainId),
+    rpcUrl,
+    explorerUrl: network.explorerUrl,
+    isTestnet: network.isTestnet,
+    tipJarAddress,
+    pledgeVaultAddress,
+    tokens: tokens.map((token) => ({ ...token, address: token.address.toLowerCase() })),
+  };
+};
+
+export const NETWORKS: Record<NetworkKey, NetworkConfig> = {
+  mainnet: buildNetwork('mainnet'),
+  testnet: buildNetwork('testnet'),
+  local: buildNetwork('local'),
+};
+
+export const NATIVE_CURRENCY = registry.nativeCurrency;
+
+if (!NETWORKS[selectedKey]) {
+  throw new Error(`Unknown network "${selectedKey}" in REACT_APP_SHARDEUM_NETWORK`);
+}
+
+export const activeNetwork: NetworkConfig = NETWORKS[selectedKey];
+
+// Look up a registered network by its hex chain ID (as returned by eth_chainId)
+export const getNetworkByChainId = (chainIdHex: string | null): NetworkConfig | undefined => {
+  if (!chainIdHex) return undefined;
+  return Object.values(NETWORKS).find(
+    (network) => network.chainIdHex === chainIdHex.toLowerCase()
+  );
+};
+
+// Look up a configured token of the active network by address
+export const findToken = (address: string | undefined, network: NetworkConfig = activeNetwork): TokenConfig | undefined =>
+  address ? network.tokens.find((token) => token.address === address.toLowerCase()) : undefined;
+
+export const getExplorerTxUrl = (txHash: string, network: NetworkConfig = activeNetwork): string | null =>
+  network.explorerUrl ? `${network.explorerUrl}/transaction/${txHash}` : null;
@@ -0,0 +1,20 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import './index.css';
+import EmbedApp from './EmbedApp';
+import { parseEmbedCreatorId } from './services/navigation';
+
+// Entry of the tip widget, built apart from the app by scripts/build-embed.js
+// into build/embed.html. The server sends that page for /embed/:id.
+const root = ReactDOM.createRoot(
+  document.getElementById('root') as HTMLElement
+);
+
+const creatorId = parseEmbedCreatorId(window.location.pathname);
+if (creatorId) {
+  root.render(
+    <React.StrictMode>
+      <EmbedApp creatorId={creatorId} />
+    </React.StrictMode>
+  );
+}
@@ -0,0 +1,399 @@
+import { useState, useEffect } from 'react';
+import {
+  ConfirmationProgress,
+  Creator,
+  FeeTier,
+  FeeTierName,
+  GasEstimate,
+  TokenConfig,
+  TransactionFees,
+  WalletState,
+} from '../types';
+import web3Service from '../services/web3Service';
+import apiService from '../services/apiService';
+import { parseShm, tryParseShm, tryParseTokenAmount } from '../utils/amounts';
+import { TOTAL_SHARE_BPS } from '../utils/splits';
+import { validateTip } from '../utils/tipValidation';
+
+export const REQUIRED_CONFIRMATIONS = parseInt(process.env.REACT_APP_REQUIRED_CONFIRMATIONS || '1', 10);
+
+const FEE_ESTIMATE_DEBOUNCE_MS = 500;
+
+// Where the tip is after the user presses "Send Tip". Token tips through the
+// TipJar may need an approval transaction first.
+export type TipPhase = 'idle' | 'approving' | 'sending' | 'pending' | 'confirmed' | 'failed';
+
+export interface TipRequest {
+  creator: Creator;
+  walletState: WalletState;
+  // Decimal amount as typed, in SHM or in the token
+  amount: string;
+  // ERC-20 token to tip in; undefined tips native SHM
+  token?: TokenConfig;
+  // Direct tips can still go through the TipJar; split tips always do
+  viaTipJar: boolean;
+  message: string;
+  // Put the message of a direct SHM transfer in its calldata
+  messageOnChain: boolean;
+  campaignId?: string;
+  feeTier: FeeTierName;
+  // The tip is out and has a hash
+  onSent?: (txHash: string, amountWei: bigint) => void;
+  // The tip was mined and confirmed
+  onConfirmed?: (txHash: string, amountWei: bigint) => void;
+  // Sending failed (no hash yet), the tip reverted, or it could not be confirmed
+  onFailed?: (txHash: string | null, error: string) => void;
+}
+
+export interface TipSender {
+  amountWei: bigint | null;
+  hasValidAmount: boolean;
+  balanceWei: bigint;
+  tokenBalanceWei: bigint | null;
+  isSplit: boolean;
+  sendViaTipJar: boolean;
+  // The TipJar must be allowed to move the token first
+  needsApproval: boolean;
+  onChainMessage?: string;
+  feeEstimate: GasEstimate | null;
+  feeError: string | null;
+  selectedFee: FeeTier | null;
+  maxFeeWei: bigint | null;
+  // Tip plus the worst-case fee, for native tips
+  totalWei: bigint | null;
+  phase: TipPhase;
+  error: string | null;
+  setError: (error: string | null) => void;
+  txHash: string | null;
+  progress: ConfirmationProgress | null;
+  sendTip: () => Promise<void>;
+  // Back to a blank idle state, for tipping again
+  reset: () => void;
+}
+
+// Fee estimation, validation and sending of one tip, shared by TipModal and the
+// embedded TipWidget. Sending records the tip as pending, waits for its
+// confirmations and reports the outcome back to the API.
+export const useTipSender = ({
+  creator,
+  walletState,
+  amount,
+  token,
+  viaTipJar,
+  message,
+  messageOnChain,
+  campaignId,
+  feeTier,
+  onSent,
+  onConfirmed,
+  onFailed,
+}: TipRequest): TipSender => {
+  const [phase, setPhase] = useState<TipPhase>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [txHash, setTxHash] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ConfirmationProgress | null>(null);
+  const [feeEstimate, setFeeEstimate] = useState<GasEstimate | null>(null);
+  const [feeError, setFeeError] = useState<string | null>(null);
+  // How much of the token the TipJar may already spend for the user
+  const [allowance, setAllowance] = useState<bigint | null>(null);
+
+  const tipJarAvailable = web3Service.hasTipJar();
+  // Creators with payout splits are tipped through the TipJar's tipSplit, which
+  // divides the tip on-chain. Without a TipJar the tip goes to their main address.
+  const isSplit = creator.splits.length > 0 && tipJarAvailable;
+  const sendViaTipJar = (viaTipJar && tipJarAvailable) || isSplit;
+
+  const amountWei = token ? tryParseTokenAmount(amount, token.decimals) : tryParseShm(amount);
+  const hasValidAmount = amountWei !== null && amountWei > BigInt(0);
+  // SHM pays the network fee, and the tip itself unless a token is selected
+  const balanceWei = parseShm(walletState.balance);
+  const tokenBalanceWei = token ? BigInt(walletState.tokenBalances[token.address] ?? '0') : null;
+
+  // The TipJar moves tokens with transferFrom, so it must be approved for the amount first
+  const needsApproval =
+    token !== undefined && sendViaTipJar && (allowance === null || (hasValidAmount && allowance < amountWei!));
+
+  const trimmedMessage = message.trim();
+  // TipJar tips always carry the message in their Tip event; direct token transfers never can
+  const onChainMessage =
+    (sendViaTipJar || (messageOnChain && !token)) && trimmedMessage ? trimmedMessage : undefined;
+
+  useEffect(() => {
+    if (!token || !sendViaTipJar || !walletState.address || phase !== 'idle') {
+      setAllowance(null);
+      return;
+    }
+
+    let cancelled = false;
+    web3Service
+      .getTokenAllowance(token.address, walletState.address, web3Service.getNetwork().tipJarAddress!)
+      .then((value) => {
+        if (!cancelled) setAllowance(value);
+      })
+      .catch((err) => {
+        console.warn('Could not read the token allowance:', err);
+        if (!cancelled) setAllowance(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, sendViaTipJar, walletState.address, phase]);
+
+  // Token calls are estimated with the amount being tipped once the balance (and the
+  // allowance, checked by needsApproval) covers it. Transferring 1 unit would give every
+  // split recipient but the last a zero transfer, which skips the storage writes of a
+  // real one.
+  const tokenEstimateUnits =
+    token && hasValidAmount && amountWei! <= tokenBalanceWei! ? amountWei! : BigInt(1);
+
+  // Re-estimate the fee when the calldata changes. The value does not change the
+  // gas of a native transfer, and estimating with it fails once it exceeds the balance.
+  // The TipJar rejects zero-value tips, so its call is estimated with 1 wei. A split
+  // tip is estimated with TOTAL_SHARE_BPS wei, which gives every recipient a non-zero
+  // part: a zero-value transfer costs less gas than the real one, and the estimate
+  // becomes the transaction's gas limit. Until the TipJar is approved, the approval is
+  // estimated instead.
+  useEffect(() => {
+    if (!walletState.address || phase !== 'idle') return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const tipJarAddress = web3Service.getNetwork().tipJarAddress!;
+      const request = token
+        ? {
+            to: needsApproval || !sendViaTipJar ? token.address : tipJarAddress,
+            valueWei: '0',
+            data: needsApproval
+              ? web3Service.encodeTokenApproval(tipJarAddress, BigInt(1))
+              : sendViaTipJar
+              ? web3Service.encodeTipJarTokenCall(
+                  token.address,
+                  isSplit ? creator.splits : [{ address: creator.address, shareBps: TOTAL_SHARE_BPS }],
+                  tokenEstimateUnits,
+                  creator.id,
+                  onChainMessage
+                )
+              : web3Service.encodeTokenTransfer(creator.address, tokenEstimateUnits),
+          }
+        : sendViaTipJar
+        ? {
+            to: tipJarAddress,
+            valueWei: isSplit ? TOTAL_SHARE_BPS.toString() : '1',
+            data: isSplit
+              ? web3Service.encodeTipJarSplitCall(creator.splits, creator.id, onChainMessage)
+              : web3Service.encodeTipJarCall(creator.address, creator.id, onChainMessage),
+          }
+        : {
+            to: creator.address,
+            valueWei: '0',
+            data: onChainMessage ? web3Service.encodeTipMessage(onChainMessage) : undefined,
+          };
+      apiService
+        .estimateGas(walletState.address!, request.to, request.valueWei, request.data)
+        .then((estimate) => {
+          if (cancelled) return;
+          setFeeEstimate(estimate);
+          setFeeError(null);
+        })
+        .catch((err) => {
+          if (cancelled) return;
+          console.warn('Fee estimation failed:', err);
+          setFeeEstimate(null);
+          setFeeError('Could not estimate the network fee');
+        });
+    }, FEE_ESTIMATE_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [
+    walletState.address,
+    creator.address,
+    creator.id,
+    creator.splits,
+    onChainMessage,
+    sendViaTipJar,
+    isSplit,
+    token,
+    tokenEstimateUnits,
+    needsApproval,
+    phase,
+  ]);
+
+  const selectedFee = feeEstimate ? feeEstimate.tiers[feeTier] : null;
+  const maxFeeWei = selectedFee ? BigInt(selectedFee.maxFeeWei) : null;
+  // Token tips pay the fee in SHM, so there is no single total
+  const totalWei = !token && hasValidAmount && maxFeeWei !== null ? amountWei! + maxFeeWei : null;
+
+  const validate = (): string | null => {
+    const invalid = validateTip({
+      amountWei,
+      balanceWei,
+      token: token ? { symbol: token.symbol, balanceWei: tokenBalanceWei! } : undefined,
+      maxFeeWei,
+      message,
+    });
+    if (invalid) return invalid;
+
+    if (!web3Service.isValidAddress(creator.address)) {
+      return 'Invalid creator address';
+    }
+    return null;
+  };
+
+  const fail = (hash: string | null, reason: string) => {
+    setError(reason);
+    onFailed?.(hash, reason);
+  };
+
+  const sendTip = async () => {
+    setError(null);
+
+    const invalid = validate();
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    let hash: string;
+
+    try {
+      // Send the tip transaction with the selected fee tier. The wallet works out
+      // the gas of token calls itself: the estimate may be for a different amount,
+      // since the amount can change during the estimate's debounce.
+      let fees: TransactionFees | null =
+        feeEstimate && selectedFee
+          ? {
+              gasLimit: token ? undefined : feeEstimate.gasLimit,
+              gasPrice: selectedFee.gasPrice,
+              maxFeePerGas: selectedFee.maxFeePerGas,
+              maxPriorityFeePerGas: selectedFee.maxPriorityFeePerGas,
+            }
+          : null;
+
+      if (token && needsApproval) {
+        setPhase('approving');
+        const approvalHash = await web3Service.approveToken(
+          token.address,
+          web3Service.getNetwork().tipJarAddress!,
+          amountWei!,
+          fees
+        );
+        const approval = await web3Service.waitForConfirmation(approvalHash, { confirmations: REQUIRED_CONFIRMATIONS });
+        if (approval.status === '0x0') {
+          throw new Error(`The ${token.symbol} approval reverted`);
+        }
+        // The estimate was for the approval; let the tip estimate its own gas
+        fees = null;
+      }
+
+      setPhase('sending');
+
+      if (token) {
+        hash = sendViaTipJar
+          ? await web3Service.sendTipJarTokenTip(
+              token.address,
+              isSplit ? creator.splits : [{ address: creator.address, shareBps: TOTAL_SHARE_BPS }],
+              amountWei!,
+              creator.id,
+              onChainMessage,
+              fees
+            )
+          : await web3Service.sendTokenTip(token.address, creator.address, amountWei!, fees);
+      } else {
+        hash = isSplit
+          ? await web3Service.sendTipJarSplitTip(creator.splits, creator.id, amount, onChainMessage, fees)
+          : sendViaTipJar
+          ? await web3Service.sendTipJarTip(creator.address, creator.id, amount, onChainMessage, fees)
+          : await web3Service.sendTip(creator.address, amount, onChainMessage, fees);
+      }
+      setTxHash(hash);
+    } catch (err: any) {
+      setPhase('idle');
+      fail(null, err.message);
+      return;
+    }
+
+    setPhase('pending');
+    onSent?.(hash, amountWei!);
+
+    // Record the tip in the backend as pending. The tip is on its way regardless (and
+    // the chain indexer imports it once mined), so a failed record does not fail it.
+    let tipId: string | null = null;
+    try {
+      const tip = await apiService.recordTip({
+        fromAddress: walletState.address!,
+        toAddress: creator.address,
+        amountWei: amountWei!.toString(),
+        txHash: hash,
+        creatorId: creator.id,
+        message: trimmedMessage || undefined,
+        tokenAddress: token?.address,
+        campaignId,
+      });
+      tipId = tip.id;
+    } catch (err) {
+      console.warn('Could not record the tip:', err);
+    }
+
+    try {
+      const receipt = await web3Service.waitForConfirmation(hash, {
+        confirmations: REQUIRED_CONFIRMATIONS,
+        onUpdate: setProgress,
+      });
+      const status = receipt.status === '0x0' ? 'failed' : 'confirmed';
+
+      // The background confirmer settles the tip anyway, so a failed report is not fatal
+      if (tipId) {
+        try {
+          await apiService.updateTipStatus(tipId, status);
+        } catch (err) {
+          console.warn('Could not report tip status:', err);
+        }
+      }
+
+      setPhase(status);
+      if (status === 'failed') {
+        fail(hash, `The transaction was mined but reverted. No ${token ? token.symbol : 'SHM'} was sent to the creator.`);
+      } else {
+        onConfirmed?.(hash, amountWei!);
+      }
+    } catch (err: any) {
+      // The transaction is out of our hands now; keep the hash visible
+      setPhase('failed');
+      fail(hash, err.message);
+    }
+  };
+
+  const reset = () => {
+    setPhase('idle');
+    setError(null);
+    setTxHash(null);
+    setProgress(null);
+  };
+
+  return {
+    amountWei,
+    hasValidAmount,
+    balanceWei,
+    tokenBalanceWei,
+    isSplit,
+    sendViaTipJar,
+    needsApproval,
+    onChainMessage,
+    feeEstimate,
+    feeError,
+    selectedFee,
+    maxFeeWei,
+    totalWei,
+    phase,
+    error,
+    setError,
+    txHash,
+    progress,
+    sendTip,
+    reset,
+  };
+};
@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback } from 'react';
+import web3Service from '../services/web3Service';
+import { watchWallets } from '../services/walletDiscovery';
+import { BurnerSigner, BURNER_WALLET_INFO, InjectedSigner, isBurnerWalletEnabled } from '../services/signers';
+import { WalletDetail, WalletState } from '../types';
+
+const burnerWalletEnabled = isBurnerWalletEnabled(web3Service.getNetwork());
+
+export const DISCONNECTED_WALLET: WalletState = {
+  isConnected: false,
+  address: null,
+  balance: '0',
+  chainId: null,
+  tokenBalances: {},
+};
+
+export interface WalletConnection {
+  walletState: WalletState;
+  // Wallets announced by the browser (EIP-6963)
+  wallets: WalletDetail[];
+  burnerWalletEnabled: boolean;
+  // Announced wallets plus the dev burner wallet, when enabled
+  walletCount: number;
+  isConnecting: boolean;
+  isCorrectNetwork: boolean;
+  error: string | null;
+  setError: (error: string | null) => void;
+  // Connect an injected wallet, or the dev burner wallet when none is given.
+  // Resolves to whether it connected.
+  connectWallet: (wallet?: WalletDetail) => Promise<boolean>;
+  refreshBalances: (address: string) => Promise<void>;
+  switchToShardeum: () => Promise<void>;
+}
+
+// Wallet discovery and connection shared by the app and the embedded tip
+// widget. Reuses the wallet picked last time (or the only one available)
+// without prompting, and follows account and chain changes.
+export const useWalletConnection = (): WalletConnection => {
+  const [walletState, setWalletState] = useState<WalletState>(DISCONNECTED_WALLET);
+  const [wallets, setWallets] = useState<WalletDetail[]>([]);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const checkConnection = useCallback(async () => {
+    if (!web3Service.hasWallet()) return;
+
+    try {
+      const accounts = await web3Service.getWalletAccounts();
+      if (accounts.length === 0) {
+        setWalletState(DISCONNECTED_WALLET);
+        return;
+      }
+
+      const address = accounts[0];
+      const [chainId, balance, tokenBalances] = await Promise.all([
+        web3Service.getWalletChainId(),
+        web3Service.getBalance(address),
+        web3Service.getTokenBalances(address),
+      ]);
+      setWalletState({ isConnected: true, address, balance, chainId, tokenBalances });
+      setError(null);
+    } catch (err: any) {
+      console.error('Error checking connection:', err);
+      setError(err.message);
+    }
+  }, []);
+
+  useEffect(() => {
+    const stopWatchingWallets = watchWallets((found) => {
+      setWallets(found);
+
+      if (!web3Service.hasWallet()) {
+        const lastRdns = web3Service.getLastWalletRdns();
+        if (burnerWalletEnabled && lastRdns === BURNER_WALLET_INFO.rdns) {
+          web3Service.selectWallet(new BurnerSigner(web3Service.getNetwork()));
+          checkConnection();
+          return;
+        }
+
+        const wallet =
+          found.find((candidate) => candidate.info.rdns === lastRdns) ||
+          (found.length === 1 && !burnerWalletEnabled ? found[0] : undefined);
+        if (wallet) {
+          web3Service.selectWallet(new InjectedSigner(wallet));
+          checkConnection();
+        }
+      }
+    });
+    const removeAccountsListener = web3Service.onAccountsChanged((accounts: string[]) => {
+      if (accounts.length === 0) {
+        setWalletState(DISCONNECTED_WALLET);
+      } else {
+        checkConnection();
+      }
+    });
+    const removeChainListener = web3Service.onChainChanged((chainId: string) => {
+      setWalletState((prev) => ({ ...prev, chainId }));
+    });
+
+    return () => {
+      stopWatchingWallets();
+      removeAccountsListener();
+      removeChainListener();
+    };
+  }, [checkConnection]);
+
+  const refreshBalances = useCallback(async (address: string) => {
+    try {
+      const [balance, tokenBalances] = await Promise.all([
+        web3Service.getBalance(address),
+        web3Service.getTokenBalances(address),
+      ]);
+      // Ignore the result if the wallet switched accounts meanwhile
+      setWalletState((prev) => (prev.address === address ? { ...prev, balance, tokenBalances } : prev));
+    } catch (err) {
+      console.warn('Could not refresh balances:', err);
+    }
+  }, []);
+
+  const connectWallet = useCallback(async (wallet?: WalletDetail) => {
+    setIsConnecting(true);
+    setError(null);
+
+    try {
+      web3Service.selectWallet(wallet ? new InjectedSigner(wallet) : new BurnerSigner(web3Service.getNetwork()));
+      setWalletState(await web3Service.connectWallet());
+      return true;
+    } catch (err: any) {
+      setError(err.message);
+      return false;
+    } finally {
+      setIsConnecting(false);
+    }
+  }, []);
+
+  const switchToShardeum = useCallback(async () => {
+    try {
+      await web3Service.switchToShardeum();
+      // Refresh connection after network switch
+      setTimeout(checkConnection, 1000);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, [checkConnection]);
+
+  return {
+    walletState,
+    wallets,
+    burnerWalletEnabled,
+    walletCount: wallets.length + (burnerWalletEnabled ? 1 : 0),
+    isConnecting,
+    isCorrectNetwork: walletState.chainId === web3Service.getNetwork().chainIdHex,
+    error,
+    setError,
+    connectWallet,
+    refreshBalances,
+    switchToShardeum,
+  };
+};
@@ -0,0 +1,46 @@
+import type { AxiosStatic, InternalAxiosRequestConfig } from 'axios';
+
+// A fresh copy of the service whose requests all fail with `status`. Its axios
+// instance picks up the adapter when the module loads.
+const loadApiService = (status: number, data: unknown): typeof import('./apiService') => {
+  let module: typeof import('./apiService');
+  jest.isolateModules(() => {
+    const axios: AxiosStatic = require('axios').default;
+    axios.defaults.adapter = (config: InternalAxiosRequestConfig) =>
+      Promise.reject(
+        new axios.AxiosError('Request failed', 'ERR_BAD_REQUEST', config, null, {
+          status,
+          statusText: 'Error',
+          data,
+          headers: {},
+          config,
+        })
+      );
+    module = require('./apiService');
+  });
+  return module!;
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+test('error responses keep their HTTP status', async () => {
+  const { default: apiService, ApiError, isNotFound } = loadApiService(404, { error: 'Creator not found' });
+
+  const error = await apiService.getCreatorById('missing').catch((err) => err);
+  expect(error).toBeInstanceOf(ApiError);
+  expect(error.status).toBe(404);
+  expect(error.message).toBe('API Error: Creator not found');
+  expect(isNotFound(error)).toBe(true);
+});
+
+test('other failures are not mistaken for a missing resource', async () => {
+  const { default: apiService, isNotFound } = loadApiService(500, {});
+
+  const error = await apiService.getCreatorById('creator-1').catch((err) => err);
+  expect(error.status).toBe(500);
+  expect(isNotFound(error)).toBe(false);
+  expect(isNotFound(new Error('Network Error: Unable to connect to server'))).toBe(false);
+});
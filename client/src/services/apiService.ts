@@ -1,7 +1,39 @@
 import axios from 'axios';
-import { Creator, Transaction, NetworkInfo, GasEstimate } from '../types';
+import { ethers } from 'ethers';
+import {
+  Creator,
+  CreatorPage,
+  CreatorQuery,
+  CreatorTag,
+  CreatorStats,
+  Transaction,
+  TransactionPage,
+  TransactionQuery,
+  TransactionFilters,
+  HistoryExportFormat,
+  NetworkInfo,
+  GasEstimate,
+  AuthSession,
+  Pledge,
+  Campaign,
+} from '../types';
+import web3Service from './web3Service';
 
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+const SESSION_STORAGE_KEY = 'shm-tip-jar.session';
+
+// The server answered with an error status
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(`API Error: ${message}`);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+export const isNotFound = (error: unknown): boolean => error instanceof ApiError && error.status === 404;
 
 const api = axios.create({
   baseURL: API_BASE_URL,
@@ -11,6 +43,36 @@ const api = axios.create({
   },
 });
 
+// Must match buildRegistrationMessage in server/lib/creatorRegistration.js
+const buildCreatorRegistrationMessage = (name: string, address: string, issuedAt: string): string =>
+  [
+    'SHM Tip Jar creator registration',
+    '',
+    `Name: ${name}`,
+    `Address: ${address.toLowerCase()}`,
+    `Issued At: ${issuedAt}`,
+  ].join('\n');
+
+// Sign-In With Ethereum (EIP-4361) message for this site
+const buildSiweMessage = (address: string, chainId: number, nonce: string): string => {
+  const issuedAt = new Date();
+  const expirationTime = new Date(issuedAt.getTime() + 10 * 60 * 1000);
+
+  return [
+    `${window.location.host} wants you to sign in with your Ethereum account:`,
+    ethers.getAddress(address),
+    '',
+    'Sign in to SHM Tip Jar to manage your creator profile.',
+    '',
+    `URI: ${window.location.origin}`,
+    'Version: 1',
+    `Chain ID: ${chainId}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt.toISOString()}`,
+    `Expiration Time: ${expirationTime.toISOString()}`,
+  ].join('\n');
+};
+
 class ApiService {
   // Network related APIs
   async getNetworkInfo(): Promise<NetworkInfo> {
@@ -33,14 +95,21 @@ class ApiService {
     return response.data;
   }
 
-  async estimateGas(from: string, to: string, value: string): Promise<GasEstimate> {
-    const response = await api.post('/estimate-gas', { from, to, value });
+  // Gas limit and slow/normal/fast fee tiers for a transfer (value in wei)
+  async estimateGas(from: string, to: string, valueWei: string, data?: string): Promise<GasEstimate> {
+    const response = await api.post('/estimate-gas', { from, to, valueWei, data });
     return response.data;
   }
 
   // Creator related APIs
-  async getCreators(): Promise<Creator[]> {
-    const response = await api.get('/creators');
+  async getCreators(query: CreatorQuery = {}): Promise<CreatorPage> {
+    const response = await api.get('/creators', { params: query });
+    return response.data;
+  }
+
+  // The most used tags, most used first
+  async getCreatorTags(): Promise<CreatorTag[]> {
+    const response = await api.get('/creators/tags');
     return response.data;
   }
 
@@ -49,30 +118,188 @@ class ApiService {
     return response.data;
   }
 
-  async createCreator(creator: Omit<Creator, 'id' | 'avatar' | 'totalTips' | 'tipCount'>): Promise<Creator> {
-    const response = await api.post('/creators', creator);
+  // Registration must be signed by the wallet being registered
+  async createCreator(
+    creator: Omit<
+      Creator,
+      | 'id'
+      | 'avatar'
+      | 'totalTips'
+      | 'totalTipsWei'
+      | 'tipCount'
+      | 'activePledgeCount'
+      | 'supporterCount'
+      | 'splits'
+      | 'tokenTotals'
+      | 'campaign'
+    >
+  ): Promise<Creator> {
+    const signerAddress = await web3Service.getCurrentAddress();
+    if (signerAddress.toLowerCase() !== creator.address.toLowerCase()) {
+      throw new Error('Connect the wallet you are registering to sign the request');
+    }
+
+    const issuedAt = new Date().toISOString();
+    const signature = await web3Service.signMessage(
+      buildCreatorRegistrationMessage(creator.name, creator.address, issuedAt)
+    );
+
+    const response = await api.post('/creators', { ...creator, issuedAt, signature });
+    return response.data;
+  }
+
+  async getCreatorStats(id: string): Promise<CreatorStats> {
+    const response = await api.get(`/creators/${id}/stats`);
     return response.data;
   }
 
+  async getCreatorMessages(id: string, limit = 10): Promise<Transaction[]> {
+    const response = await api.get(`/creators/${id}/messages`, { params: { limit } });
+    return response.data;
+  }
+
+  // Owner-only: requires a signed-in session for the creator's wallet
+  async updateCreator(
+    id: string,
+    changes: Partial<Pick<Creator, 'name' | 'description' | 'avatar' | 'tags' | 'splits'>>
+  ): Promise<Creator> {
+    const response = await api.put(`/creators/${id}`, changes);
+    return response.data;
+  }
+
+  async deleteCreator(id: string): Promise<void> {
+    await api.delete(`/creators/${id}`);
+  }
+
+  async getCampaigns(creatorId: string): Promise<Campaign[]> {
+    const response = await api.get(`/creators/${creatorId}/campaigns`);
+    return response.data;
+  }
+
+  // Owner-only, like updateCreator. The target is in SHM wei.
+  async createCampaign(
+    creatorId: string,
+    campaign: Pick<Campaign, 'title' | 'description' | 'targetWei' | 'deadline'>
+  ): Promise<Campaign> {
+    const response = await api.post(`/creators/${creatorId}/campaigns`, campaign);
+    return response.data;
+  }
+
+  async deleteCampaign(creatorId: string, campaignId: string): Promise<void> {
+    await api.delete(`/creators/${creatorId}/campaigns/${campaignId}`);
+  }
+
+  // Auth related APIs
+  getStoredSession(): AuthSession | null {
+    const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!stored) return null;
+
+    try {
+      const session: AuthSession = JSON.parse(stored);
+      if (new Date(session.expiresAt).getTime() > Date.now()) {
+        return session;
+      }
+    } catch {
+      // Fall through and clear the corrupt entry
+    }
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    return null;
+  }
+
+  async signIn(address: string, chainId: string): Promise<AuthSession> {
+    const nonceResponse = await api.get('/auth/nonce');
+    const message = buildSiweMessage(address, parseInt(chainId, 16), nonceResponse.data.nonce);
+    const signature = await web3Service.signMessage(message);
+
+    const response = await api.post('/auth/verify', { message, signature });
+    const session: AuthSession = response.data;
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    return session;
+  }
+
+  async signOut(): Promise<void> {
+    try {
+      if (this.getStoredSession()) {
+        await api.post('/auth/logout');
+      }
+    } finally {
+      localStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+  }
+
+  // Check the stored session with the server, clearing it if it is no longer valid
+  async getSession(): Promise<{ address: string; expiresAt: string } | null> {
+    if (!this.getStoredSession()) return null;
+
+    try {
+      const response = await api.get('/auth/session');
+      return response.data;
+    } catch {
+      localStorage.removeItem(SESSION_STORAGE_KEY);
+      return null;
+    }
+  }
+
   // Transaction related APIs
   async recordTip(tipData: {
     fromAddress: string;
     toAddress: string;
-    amount: string;
+    amountWei: string;
     txHash: string;
     creatorId?: string;
+    message?: string;
+    // ERC-20 tips: the token, with amountWei in its smallest unit
+    tokenAddress?: string;
+    // SHM tips only
+    campaignId?: string;
   }): Promise<Transaction> {
     const response = await api.post('/tips', tipData);
     return response.data;
   }
 
-  async getTransactionHistory(address: string): Promise<Transaction[]> {
-    const response = await api.get(`/history/${address}`);
+  // Report the final status of a tip; the server re-checks the receipt on chain
+  async updateTipStatus(id: string, status: 'confirmed' | 'failed'): Promise<Transaction> {
+    const response = await api.patch(`/tips/${id}`, { status });
+    return response.data;
+  }
+
+  // One page of an address's history, newest first. Pass the previous page's
+  // nextCursor as `cursor` for the next one.
+  async getTransactionHistory(address: string, query: TransactionQuery = {}): Promise<TransactionPage> {
+    const response = await api.get(`/history/${address}`, { params: query });
+    return response.data;
+  }
+
+  // Download link for an address's history in a bookkeeping format, oldest first
+  getHistoryExportUrl(address: string, format: HistoryExportFormat, filters: TransactionFilters = {}): string {
+    const params = new URLSearchParams({ format });
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined) params.set(key, value);
+    });
+    return `${API_BASE_URL}/history/${address}/export?${params}`;
+  }
+
+  async getAllTransactions(query: Omit<TransactionQuery, 'direction'> = {}): Promise<TransactionPage> {
+    const response = await api.get('/transactions', { params: query });
+    return response.data;
+  }
+
+  // Pledge related APIs
+
+  // Record a pledge once its createPledge transaction has been mined
+  async recordPledge(txHash: string): Promise<Pledge> {
+    const response = await api.post('/pledges', { txHash });
+    return response.data;
+  }
+
+  async getPledgesBySupporter(address: string): Promise<Pledge[]> {
+    const response = await api.get('/pledges', { params: { supporter: address } });
     return response.data;
   }
 
-  async getAllTransactions(): Promise<Transaction[]> {
-    const response = await api.get('/transactions');
+  // Have the server re-read a pledge from the contract after changing it
+  async syncPledge(id: string): Promise<Pledge> {
+    const response = await api.post(`/pledges/${id}/sync`);
     return response.data;
   }
 
@@ -83,10 +310,17 @@ class ApiService {
   }
 }
 
-// Add request interceptor for error handling
+const apiService = new ApiService();
+
+// Add request interceptor for error handling and session auth
 api.interceptors.request.use(
   (config) => {
     console.log(`Making ${config.method?.toUpperCase()} request to ${config.url}`);
+
+    const session = apiService.getStoredSession();
+    if (session) {
+      config.headers.Authorization = `Bearer ${session.token}`;
+    }
     return config;
   },
   (error) => {
@@ -106,7 +340,7 @@ api.interceptors.response.use(
     if (error.response) {
       // Server responded with error status
       const message = error.response.data?.error || error.response.statusText;
-      throw new Error(`API Error: ${message}`);
+      throw new ApiError(error.response.status, message);
     } else if (error.request) {
       // Request was made but no response received
       throw new Error('Network Error: Unable to connect to server');
@@ -117,4 +351,4 @@ api.interceptors.response.use(
   }
 );
 
-export default new ApiService(); 
\ No newline at end of file
+export default apiService; 
\ No newline at end of file
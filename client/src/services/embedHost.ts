@@ -0,0 +1,29 @@
+import { EmbedEvent } from '../types';
+
+// Messages from the tip widget to the page that embeds it in an iframe. The
+// widget cannot tell which site that is, so messages go to any origin; they only
+// carry what is public on chain anyway. Hosts should check `source`.
+
+export const EMBED_MESSAGE_SOURCE = 'shm-tip-jar';
+
+export const isEmbedded = (): boolean => window.parent !== window;
+
+export const postToHost = (event: EmbedEvent) => {
+  if (!isEmbedded()) return;
+  window.parent.postMessage({ source: EMBED_MESSAGE_SOURCE, ...event }, '*');
+};
+
+// Report the height of `element` whenever it changes, so that the host can
+// size the iframe to fit. Returns a function that stops watching.
+export const watchContentHeight = (element: HTMLElement, creatorId: string): (() => void) => {
+  let lastHeight = 0;
+  const observer = new ResizeObserver(() => {
+    const height = Math.ceil(element.getBoundingClientRect().height);
+    if (height === lastHeight) return;
+    lastHeight = height;
+    postToHost({ type: 'resize', creatorId, height });
+  });
+
+  observer.observe(element);
+  return () => observer.disconnect();
+};
@@ -0,0 +1,79 @@
+import { LiveEvent } from '../types';
+
+// Server-sent events from GET /api/events: new tips, tip status changes and
+// creator updates. All listeners share one EventSource, which is opened with the
+// first listener and closed with the last.
+
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+const LIVE_EVENT_TYPES: LiveEvent['type'][] = ['connected', 'reset', 'transaction', 'creator', 'creatorRemoved'];
+
+// Delay before reopening a stream the browser gave up on, doubled up to the maximum
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+type LiveEventListener = (event: LiveEvent) => void;
+
+const listeners = new Set<LiveEventListener>();
+let source: EventSource | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+// ID of the last event received, so a new stream resumes where the old one stopped
+let lastEventId: string | null = null;
+
+const handleMessage = (type: LiveEvent['type'], message: MessageEvent) => {
+  if (message.lastEventId) lastEventId = message.lastEventId;
+
+  let event: LiveEvent;
+  try {
+    event = { type, ...JSON.parse(message.data) };
+  } catch (err) {
+    console.warn('Ignoring malformed live event:', err);
+    return;
+  }
+  listeners.forEach((listener) => listener(event));
+};
+
+const connect = () => {
+  reconnectTimer = null;
+
+  // EventSource sends Last-Event-ID on its own retries; a new one needs it in the URL
+  const url = lastEventId
+    ? `${API_BASE_URL}/events?lastEventId=${encodeURIComponent(lastEventId)}`
+    : `${API_BASE_URL}/events`;
+  const stream = new EventSource(url);
+  source = stream;
+
+  stream.onopen = () => {
+    reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+  };
+  stream.onerror = () => {
+    // The browser retries dropped connections itself, but not failed or rejected ones
+    if (stream.readyState !== EventSource.CLOSED) return;
+
+    source = null;
+    reconnectTimer = setTimeout(connect, reconnectDelay);
+    reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+  };
+  LIVE_EVENT_TYPES.forEach((type) => {
+    stream.addEventListener(type, (message) => handleMessage(type, message as MessageEvent));
+  });
+};
+
+const disconnect = () => {
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+  source?.close();
+  source = null;
+};
+
+// Listen for live events. Returns a function that stops listening.
+export const watchLiveEvents = (listener: LiveEventListener): (() => void) => {
+  listeners.add(listener);
+  if (!source && !reconnectTimer) connect();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) disconnect();
+  };
+};
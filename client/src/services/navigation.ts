@@ -0,0 +1,72 @@
+// Client-side routing on the History API. The app has two pages: the creator
+// list at / and a creator's profile at /c/:id, where ?tip opens the tip dialog
+// straight away. The server serves the same app for both paths. The tip widget
+// that creators put on their own sites is a separate page: for /embed/:id the
+// server sends build/embed.html, which loads its own bundle (src/embed.tsx).
+
+export type Route = { page: 'home' } | { page: 'creator'; creatorId: string; openTip: boolean };
+
+type RouteListener = (route: Route) => void;
+
+const CREATOR_PATH_PATTERN = /^\/c\/([^/]+)\/?$/;
+const EMBED_PATH_PATTERN = /^\/embed\/([^/]+)\/?$/;
+
+const listeners = new Set<RouteListener>();
+
+export const creatorPath = (creatorId: string, openTip = false): string =>
+  `/c/${encodeURIComponent(creatorId)}${openTip ? '?tip' : ''}`;
+
+// Absolute link to a creator's profile, for sharing
+export const creatorUrl = (creatorId: string): string => `${window.location.origin}${creatorPath(creatorId)}`;
+
+// The creator a widget page is for, or null outside /embed/:id
+export const parseEmbedCreatorId = (pathname: string): string | null => {
+  const match = EMBED_PATH_PATTERN.exec(pathname);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+// Script tag that puts a creator's tip widget on another site
+export const embedSnippet = (creatorId: string): string =>
+  `<script src="${window.location.origin}/embed.js" data-creator-id="${encodeURIComponent(creatorId)}" async></script>`;
+
+export const parseRoute = (pathname: string, search = ''): Route => {
+  const match = CREATOR_PATH_PATTERN.exec(pathname);
+  if (!match) return { page: 'home' };
+
+  return {
+    page: 'creator',
+    creatorId: decodeURIComponent(match[1]),
+    openTip: new URLSearchParams(search).has('tip'),
+  };
+};
+
+export const getCurrentRoute = (): Route => parseRoute(window.location.pathname, window.location.search);
+
+const notify = () => {
+  const route = getCurrentRoute();
+  listeners.forEach((listener) => listener(route));
+};
+
+// Go to a path inside the app. `replace` swaps the current history entry
+// instead of adding one, e.g. to drop ?tip once the dialog has been shown.
+export const navigate = (path: string, { replace = false } = {}) => {
+  if (replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+    window.scrollTo(0, 0);
+  }
+  notify();
+};
+
+// Listen for route changes, including the browser's back and forward buttons.
+// Returns a function that stops listening.
+export const watchRoute = (listener: RouteListener): (() => void) => {
+  if (listeners.size === 0) window.addEventListener('popstate', notify);
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener('popstate', notify);
+  };
+};
@@ -0,0 +1,181 @@
+import { RpcTransaction, RpcTransactionRequest, TransactionReceipt } from '../types';
+
+type BlockTag = 'latest' | 'pending' | 'earliest' | string;
+
+// Parameters and results of the JSON-RPC methods this app calls
+export interface RpcMethodMap {
+  eth_chainId: { params: []; result: string };
+  eth_blockNumber: { params: []; result: string };
+  eth_gasPrice: { params: []; result: string };
+  eth_getBalance: { params: [string, BlockTag]; result: string };
+  eth_getTransactionCount: { params: [string, BlockTag]; result: string };
+  eth_estimateGas: { params: [RpcTransactionRequest] | [RpcTransactionRequest, BlockTag]; result: string };
+  eth_call: { params: [RpcTransactionRequest, BlockTag]; result: string };
+  eth_getTransactionByHash: { params: [string]; result: RpcTransaction | null };
+  eth_getTransactionReceipt: { params: [string]; result: TransactionReceipt | null };
+  shardeum_getNetworkAccount: { params: []; result: any };
+  shardeum_getNodeList: { params: [{ page: number; limit: number }]; result: any };
+}
+
+export type RpcMethod = keyof RpcMethodMap;
+
+export interface RpcCall<M extends RpcMethod = RpcMethod> {
+  method: M;
+  params: RpcMethodMap[M]['params'];
+}
+
+type BatchResults<T extends readonly RpcCall[]> = {
+  [K in keyof T]: T[K] extends RpcCall<infer M> ? RpcMethodMap[M]['result'] : never;
+};
+
+interface RpcResponse {
+  jsonrpc: '2.0';
+  id: number;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export interface RpcClientOptions {
+  timeoutMs?: number;
+  retries?: number;
+  backoffMs?: number;
+}
+
+// Error returned by the node in the JSON-RPC `error` field
+export class JsonRpcError extends Error {
+  readonly code: number;
+  readonly method: string;
+  readonly data?: unknown;
+
+  constructor(method: string, code: number, message: string, data?: unknown) {
+    super(`${method} failed (${code}): ${message}`);
+    this.name = 'JsonRpcError';
+    this.method = method;
+    this.code = code;
+    this.data = data;
+  }
+}
+
+// The request never produced a JSON-RPC response (network, HTTP or timeout failure)
+export class RpcTransportError extends Error {
+  readonly method: string;
+  readonly status?: number;
+  readonly isTimeout: boolean;
+
+  constructor(method: string, message: string, options: { status?: number; isTimeout?: boolean } = {}) {
+    super(`${method}: ${message}`);
+    this.name = 'RpcTransportError';
+    this.method = method;
+    this.status = options.status;
+    this.isTimeout = options.isTimeout ?? false;
+  }
+}
+
+// Node-side rate limiting ("limit exceeded") is worth retrying; other RPC errors are not
+const RETRYABLE_RPC_CODES = [-32005];
+
+const isRetryable = (error: unknown): boolean => {
+  if (error instanceof RpcTransportError) {
+    return error.status === undefined || error.status === 429 || error.status >= 500;
+  }
+  return error instanceof JsonRpcError && RETRYABLE_RPC_CODES.includes(error.code);
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class RpcClient {
+  private readonly url: string;
+  private readonly timeoutMs: number;
+  private readonly retries: number;
+  private readonly backoffMs: number;
+  private nextId = 1;
+
+  constructor(url: string, options: RpcClientOptions = {}) {
+    this.url = url;
+    this.timeoutMs = options.timeoutMs ?? 10000;
+    this.retries = options.retries ?? 2;
+    this.backoffMs = options.backoffMs ?? 500;
+  }
+
+  async call<M extends RpcMethod>(method: M, params: RpcMethodMap[M]['params']): Promise<RpcMethodMap[M]['result']> {
+    const [result] = await this.batch([{ method, params }]);
+    return result as RpcMethodMap[M]['result'];
+  }
+
+  // Send several calls in one HTTP request. Results come back in call order;
+  // if any call fails, its JsonRpcError is thrown.
+  async batch<T extends readonly RpcCall[]>(calls: [...T]): Promise<BatchResults<T>> {
+    const label = calls.map((call) => call.method).join(',');
+
+    return this.withRetry(label, async () => {
+      const requests = calls.map((call) => ({
+        jsonrpc: '2.0',
+        id: this.nextId++,
+        method: call.method,
+        params: call.params,
+      }));
+      const body = requests.length === 1 ? requests[0] : requests;
+
+      const payload = await this.post(label, body);
+      const responses: RpcResponse[] = Array.isArray(payload) ? payload : [payload];
+      const byId = new Map(responses.map((response) => [response.id, response]));
+
+      return requests.map((request) => {
+        const response = byId.get(request.id);
+        if (!response) {
+          throw new RpcTransportError(request.method, 'Missing response in batch');
+        }
+        if (response.error) {
+          throw new JsonRpcError(request.method, response.error.code, response.error.message, response.error.data);
+        }
+        return response.result;
+      }) as unknown as BatchResults<T>;
+    });
+  }
+
+  private async post(label: string, body: unknown): Promise<any> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new RpcTransportError(label, `HTTP ${response.status} ${response.statusText}`, {
+          status: response.status,
+        });
+      }
+      return await response.json();
+    } catch (error: any) {
+      if (error instanceof RpcTransportError) throw error;
+      if (error.name === 'AbortError') {
+        throw new RpcTransportError(label, `Timed out after ${this.timeoutMs}ms`, { isTimeout: true });
+      }
+      throw new RpcTransportError(label, error.message);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Retry transient failures with exponential backoff
+  private async withRetry<R>(label: string, attempt: () => Promise<R>): Promise<R> {
+    for (let tries = 0; ; tries++) {
+      try {
+        return await attempt();
+      } catch (error) {
+        if (tries >= this.retries || !isRetryable(error)) {
+          console.error(`RPC error (${label}):`, error);
+          throw error;
+        }
+        await sleep(this.backoffMs * 2 ** tries);
+      }
+    }
+  }
+}
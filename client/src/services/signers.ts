@@ -0,0 +1,172 @@
+import { ethers } from 'ethers';
+import { NetworkConfig, WalletDetail, WalletInfo } from '../types';
+import { NATIVE_CURRENCY } from '../config/networks';
+
+// Signer backends behind web3Service: an injected browser wallet (EIP-1193),
+// or a burner wallet for local development that needs no extension.
+
+export type SignerEvent = 'accountsChanged' | 'chainChanged';
+export type SignerListener = (...args: any[]) => void;
+
+export interface SignerBackend {
+  readonly info: WalletInfo;
+  // Accounts already authorized, without prompting the user
+  getAccounts(): Promise<string[]>;
+  // Ask the user for access to their accounts
+  requestAccounts(): Promise<string[]>;
+  getChainId(): Promise<string>;
+  getProvider(): ethers.Provider;
+  getSigner(): Promise<ethers.Signer>;
+  // Make sure the backend is on `network`, prompting the user if needed
+  switchNetwork(network: NetworkConfig): Promise<void>;
+  on(event: SignerEvent, listener: SignerListener): void;
+  removeListener(event: SignerEvent, listener: SignerListener): void;
+}
+
+// A browser wallet extension, discovered through EIP-6963 or window.ethereum
+export class InjectedSigner implements SignerBackend {
+  readonly info: WalletInfo;
+  private readonly wallet: WalletDetail;
+  private provider: ethers.BrowserProvider | null = null;
+
+  constructor(wallet: WalletDetail) {
+    this.wallet = wallet;
+    this.info = wallet.info;
+  }
+
+  async getAccounts(): Promise<string[]> {
+    return this.wallet.provider.request({ method: 'eth_accounts' });
+  }
+
+  async requestAccounts(): Promise<string[]> {
+    return this.wallet.provider.request({ method: 'eth_requestAccounts' });
+  }
+
+  async getChainId(): Promise<string> {
+    return this.wallet.provider.request({ method: 'eth_chainId' });
+  }
+
+  getProvider(): ethers.BrowserProvider {
+    if (!this.provider) {
+      this.provider = new ethers.BrowserProvider(this.wallet.provider);
+    }
+    return this.provider;
+  }
+
+  async getSigner(): Promise<ethers.Signer> {
+    return this.getProvider().getSigner();
+  }
+
+  async switchNetwork(network: NetworkConfig): Promise<void> {
+    const ethereum = this.wallet.provider;
+
+    try {
+      await ethereum.request({
+        method: 'wallet_switchEthereumChain',
+        params: [{ chainId: network.chainIdHex }],
+      });
+    } catch (switchError: any) {
+      // This error code indicates that the chain has not been added to the wallet
+      if (switchError.code === 4902) {
+        try {
+          await ethereum.request({
+            method: 'wallet_addEthereumChain',
+            params: [
+              {
+                chainId: network.chainIdHex,
+                chainName: network.name,
+                nativeCurrency: NATIVE_CURRENCY,
+                rpcUrls: [network.rpcUrl],
+                blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined,
+                iconUrls: ['https://shardeum.org/favicon.ico'],
+              },
+            ],
+          });
+        } catch (addError: any) {
+          throw new Error(`Failed to add ${network.name}: ${addError.message}`);
+        }
+      } else {
+        throw new Error(`Failed to switch to ${network.name}: ${switchError.message}`);
+      }
+    }
+  }
+
+  on(event: SignerEvent, listener: SignerListener): void {
+    this.wallet.provider.on?.(event, listener);
+  }
+
+  removeListener(event: SignerEvent, listener: SignerListener): void {
+    this.wallet.provider.removeListener?.(event, listener);
+  }
+}
+
+const BURNER_KEY_STORAGE_KEY = 'shm-tip-jar.burner-key';
+
+export const BURNER_WALLET_INFO: WalletInfo = {
+  uuid: 'burner',
+  name: 'Burner Wallet (dev)',
+  icon: '',
+  rdns: 'burner',
+};
+
+// The burner wallet keeps its private key in localStorage, so it is opt-in
+// and never offered on mainnet
+export const isBurnerWalletEnabled = (network: NetworkConfig): boolean =>
+  process.env.REACT_APP_ENABLE_BURNER_WALLET === 'true' && network.isTestnet;
+
+// A throwaway private key kept in browser storage that signs locally and sends
+// straight to the configured RPC. For local nodes and demos only.
+export class BurnerSigner implements SignerBackend {
+  readonly info = BURNER_WALLET_INFO;
+  private readonly network: NetworkConfig;
+  private readonly provider: ethers.JsonRpcProvider;
+  private readonly wallet: ethers.Wallet;
+
+  constructor(network: NetworkConfig) {
+    if (!isBurnerWalletEnabled(network)) {
+      throw new Error(`The burner wallet is not available on ${network.name}`);
+    }
+
+    this.network = network;
+    this.provider = new ethers.JsonRpcProvider(network.rpcUrl, network.chainId, { staticNetwork: true });
+
+    let privateKey = localStorage.getItem(BURNER_KEY_STORAGE_KEY);
+    if (!privateKey) {
+      privateKey = ethers.Wallet.createRandom().privateKey;
+      localStorage.setItem(BURNER_KEY_STORAGE_KEY, privateKey);
+    }
+    this.wallet = new ethers.Wallet(privateKey, this.provider);
+  }
+
+  async getAccounts(): Promise<string[]> {
+    return [this.wallet.address];
+  }
+
+  async requestAccounts(): Promise<string[]> {
+    return [this.wallet.address];
+  }
+
+  async getChainId(): Promise<string> {
+    return this.network.chainIdHex;
+  }
+
+  getProvider(): ethers.JsonRpcProvider {
+    return this.provider;
+  }
+
+  async getSigner(): Promise<ethers.Signer> {
+    return this.wallet;
+  }
+
+  // The burner wallet only ever talks to the configured network
+  async switchNetwork(network: NetworkConfig): Promise<void> {
+    if (network.chainId !== this.network.chainId) {
+      throw new Error(`The burner wallet only supports ${this.network.name}`);
+    }
+  }
+
+  // The account and chain never change, so there is nothing to listen for
+  on(): void {}
+
+  removeListener(): void {}
+}
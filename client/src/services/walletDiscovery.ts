@@ -0,0 +1,46 @@
+import { WalletDetail, WalletInfo } from '../types';
+
+// EIP-6963 multi injected provider discovery. Each wallet extension announces
+// itself with an `eip6963:announceProvider` event instead of racing the others
+// for `window.ethereum`.
+
+interface AnnounceProviderEvent extends Event {
+  detail: WalletDetail;
+}
+
+// Stands in for wallets that only inject `window.ethereum`
+const LEGACY_WALLET_INFO: WalletInfo = {
+  uuid: 'injected',
+  name: 'Browser Wallet',
+  icon: '',
+  rdns: 'injected',
+};
+
+const announcedWallets = new Map<string, WalletDetail>();
+
+// Wallets found so far, with `window.ethereum` added if no announced wallet provides it
+export const getWallets = (): WalletDetail[] => {
+  const wallets = Array.from(announcedWallets.values());
+  if (window.ethereum && !wallets.some((wallet) => wallet.provider === window.ethereum)) {
+    wallets.push({ info: LEGACY_WALLET_INFO, provider: window.ethereum });
+  }
+  return wallets;
+};
+
+// Ask installed wallets to announce themselves and report the list whenever it
+// changes. Returns a function that stops listening.
+export const watchWallets = (onChange: (wallets: WalletDetail[]) => void): (() => void) => {
+  const handleAnnounce = (event: Event) => {
+    const { info, provider } = (event as AnnounceProviderEvent).detail;
+    if (!info?.uuid || !provider) return;
+
+    announcedWallets.set(info.uuid, { info, provider });
+    onChange(getWallets());
+  };
+
+  window.addEventListener('eip6963:announceProvider', handleAnnounce);
+  window.dispatchEvent(new Event('eip6963:requestProvider'));
+  onChange(getWallets());
+
+  return () => window.removeEventListener('eip6963:announceProvider', handleAnnounce);
+};
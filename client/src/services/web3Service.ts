@@ -1,5 +1,29 @@
 import { ethers } from 'ethers';
-import { WalletState } from '../types';
+import {
+  ConfirmationProgress,
+  NetworkConfig,
+  PayoutSplit,
+  RpcTransactionRequest,
+  TransactionFees,
+  TransactionReceipt,
+  WalletInfo,
+  WalletState,
+} from '../types';
+import { activeNetwork } from '../config/networks';
+import tipJarAbi from '../config/tipJarAbi.json';
+import pledgeVaultAbi from '../config/pledgeVaultAbi.json';
+import erc20Abi from '../config/erc20Abi.json';
+import { RpcClient } from './rpcClient';
+import { SignerBackend, SignerEvent, SignerListener } from './signers';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const WALLET_STORAGE_KEY = 'shm-tip-jar.wallet';
+
+// ABIs generated from contracts/ (npm run compile:contracts in server/)
+const tipJarInterface = new ethers.Interface(tipJarAbi);
+const pledgeVaultInterface = new ethers.Interface(pledgeVaultAbi);
+const erc20Interface = new ethers.Interface(erc20Abi);
 
 declare global {
   interface Window {
@@ -8,128 +32,147 @@ declare global {
 }
 
 class ShardeumAPI {
+  private network: NetworkConfig;
   private rpcUrl: string;
-  private provider: ethers.BrowserProvider | null;
+  private rpc: RpcClient;
   private signer: ethers.Signer | null;
-  private readonly SHARDEUM_CHAIN_ID = '0x1f93'; // 8083 in hex
+  // The injected wallet or burner wallet the user picked
+  private backend: SignerBackend | null;
+  // Wallet event subscriptions, re-attached when the user picks another wallet
+  private backendListeners: Array<{ event: SignerEvent; listener: SignerListener }>;
+  private walletChangeListeners: Set<() => void>;
+
+  constructor(network: NetworkConfig = activeNetwork) {
+    this.network = network;
+    this.rpcUrl = network.rpcUrl;
+    this.rpc = new RpcClient(network.rpcUrl);
+    this.signer = null;
+    this.backend = null;
+    this.backendListeners = [];
+    this.walletChangeListeners = new Set();
+  }
+
+  // Network the app is configured to use
+  getNetwork(): NetworkConfig {
+    return this.network;
+  }
+
+  // Check if a wallet has been selected
+  hasWallet(): boolean {
+    return this.backend !== null;
+  }
+
+  // Wallet that calls are sent through
+  getWallet(): WalletInfo | null {
+    return this.backend ? this.backend.info : null;
+  }
+
+  // rdns of the wallet used last time, to reselect it on the next visit
+  getLastWalletRdns(): string | null {
+    return localStorage.getItem(WALLET_STORAGE_KEY);
+  }
+
+  // Send all wallet calls through this signer backend from now on
+  selectWallet(backend: SignerBackend): void {
+    if (this.backend?.info.uuid === backend.info.uuid) return;
 
-  constructor() {
-    this.rpcUrl = 'https://api-testnet.shardeum.org';
-    this.provider = null;
+    const previous = this.backend;
+    this.backendListeners.forEach(({ event, listener }) => {
+      previous?.removeListener(event, listener);
+      backend.on(event, listener);
+    });
+
+    this.backend = backend;
     this.signer = null;
+    localStorage.setItem(WALLET_STORAGE_KEY, backend.info.rdns);
+    this.walletChangeListeners.forEach((listener) => listener());
   }
 
-  // Check if MetaMask is installed
-  isMetaMaskInstalled(): boolean {
-    return typeof window.ethereum !== 'undefined';
+  // Called whenever a different wallet is selected. Returns an unsubscribe function.
+  onWalletChanged(callback: () => void): () => void {
+    this.walletChangeListeners.add(callback);
+    return () => {
+      this.walletChangeListeners.delete(callback);
+    };
   }
 
-  // Connect to MetaMask wallet
-  async connectWallet(): Promise<WalletState> {
-    if (!this.isMetaMaskInstalled()) {
-      throw new Error('MetaMask is not installed');
+  private requireWallet(): SignerBackend {
+    if (!this.backend) {
+      throw new Error('No wallet selected');
     }
+    return this.backend;
+  }
+
+  // Accounts the selected wallet has already authorized (no prompt)
+  async getWalletAccounts(): Promise<string[]> {
+    return this.requireWallet().getAccounts();
+  }
+
+  // Chain the selected wallet is on
+  async getWalletChainId(): Promise<string> {
+    return this.requireWallet().getChainId();
+  }
+
+  // Connect to the selected wallet
+  async connectWallet(): Promise<WalletState> {
+    const backend = this.requireWallet();
 
     try {
       // Request account access
-      const accounts = await window.ethereum.request({
-        method: 'eth_requestAccounts',
-      });
+      const accounts = await backend.requestAccounts();
 
       if (accounts.length === 0) {
         throw new Error('No accounts found');
       }
 
       const address = accounts[0];
-      const chainId = await window.ethereum.request({
-        method: 'eth_chainId',
-      });
+      const chainId = await backend.getChainId();
 
-      // Initialize provider and signer for transactions
-      if (!this.provider) {
-        this.provider = new ethers.BrowserProvider(window.ethereum);
-      }
-      
       // Initialize signer for transactions
-      if (!this.signer) {
-        this.signer = await this.provider.getSigner();
-      }
+      await this.ensureSigner();
 
       // Get balance (already formatted in ether)
       const balance = await this.getBalance(address);
+      const tokenBalances = await this.getTokenBalances(address);
 
       return {
         isConnected: true,
         address,
         balance,
         chainId,
+        tokenBalances,
       };
     } catch (error: any) {
       throw new Error(`Failed to connect wallet: ${error.message}`);
     }
   }
 
-  // Switch to Shardeum network
+  // Switch to the configured Shardeum network
   async switchToShardeum(): Promise<void> {
-    if (!window.ethereum) {
-      throw new Error('MetaMask is not installed');
-    }
+    await this.requireWallet().switchNetwork(this.network);
+  }
 
-    try {
-      await window.ethereum.request({
-        method: 'wallet_switchEthereumChain',
-        params: [{ chainId: this.SHARDEUM_CHAIN_ID }],
-      });
-    } catch (switchError: any) {
-      // This error code indicates that the chain has not been added to MetaMask
-      if (switchError.code === 4902) {
-        try {
-          await window.ethereum.request({
-            method: 'wallet_addEthereumChain',
-            params: [
-              {
-                chainId: this.SHARDEUM_CHAIN_ID,
-                chainName: 'Shardeum Testnet',
-                nativeCurrency: {
-                  name: 'Shardeum',
-                  symbol: 'SHM',
-                  decimals: 18,
-                },
-                rpcUrls: [this.rpcUrl],
-                blockExplorerUrls: ['https://explorer-testnet.shardeum.org'],
-                iconUrls: ['https://shardeum.org/favicon.ico'],
-              },
-            ],
-          });
-        } catch (addError: any) {
-          throw new Error(`Failed to add Shardeum network: ${addError.message}`);
-        }
-      } else {
-        throw new Error(`Failed to switch to Shardeum network: ${switchError.message}`);
-      }
-    }
+  // Subscribe to a wallet event. The subscription follows the user to another
+  // wallet if they switch. Returns an unsubscribe function.
+  private onWalletEvent(event: SignerEvent, listener: SignerListener): () => void {
+    const subscription = { event, listener };
+    this.backendListeners.push(subscription);
+    this.backend?.on(event, listener);
+
+    return () => {
+      this.backendListeners = this.backendListeners.filter((entry) => entry !== subscription);
+      this.backend?.removeListener(event, listener);
+    };
   }
 
   // Listen for account changes
-  onAccountsChanged(callback: (accounts: string[]) => void): void {
-    if (window.ethereum) {
-      window.ethereum.on('accountsChanged', callback);
-    }
+  onAccountsChanged(callback: (accounts: string[]) => void): () => void {
+    return this.onWalletEvent('accountsChanged', callback);
   }
 
   // Listen for chain changes
-  onChainChanged(callback: (chainId: string) => void): void {
-    if (window.ethereum) {
-      window.ethereum.on('chainChanged', callback);
-    }
-  }
-
-  // Remove event listeners
-  removeAllListeners(): void {
-    if (window.ethereum) {
-      window.ethereum.removeAllListeners('accountsChanged');
-      window.ethereum.removeAllListeners('chainChanged');
-    }
+  onChainChanged(callback: (chainId: string) => void): () => void {
+    return this.onWalletEvent('chainChanged', callback);
   }
 
   // Format address for display
@@ -146,8 +189,8 @@ class ShardeumAPI {
   // Verify network configuration
   async verifyNetwork(): Promise<boolean> {
     try {
-      const chainId = await window.ethereum.request({ method: 'eth_chainId' });
-      return chainId === this.SHARDEUM_CHAIN_ID;
+      const chainId = await this.getWalletChainId();
+      return chainId === this.network.chainIdHex;
     } catch {
       return false;
     }
@@ -156,34 +199,234 @@ class ShardeumAPI {
   // Check if wallet is properly connected
   async isWalletConnected(): Promise<boolean> {
     try {
-      if (!window.ethereum) return false;
-      
-      const accounts = await window.ethereum.request({ method: 'eth_accounts' });
+      if (!this.backend) return false;
+
+      const accounts = await this.getWalletAccounts();
       return accounts.length > 0;
     } catch {
       return false;
     }
   }
 
-  // Send SHM tip (alias for sendTransaction to maintain compatibility)
-  async sendTip(toAddress: string, amount: string): Promise<string> {
-    return this.sendTransaction(toAddress, amount);
+  // Send SHM tip, optionally carrying the message as UTF-8 calldata
+  async sendTip(toAddress: string, amount: string, message?: string, fees: TransactionFees | null = null): Promise<string> {
+    const data = message ? this.encodeTipMessage(message) : undefined;
+    return this.sendTransaction(toAddress, amount, fees, data);
+  }
+
+  // Encode a tip message as calldata
+  encodeTipMessage(message: string): string {
+    return ethers.hexlify(ethers.toUtf8Bytes(message));
+  }
+
+  // Check if a TipJar contract is deployed on the configured network
+  hasTipJar(): boolean {
+    return this.network.tipJarAddress !== null;
+  }
+
+  // Encode a TipJar tip(creator, creatorId, message) call
+  encodeTipJarCall(creatorAddress: string, creatorId: string, message = ''): string {
+    return tipJarInterface.encodeFunctionData('tip', [creatorAddress, creatorId, message]);
+  }
+
+  // Send SHM tip through the TipJar contract, which forwards it to the creator and
+  // emits a Tip event carrying the creator ID and message
+  async sendTipJarTip(
+    creatorAddress: string,
+    creatorId: string,
+    amount: string,
+    message?: string,
+    fees: TransactionFees | null = null
+  ): Promise<string> {
+    if (!this.network.tipJarAddress) {
+      throw new Error(`No TipJar contract is configured for ${this.network.name}`);
+    }
+    const data = this.encodeTipJarCall(creatorAddress, creatorId, message);
+    return this.sendTransaction(this.network.tipJarAddress, amount, fees, data);
+  }
+
+  // Encode a TipJar tipSplit(recipients, sharesBps, creatorId, message) call
+  encodeTipJarSplitCall(splits: PayoutSplit[], creatorId: string, message = ''): string {
+    return tipJarInterface.encodeFunctionData('tipSplit', [
+      splits.map((split) => split.address),
+      splits.map((split) => split.shareBps),
+      creatorId,
+      message,
+    ]);
+  }
+
+  // Send SHM tip through the TipJar contract, which splits it between the
+  // creator's payout addresses and emits a Tip event for each part
+  async sendTipJarSplitTip(
+    splits: PayoutSplit[],
+    creatorId: string,
+    amount: string,
+    message?: string,
+    fees: TransactionFees | null = null
+  ): Promise<string> {
+    if (!this.network.tipJarAddress) {
+      throw new Error(`No TipJar contract is configured for ${this.network.name}`);
+    }
+    const data = this.encodeTipJarSplitCall(splits, creatorId, message);
+    return this.sendTransaction(this.network.tipJarAddress, amount, fees, data);
+  }
+
+  // Balances of the configured ERC-20 tokens in their smallest unit, by token
+  // address. A token whose balance cannot be read is left out.
+  async getTokenBalances(owner: string): Promise<Record<string, string>> {
+    const balances: Record<string, string> = {};
+
+    await Promise.all(
+      this.network.tokens.map(async (token) => {
+        try {
+          balances[token.address] = (await this.getTokenBalance(token.address, owner)).toString();
+        } catch (error) {
+          console.warn(`Could not read the ${token.symbol} balance:`, error);
+        }
+      })
+    );
+    return balances;
+  }
+
+  async getTokenBalance(tokenAddress: string, owner: string): Promise<bigint> {
+    const result = await this.rpc.call('eth_call', [
+      { to: tokenAddress, data: erc20Interface.encodeFunctionData('balanceOf', [owner]) },
+      'latest',
+    ]);
+    return BigInt(result);
+  }
+
+  // How much of a token `spender` may move for `owner`
+  async getTokenAllowance(tokenAddress: string, owner: string, spender: string): Promise<bigint> {
+    const result = await this.rpc.call('eth_call', [
+      { to: tokenAddress, data: erc20Interface.encodeFunctionData('allowance', [owner, spender]) },
+      'latest',
+    ]);
+    return BigInt(result);
+  }
+
+  // Encode an ERC-20 transfer(to, amount) call
+  encodeTokenTransfer(to: string, amountWei: bigint): string {
+    return erc20Interface.encodeFunctionData('transfer', [to, amountWei]);
+  }
+
+  // Encode an ERC-20 approve(spender, amount) call
+  encodeTokenApproval(spender: string, amountWei: bigint): string {
+    return erc20Interface.encodeFunctionData('approve', [spender, amountWei]);
+  }
+
+  // Encode a TipJar tipToken(token, recipients, sharesBps, amount, creatorId, message) call.
+  // A single recipient with a 100% share tips one creator.
+  encodeTipJarTokenCall(
+    tokenAddress: string,
+    splits: PayoutSplit[],
+    amountWei: bigint,
+    creatorId: string,
+    message = ''
+  ): string {
+    return tipJarInterface.encodeFunctionData('tipToken', [
+      tokenAddress,
+      splits.map((split) => split.address),
+      splits.map((split) => split.shareBps),
+      amountWei,
+      creatorId,
+      message,
+    ]);
+  }
+
+  // Send an ERC-20 tip straight to the creator with transfer(); no approval needed
+  async sendTokenTip(
+    tokenAddress: string,
+    toAddress: string,
+    amountWei: bigint,
+    fees: TransactionFees | null = null
+  ): Promise<string> {
+    return this.sendTransaction(tokenAddress, '0', fees, this.encodeTokenTransfer(toAddress, amountWei));
+  }
+
+  // Allow `spender` (the TipJar) to move `amountWei` of a token for the user
+  async approveToken(
+    tokenAddress: string,
+    spender: string,
+    amountWei: bigint,
+    fees: TransactionFees | null = null
+  ): Promise<string> {
+    return this.sendTransaction(tokenAddress, '0', fees, this.encodeTokenApproval(spender, amountWei));
+  }
+
+  // Send an ERC-20 tip through the TipJar, which moves the approved amount to the
+  // creator's payout addresses and emits a TokenTip event for each part
+  async sendTipJarTokenTip(
+    tokenAddress: string,
+    splits: PayoutSplit[],
+    amountWei: bigint,
+    creatorId: string,
+    message?: string,
+    fees: TransactionFees | null = null
+  ): Promise<string> {
+    if (!this.network.tipJarAddress) {
+      throw new Error(`No TipJar contract is configured for ${this.network.name}`);
+    }
+    const data = this.encodeTipJarTokenCall(tokenAddress, splits, amountWei, creatorId, message);
+    return this.sendTransaction(this.network.tipJarAddress, '0', fees, data);
+  }
+
+  // Check if a PledgeVault contract is deployed on the configured network
+  hasPledgeVault(): boolean {
+    return this.network.pledgeVaultAddress !== null;
+  }
+
+  // Call a PledgeVault function, sending `amount` SHM with it
+  private async sendPledgeVaultCall(method: string, args: unknown[], amount = '0'): Promise<string> {
+    if (!this.network.pledgeVaultAddress) {
+      throw new Error(`No PledgeVault contract is configured for ${this.network.name}`);
+    }
+    const data = pledgeVaultInterface.encodeFunctionData(method, args);
+    return this.sendTransaction(this.network.pledgeVaultAddress, amount, null, data);
+  }
+
+  // Pledge `amountPerPeriod` SHM a month to a creator, depositing `deposit` SHM
+  // to pay for it. The first month is paid as soon as the pledge is recorded.
+  async createPledge(creatorAddress: string, creatorId: string, amountPerPeriod: string, deposit: string): Promise<string> {
+    return this.sendPledgeVaultCall(
+      'createPledge',
+      [creatorAddress, creatorId, ethers.parseEther(amountPerPeriod)],
+      deposit
+    );
+  }
+
+  // Top up a pledge's balance
+  async fundPledge(chainPledgeId: string, amount: string): Promise<string> {
+    return this.sendPledgeVaultCall('fund', [chainPledgeId], amount);
   }
 
+  async pausePledge(chainPledgeId: string): Promise<string> {
+    return this.sendPledgeVaultCall('pause', [chainPledgeId]);
+  }
+
+  async resumePledge(chainPledgeId: string): Promise<string> {
+    return this.sendPledgeVaultCall('resume', [chainPledgeId]);
+  }
+
+  // Cancel a pledge; the contract refunds its remaining balance
+  async cancelPledge(chainPledgeId: string): Promise<string> {
+    return this.sendPledgeVaultCall('cancel', [chainPledgeId]);
+  }
+
+
   // Initialize connection to Shardeum network
   async initialize() {
     try {
-      if (typeof window.ethereum !== 'undefined') {
-        this.provider = new ethers.BrowserProvider(window.ethereum);
+      if (this.backend) {
         // Request accounts if not already connected
-        const accounts = await window.ethereum.request({ method: 'eth_accounts' });
+        const accounts = await this.getWalletAccounts();
         if (accounts.length === 0) {
-          await this.provider.send("eth_requestAccounts", []);
+          await this.backend.requestAccounts();
         }
-        this.signer = await this.provider.getSigner();
+        this.signer = await this.backend.getSigner();
         return true;
       } else {
-        throw new Error('MetaMask or compatible wallet not found');
+        throw new Error('No wallet selected');
       }
     } catch (error) {
       console.error('Failed to initialize Shardeum connection:', error);
@@ -192,188 +435,69 @@ class ShardeumAPI {
   }
 
   // Get current chain ID
-  async getChainId() {
-    try {
-      const response = await fetch(this.rpcUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          method: 'eth_chainId',
-          id: 1,
-          jsonrpc: '2.0'
-        })
-      });
-      const data = await response.json();
-      return data.result;
-    } catch (error) {
-      console.error('Error getting chain ID:', error);
-      throw error;
-    }
+  async getChainId(): Promise<string> {
+    return this.rpc.call('eth_chainId', []);
   }
 
   // Get current gas price
-  async getGasPrice() {
-    try {
-      const response = await fetch(this.rpcUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          method: 'eth_gasPrice',
-          id: 1,
-          jsonrpc: '2.0'
-        })
-      });
-      const data = await response.json();
-      return data.result;
-    } catch (error) {
-      console.error('Error getting gas price:', error);
-      throw error;
-    }
+  async getGasPrice(): Promise<string> {
+    return this.rpc.call('eth_gasPrice', []);
   }
 
   // Get account balance (returns wei as string) - mimics original Web3 behavior
   async getBalance(address: string): Promise<string> {
     try {
-      // Always use MetaMask provider to get balance from currently connected network
-      if (!this.provider && window.ethereum) {
-        this.provider = new ethers.BrowserProvider(window.ethereum);
-      }
-      
-      if (this.provider) {
-        const balance = await this.provider.getBalance(address);
-        return ethers.formatEther(balance); // Return formatted balance like original
-      }
-      
-      throw new Error('No provider available');
+      // Always use the wallet's provider to get balance from currently connected network
+      const balance = await this.requireWallet().getProvider().getBalance(address);
+      return ethers.formatEther(balance); // Return formatted balance like original
     } catch (error) {
       console.error('Error getting balance:', error);
       throw error;
     }
   }
 
-  // Get balance specifically from Shardeum testnet RPC
+  // Get balance specifically from the configured Shardeum RPC (wei as hex string)
   async getShardeumBalance(address: string): Promise<string> {
-    try {
-      const response = await fetch(this.rpcUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          method: 'eth_getBalance',
-          params: [address, 'latest'],
-          id: 1,
-          jsonrpc: '2.0'
-        })
-      });
-      const data = await response.json();
-      return data.result;
-    } catch (error) {
-      console.error('Error getting Shardeum balance:', error);
-      throw error;
-    }
+    return this.rpc.call('eth_getBalance', [address, 'latest']);
   }
 
   // Get transaction count (nonce)
-  async getTransactionCount(address: string) {
-    try {
-      const response = await fetch(this.rpcUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          method: 'eth_getTransactionCount',
-          params: [address, 'latest'],
-          id: 1,
-          jsonrpc: '2.0'
-        })
-      });
-      const data = await response.json();
-      return data.result;
-    } catch (error) {
-      console.error('Error getting transaction count:', error);
-      throw error;
-    }
+  async getTransactionCount(address: string): Promise<string> {
+    return this.rpc.call('eth_getTransactionCount', [address, 'latest']);
   }
 
   // Estimate gas for transaction
-  async estimateGas(transactionObject: any) {
-    try {
-      const response = await fetch(this.rpcUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          method: 'eth_estimateGas',
-          params: [transactionObject, 'latest'],
-          id: 1,
-          jsonrpc: '2.0'
-        })
-      });
-      const data = await response.json();
-      return data.result;
-    } catch (error) {
-      console.error('Error estimating gas:', error);
-      throw error;
-    }
+  async estimateGas(transactionObject: RpcTransactionRequest): Promise<string> {
+    return this.rpc.call('eth_estimateGas', [transactionObject, 'latest']);
   }
 
-  // Send SHM transaction
-  async sendTransaction(to: string, amount: string, gasLimit: number | null = null) {
+  // Send SHM transaction. Without `fees`, the gas limit is estimated and the
+  // legacy eth_gasPrice is used
+  async sendTransaction(to: string, amount: string, fees: TransactionFees | null = null, data?: string) {
     try {
       // Ensure provider and signer are initialized
-      if (!this.provider && window.ethereum) {
-        this.provider = new ethers.BrowserProvider(window.ethereum);
-      }
-      
-      if (!this.signer && this.provider) {
-        this.signer = await this.provider.getSigner();
-      }
-      
-      if (!this.signer) {
-        throw new Error('Wallet not connected. Please connect your wallet first.');
-      }
+      const signer = await this.ensureSigner();
 
       // Verify we're on the correct network
       const isCorrectNetwork = await this.verifyNetwork();
       if (!isCorrectNetwork) {
-        throw new Error('Please switch to Shardeum Testnet before sending transactions');
+        throw new Error(`Please switch to ${this.network.name} before sending transactions`);
       }
 
-      const fromAddress = await this.signer.getAddress();
       const value = ethers.parseEther(amount.toString());
-      
-      // Get current gas price
-      const gasPrice = await this.getGasPrice();
-      
-      const transactionObject: any = {
-        from: fromAddress,
-        to: to,
-        value: '0x' + value.toString(16),
-        gasPrice: gasPrice
-      };
 
-      // Estimate gas if not provided
-      let finalGasLimit: string;
-      if (!gasLimit) {
-        const estimatedGas = await this.estimateGas(transactionObject);
-        finalGasLimit = estimatedGas;
-      } else {
-        finalGasLimit = '0x' + gasLimit.toString(16);
-      }
+      // Use the chosen fee tier, or fall back to the legacy gas price
+      const txFees = fees ?? (await this.getLegacyFees(await signer.getAddress(), to, value, data));
 
-      // Send transaction using MetaMask
-      const txResponse = await this.signer.sendTransaction({
+      // Send transaction through the wallet
+      const txResponse = await signer.sendTransaction({
         to: to,
         value: value,
-        gasPrice: gasPrice,
-        gasLimit: finalGasLimit
+        gasLimit: txFees.gasLimit,
+        ...(txFees.maxFeePerGas
+          ? { maxFeePerGas: txFees.maxFeePerGas, maxPriorityFeePerGas: txFees.maxPriorityFeePerGas }
+          : { gasPrice: txFees.gasPrice }),
+        data
       });
 
       return txResponse.hash;
@@ -383,169 +507,153 @@ class ShardeumAPI {
     }
   }
 
+  // Current eth_gasPrice and an estimated gas limit for a transaction
+  private async getLegacyFees(from: string, to: string, value: bigint, data?: string): Promise<TransactionFees> {
+    const gasPrice = await this.getGasPrice();
+
+    const transactionObject: RpcTransactionRequest = {
+      from,
+      to,
+      value: '0x' + value.toString(16),
+      gasPrice,
+    };
+    if (data) {
+      transactionObject.data = data;
+    }
+
+    const gasLimit = await this.estimateGas(transactionObject);
+    return { gasLimit, gasPrice };
+  }
+
   // Get transaction receipt
   async getTransactionReceipt(txHash: string) {
-    try {
-      const response = await fetch(this.rpcUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          method: 'eth_getTransactionReceipt',
-          params: [txHash],
-          id: 1,
-          jsonrpc: '2.0'
-        })
-      });
-      const data = await response.json();
-      return data.result;
-    } catch (error) {
-      console.error('Error getting transaction receipt:', error);
-      throw error;
+    return this.rpc.call('eth_getTransactionReceipt', [txHash]);
+  }
+
+  // Poll until the transaction has `confirmations` blocks on top of it, or has reverted.
+  // Resolves with the receipt; check `receipt.status` for the outcome.
+  async waitForConfirmation(
+    txHash: string,
+    {
+      confirmations = 1,
+      pollIntervalMs = 3000,
+      timeoutMs = 5 * 60 * 1000,
+      onUpdate,
+    }: {
+      confirmations?: number;
+      pollIntervalMs?: number;
+      timeoutMs?: number;
+      onUpdate?: (progress: ConfirmationProgress) => void;
+    } = {}
+  ): Promise<TransactionReceipt> {
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      const [receipt, blockNumber] = await this.rpc.batch([
+        { method: 'eth_getTransactionReceipt', params: [txHash] },
+        { method: 'eth_blockNumber', params: [] },
+      ]);
+      const current = receipt ? parseInt(blockNumber, 16) - parseInt(receipt.blockNumber, 16) + 1 : 0;
+      onUpdate?.({ receipt, confirmations: current });
+
+      if (receipt && (receipt.status === '0x0' || current >= confirmations)) {
+        return receipt;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error('Timed out waiting for the transaction to be mined');
+      }
+      await sleep(pollIntervalMs);
     }
   }
 
   // Get transaction by hash
   async getTransactionByHash(txHash: string) {
-    try {
-      const response = await fetch(this.rpcUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          method: 'eth_getTransactionByHash',
-          params: [txHash],
-          id: 1,
-          jsonrpc: '2.0'
-        })
-      });
-      const data = await response.json();
-      return data.result;
-    } catch (error) {
-      console.error('Error getting transaction:', error);
-      throw error;
-    }
+    return this.rpc.call('eth_getTransactionByHash', [txHash]);
   }
 
   // Get current block number
-  async getBlockNumber() {
-    try {
-      const response = await fetch(this.rpcUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          method: 'eth_blockNumber',
-          id: 1,
-          jsonrpc: '2.0'
-        })
-      });
-      const data = await response.json();
-      return data.result;
-    } catch (error) {
-      console.error('Error getting block number:', error);
-      throw error;
-    }
+  async getBlockNumber(): Promise<string> {
+    return this.rpc.call('eth_blockNumber', []);
   }
 
   // Get network account information (Shardeum specific)
   async getNetworkAccount() {
-    try {
-      const response = await fetch(this.rpcUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          method: 'shardeum_getNetworkAccount',
-          params: [],
-          id: 1,
-          jsonrpc: '2.0'
-        })
-      });
-      const data = await response.json();
-      return data.result;
-    } catch (error) {
-      console.error('Error getting network account:', error);
-      throw error;
-    }
+    return this.rpc.call('shardeum_getNetworkAccount', []);
   }
 
   // Get node list (Shardeum specific)
   async getNodeList(page = 1, limit = 100) {
-    try {
-      const response = await fetch(this.rpcUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          method: 'shardeum_getNodeList',
-          params: [{ page, limit }],
-          id: 1,
-          jsonrpc: '2.0'
-        })
-      });
-      const data = await response.json();
-      return data.result;
-    } catch (error) {
-      console.error('Error getting node list:', error);
-      throw error;
-    }
+    return this.rpc.call('shardeum_getNodeList', [{ page, limit }]);
   }
 
-  // Format SHM amount from wei
-  formatSHM(weiAmount: string) {
-    return ethers.formatEther(weiAmount);
+  // Lazily initialize the signer for an already-connected wallet
+  private async ensureSigner(): Promise<ethers.Signer> {
+    if (!this.backend) {
+      throw new Error('Wallet not connected. Please connect your wallet first.');
+    }
+
+    if (!this.signer) {
+      this.signer = await this.backend.getSigner();
+    }
+    return this.signer;
   }
 
-  // Parse SHM amount to wei
-  parseSHM(shmAmount: string) {
-    return ethers.parseEther(shmAmount.toString());
+  // Sign a message with personal_sign (EIP-191)
+  async signMessage(message: string): Promise<string> {
+    const signer = await this.ensureSigner();
+    return await signer.signMessage(message);
   }
 
   // Get current wallet address
   async getCurrentAddress() {
-    if (!this.signer) {
-      throw new Error('Wallet not connected');
-    }
-    return await this.signer.getAddress();
+    const signer = await this.ensureSigner();
+    return await signer.getAddress();
   }
 
   // Debug method to check network and balance info
   async getDebugInfo(address: string) {
     try {
-      const currentChainId = await window.ethereum.request({ method: 'eth_chainId' });
-      const isCorrectNetwork = currentChainId === this.SHARDEUM_CHAIN_ID;
+      const currentChainId = await this.getWalletChainId();
+      const isCorrectNetwork = currentChainId === this.network.chainIdHex;
       
-      let metamaskBalance = '0';
+      let walletBalance = '0';
       let shardeumBalance = '0';
       
       try {
-        if (this.provider) {
-          const balance = await this.provider.getBalance(address);
-          metamaskBalance = ethers.formatEther(balance);
+        if (this.backend) {
+          const balance = await this.backend.getProvider().getBalance(address);
+          walletBalance = ethers.formatEther(balance);
         }
       } catch (e) {
-        console.warn('Could not get MetaMask balance:', e);
+        console.warn('Could not get wallet balance:', e);
       }
       
+      let rpcChainId: string | null = null;
+      let rpcBlockNumber: number | null = null;
+
       try {
-        const balance = await this.getShardeumBalance(address);
+        const [chainId, balance, blockNumber] = await this.rpc.batch([
+          { method: 'eth_chainId', params: [] },
+          { method: 'eth_getBalance', params: [address, 'latest'] },
+          { method: 'eth_blockNumber', params: [] },
+        ]);
+        rpcChainId = chainId;
         shardeumBalance = ethers.formatEther(balance);
+        rpcBlockNumber = parseInt(blockNumber, 16);
       } catch (e) {
-        console.warn('Could not get Shardeum balance:', e);
+        console.warn('Could not get Shardeum RPC info:', e);
       }
 
       return {
         address,
         currentChainId,
-        expectedChainId: this.SHARDEUM_CHAIN_ID,
+        expectedChainId: this.network.chainIdHex,
+        rpcChainId,
+        rpcBlockNumber,
+        network: this.network.name,
         isCorrectNetwork,
-        metamaskBalance,
+        wallet: this.backend?.info.name ?? null,
+        walletBalance,
         shardeumBalance,
         rpcUrl: this.rpcUrl
       };
@@ -5,7 +5,109 @@ export interface Creator {
   description: string;
   avatar: string;
   totalTips: string;
+  totalTipsWei: string;
   tipCount: number;
+  activePledgeCount: number;
+  // Distinct addresses with a confirmed tip
+  supporterCount: number;
+  // Lowercase category slugs, e.g. "music" or "open-source"
+  tags: string[];
+  // Addresses that share each tip, empty when everything goes to `address`
+  splits: PayoutSplit[];
+  // Confirmed ERC-20 tips per token; totalTips covers native SHM only
+  tokenTotals: CreatorTokenTotal[];
+  // The active campaign, or one that reached its goal before its deadline
+  campaign: Campaign | null;
+}
+
+export type CreatorSort = 'most_tipped' | 'newest' | 'most_supporters';
+
+// Query for GET /api/creators; `q` searches names and descriptions
+export interface CreatorQuery {
+  q?: string;
+  tag?: string;
+  sort?: CreatorSort;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface CreatorPage {
+  items: Creator[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface CreatorTag {
+  tag: string;
+  creatorCount: number;
+}
+
+// 'reached': the target was covered; 'expired': the deadline passed first
+export type CampaignStatus = 'active' | 'reached' | 'expired';
+
+// A funding goal in SHM that tips can count toward
+export interface Campaign {
+  id: string;
+  creatorId: string;
+  title: string;
+  description: string;
+  target: string;
+  targetWei: string;
+  raised: string;
+  raisedWei: string;
+  tipCount: number;
+  deadline: string;
+  status: CampaignStatus;
+  createdAt: string;
+  // When the campaign was reached or expired
+  endedAt?: string;
+}
+
+export interface CreatorTokenTotal {
+  tokenAddress: string;
+  tokenDecimals: number;
+  total: string;
+  totalWei: string;
+  tipCount: number;
+}
+
+// One recipient of a creator's payout split. Shares are in basis points (1% = 100)
+// and add up to 10000.
+export interface PayoutSplit {
+  address: string;
+  shareBps: number;
+}
+
+// How a split tip was divided
+export interface TransactionSplit extends PayoutSplit {
+  amount: string;
+  amountWei: string;
+}
+
+export type StatsInterval = 'daily' | 'weekly' | 'monthly';
+
+export interface StatsBucket {
+  period: string;
+  totalWei: string;
+  count: number;
+}
+
+export interface TopSupporter {
+  address: string;
+  totalWei: string;
+  count: number;
+}
+
+export interface CreatorStats {
+  creatorId: string;
+  totalTipsWei: string;
+  tipCount: number;
+  uniqueTippers: number;
+  averageTipWei: string;
+  medianTipWei: string;
+  topSupporters: TopSupporter[];
+  buckets: Record<StatsInterval, StatsBucket[]>;
 }
 
 export interface Transaction {
@@ -13,23 +115,174 @@ export interface Transaction {
   fromAddress: string;
   toAddress: string;
   amount: string;
+  amountWei: string;
   txHash: string;
   creatorId?: string;
   timestamp: string;
   status: 'pending' | 'confirmed' | 'failed';
+  source?: 'app' | 'indexer' | 'pledge';
+  message?: string;
+  messageOnChain?: boolean;
+  blockNumber?: number;
+  confirmedAt?: string;
+  failureReason?: string;
+  // Set when the tip was sent through the TipJar or PledgeVault contract
+  contractAddress?: string;
+  // Set when the tip was a pledge payment
+  pledgeId?: string;
+  // Set when the tip was split between several recipients
+  splits?: TransactionSplit[];
+  // Set for ERC-20 tips; amounts are then in the token's smallest unit
+  tokenAddress?: string;
+  tokenDecimals?: number;
+  // Set when the tip counts toward a campaign
+  campaignId?: string;
+  // Network fee the sender paid, once the transaction is mined
+  feeWei?: string;
+}
+
+export type TransactionDirection = 'sent' | 'received';
+
+// Filters of the transaction list endpoints
+export interface TransactionFilters {
+  // Needs an address; 'received' includes split payouts
+  direction?: TransactionDirection;
+  status?: Transaction['status'];
+  creatorId?: string;
+  // ISO timestamps, both inclusive
+  from?: string;
+  to?: string;
+  // Only SHM tips can match a minimum amount
+  minAmountWei?: string;
+}
+
+export interface TransactionQuery extends TransactionFilters {
+  // nextCursor of the previous page
+  cursor?: string;
+  limit?: number;
+}
+
+// Transactions come newest first; nextCursor is null on the last page
+export interface TransactionPage {
+  items: Transaction[];
+  nextCursor: string | null;
+}
+
+export type HistoryExportFormat = 'csv' | 'json';
+
+// Pushed by the server over GET /api/events. 'reset' means events were missed
+// and everything shown should be reloaded.
+export type LiveEvent =
+  | { type: 'connected' }
+  | { type: 'reset' }
+  | { type: 'transaction'; transaction: Transaction }
+  | { type: 'creator'; creator: Creator }
+  | { type: 'creatorRemoved'; creatorId: string };
+
+// Posted by the embeddable widget (/embed/:id) to the page that hosts it. See
+// public/embed.js for the loader that forwards them as DOM events.
+export type EmbedEvent =
+  | { type: 'ready'; creatorId: string }
+  | { type: 'resize'; creatorId: string; height: number }
+  | { type: 'tipSent'; creatorId: string; txHash: string; amountWei: string }
+  | { type: 'tipConfirmed'; creatorId: string; txHash: string; amountWei: string }
+  | { type: 'tipFailed'; creatorId: string; txHash: string | null; error: string };
+
+// 'lapsed': a period is due but the balance cannot cover it
+export type PledgeStatus = 'active' | 'paused' | 'lapsed' | 'cancelled';
+
+// A recurring monthly pledge held by the PledgeVault contract
+export interface Pledge {
+  id: string;
+  contractAddress: string;
+  chainPledgeId: string;
+  supporterAddress: string;
+  creatorId?: string;
+  creatorAddress: string;
+  amountPerPeriod: string;
+  amountPerPeriodWei: string;
+  balance: string;
+  balanceWei: string;
+  nextDueAt: string;
+  status: PledgeStatus;
+  createdTxHash: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Progress of a sent transaction while waiting for its receipt
+export interface ConfirmationProgress {
+  receipt: TransactionReceipt | null;
+  confirmations: number;
 }
 
 export interface NetworkInfo {
+  network: NetworkKey;
+  networkName: string;
   chainId: string;
   blockNumber: number;
   gasPrice: number;
 }
 
+export type NetworkKey = 'mainnet' | 'testnet' | 'local';
+
+export interface NetworkConfig {
+  key: NetworkKey;
+  name: string;
+  chainId: number;
+  chainIdHex: string;
+  rpcUrl: string;
+  explorerUrl: string | null;
+  isTestnet: boolean;
+  // TipJar contract tips can be sent through, if one is deployed
+  tipJarAddress: string | null;
+  // PledgeVault contract holding recurring pledges, if one is deployed
+  pledgeVaultAddress: string | null;
+  // ERC-20 tokens that can be tipped besides SHM
+  tokens: TokenConfig[];
+}
+
+// An ERC-20 token from the network registry. `address` is lowercase.
+export interface TokenConfig {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+}
+
+// Minimal EIP-1193 provider interface implemented by injected wallets
+export interface Eip1193Provider {
+  request(args: { method: string; params?: Array<any> | Record<string, any> }): Promise<any>;
+  on?(event: string, listener: (...args: any[]) => void): void;
+  removeListener?(event: string, listener: (...args: any[]) => void): void;
+}
+
+// Wallet metadata announced through EIP-6963
+export interface WalletInfo {
+  uuid: string;
+  name: string;
+  icon: string;
+  rdns: string;
+}
+
+export interface WalletDetail {
+  info: WalletInfo;
+  provider: Eip1193Provider;
+}
+
 export interface WalletState {
   isConnected: boolean;
   address: string | null;
   balance: string;
   chainId: string | null;
+  // Balances of the configured tokens in their smallest unit, by token address
+  tokenBalances: Record<string, string>;
+}
+
+export interface AuthSession {
+  token: string;
+  address: string;
+  expiresAt: string;
 }
 
 export interface TipFormData {
@@ -42,8 +295,58 @@ export interface ApiResponse<T> {
   error?: string;
 }
 
+export type FeeTierName = 'slow' | 'normal' | 'fast';
+
+// Fee settings for one tier. EIP-1559 tiers set maxFeePerGas and
+// maxPriorityFeePerGas, legacy tiers set gasPrice. Amounts are wei strings.
+export interface FeeTier {
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  estimatedFeeWei: string;
+  maxFeeWei: string;
+}
+
 export interface GasEstimate {
   gasEstimate: number;
+  gasLimit: string;
+  type: 'eip1559' | 'legacy';
+  baseFeePerGas: string | null;
+  tiers: Record<FeeTierName, FeeTier>;
+}
+
+// Gas settings passed to the wallet when sending a transaction. Without a
+// gasLimit the wallet estimates the gas itself.
+export interface TransactionFees {
+  gasLimit?: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+}
+
+export interface RpcTransactionRequest {
+  from?: string;
+  to?: string;
+  value?: string;
+  data?: string;
+  gas?: string;
+  gasPrice?: string;
+}
+
+export interface RpcTransaction {
+  blockHash: string | null;
+  blockNumber: string | null;
+  from: string;
+  gas: string;
+  gasPrice: string;
+  hash: string;
+  input: string;
+  nonce: string;
+  to: string | null;
+  transactionIndex: string | null;
+  value: string;
+  type?: string;
+  chainId?: string;
 }
 
 export interface TransactionReceipt {
@@ -51,7 +354,8 @@ export interface TransactionReceipt {
   blockNumber: string;
   contractAddress: string | null;
   cumulativeGasUsed: string;
-  effectiveGasPrice: string;
+  // Some nodes leave it out
+  effectiveGasPrice?: string;
   from: string;
   gasUsed: string;
   logs: any[];
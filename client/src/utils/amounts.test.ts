@@ -0,0 +1,48 @@
+import {
+  formatShm,
+  formatShmExact,
+  formatTokenAmount,
+  parseShm,
+  parseTokenAmount,
+  tryParseShm,
+} from './amounts';
+
+test('parseShm converts SHM to wei exactly', () => {
+  expect(parseShm('1')).toBe(BigInt('1000000000000000000'));
+  expect(parseShm(' 1.5 ')).toBe(BigInt('1500000000000000000'));
+  expect(parseShm('.5')).toBe(BigInt('500000000000000000'));
+  expect(parseShm('0.000000000000000001')).toBe(BigInt(1));
+});
+
+test('parseShm rejects malformed amounts', () => {
+  ['', 'abc', '-1', '1e18', '1.2.3', '0.0000000000000000001'].forEach((amount) => {
+    expect(() => parseShm(amount)).toThrow();
+    expect(tryParseShm(amount)).toBeNull();
+  });
+});
+
+test('parseTokenAmount uses the token decimals', () => {
+  expect(parseTokenAmount('1.25', 6)).toBe(BigInt(1250000));
+  expect(() => parseTokenAmount('0.0000001', 6)).toThrow();
+});
+
+test('formatShm rounds for display', () => {
+  expect(formatShm('0')).toBe('0');
+  expect(formatShm('1500000000000000000')).toBe('1.5000');
+  expect(formatShm('1234567800000000000', 2)).toBe('1.23');
+  expect(formatShm('999940000000000000')).toBe('0.9999');
+  expect(formatShm('999999000000000000')).toBe('1.0000');
+  expect(formatShm('100000000000000')).toBe('< 0.001');
+  expect(formatShm(BigInt('-2500000000000000000'))).toBe('-2.5000');
+});
+
+test('formatTokenAmount never shows more places than the token has', () => {
+  expect(formatTokenAmount('1234567', 6, 2)).toBe('1.23');
+  expect(formatTokenAmount('15', 1)).toBe('1.5');
+  expect(formatTokenAmount('42', 0)).toBe('42');
+});
+
+test('formatShmExact keeps every digit', () => {
+  expect(formatShmExact('1000000000000000001')).toBe('1.000000000000000001');
+  expect(formatShmExact(BigInt(21000))).toBe('0.000000000000021');
+});
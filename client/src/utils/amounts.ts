@@ -0,0 +1,71 @@
+import { ethers } from 'ethers';
+
+// SHM amounts are handled as wei (bigint) everywhere and only converted to
+// decimal strings for display. The API sends wei as decimal strings. ERC-20
+// amounts work the same way in the token's smallest unit, with its decimals.
+
+const SHM_DECIMALS = 18;
+
+const pow10 = (exponent: number): bigint => BigInt(`1${'0'.repeat(exponent)}`);
+
+const AMOUNT_PATTERN = /^\d*\.?\d+$/;
+
+export type WeiValue = bigint | string;
+
+const toWei = (value: WeiValue): bigint => (typeof value === 'bigint' ? value : BigInt(value));
+
+// Parse a user-entered token amount ("1.5") to its smallest unit. Throws on
+// malformed input or more decimal places than the token has.
+export const parseTokenAmount = (amount: string, tokenDecimals: number): bigint => {
+  const trimmed = amount.trim();
+  if (!AMOUNT_PATTERN.test(trimmed)) {
+    throw new Error('Invalid amount');
+  }
+  return ethers.parseUnits(trimmed, tokenDecimals);
+};
+
+// Like parseTokenAmount, but returns null instead of throwing
+export const tryParseTokenAmount = (amount: string, tokenDecimals: number): bigint | null => {
+  try {
+    return parseTokenAmount(amount, tokenDecimals);
+  } catch {
+    return null;
+  }
+};
+
+// Parse a user-entered SHM amount ("1.5") to wei. Throws on malformed input
+// or more than 18 decimal places.
+export const parseShm = (amount: string): bigint => parseTokenAmount(amount, SHM_DECIMALS);
+
+// Like parseShm, but returns null instead of throwing
+export const tryParseShm = (amount: string): bigint | null => tryParseTokenAmount(amount, SHM_DECIMALS);
+
+// Exact decimal string of a token amount
+export const formatTokenAmountExact = (value: WeiValue, tokenDecimals: number): string =>
+  ethers.formatUnits(toWei(value), tokenDecimals);
+
+// Exact decimal SHM string, for small values such as fees
+export const formatShmExact = (value: WeiValue): string => formatTokenAmountExact(value, SHM_DECIMALS);
+
+// Format a token amount for display, rounded to `decimals` places. Non-zero
+// amounts below 0.001 are shown as "< 0.001".
+export const formatTokenAmount = (value: WeiValue, tokenDecimals: number, decimals = 4): string => {
+  const wei = toWei(value);
+  const places = Math.min(decimals, tokenDecimals);
+  if (wei === BigInt(0)) return '0';
+  if (tokenDecimals >= 3 && wei > BigInt(0) && wei < pow10(tokenDecimals - 3)) return '< 0.001';
+
+  const negative = wei < BigInt(0);
+  const absolute = negative ? -wei : wei;
+  const unit = pow10(tokenDecimals - places);
+  const rounded = (absolute + unit / BigInt(2)) / unit;
+  const scale = pow10(places);
+
+  const whole = (rounded / scale).toString();
+  const fraction = (rounded % scale).toString().padStart(places, '0');
+  return `${negative ? '-' : ''}${whole}${places > 0 ? `.${fraction}` : ''}`;
+};
+
+// Format wei for display, rounded to `decimals` places
+export const formatShm = (value: WeiValue, decimals = 4): string => formatTokenAmount(value, SHM_DECIMALS, decimals);
+
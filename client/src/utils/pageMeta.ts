@@ -0,0 +1,42 @@
+// Title, description and OpenGraph tags of the current page. Link previews are
+// rendered by the server (server/lib/creatorPage.js), since crawlers do not run
+// the app; this keeps the tab title and the tags in step while navigating.
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  image?: string;
+  url?: string;
+}
+
+const setMetaTag = (attribute: 'name' | 'property', key: string, content: string | undefined) => {
+  let tag = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`);
+  if (!content) {
+    tag?.remove();
+    return;
+  }
+  if (!tag) {
+    tag = document.createElement('meta');
+    tag.setAttribute(attribute, key);
+    document.head.appendChild(tag);
+  }
+  tag.content = content;
+};
+
+export const setPageMeta = ({ title, description, image, url }: PageMeta) => {
+  document.title = title;
+  setMetaTag('name', 'description', description);
+  setMetaTag('property', 'og:title', title);
+  setMetaTag('property', 'og:description', description);
+  setMetaTag('property', 'og:image', image);
+  setMetaTag('property', 'og:url', url);
+};
+
+// The tags of index.html, read before anything changes them
+const DEFAULT_META: PageMeta = {
+  title: document.title,
+  description: document.head.querySelector<HTMLMetaElement>('meta[name="description"]')?.content || '',
+  image: document.head.querySelector<HTMLMetaElement>('meta[property="og:image"]')?.content,
+};
+
+export const resetPageMeta = () => setPageMeta(DEFAULT_META);
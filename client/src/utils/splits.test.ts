@@ -0,0 +1,27 @@
+import { TOTAL_SHARE_BPS, formatSharePercent, parseSharePercent, splitAmount } from './splits';
+
+const split = (shareBps: number) => ({ address: '0x0000000000000000000000000000000000000001', shareBps });
+
+test('parseSharePercent and formatSharePercent convert basis points', () => {
+  expect(parseSharePercent('12.5')).toBe(1250);
+  expect(parseSharePercent(' 100 ')).toBe(10000);
+  expect(parseSharePercent('0.01')).toBe(1);
+  expect(parseSharePercent('1.234')).toBeNull();
+  expect(parseSharePercent('abc')).toBeNull();
+  expect(formatSharePercent(1250)).toBe('12.5');
+});
+
+test('splitAmount rounds like the TipJar', () => {
+  expect(splitAmount(BigInt(100), [split(3333), split(3333), split(3334)])).toEqual([
+    BigInt(33),
+    BigInt(33),
+    BigInt(34),
+  ]);
+});
+
+test('TOTAL_SHARE_BPS wei gives every recipient a non-zero part', () => {
+  // Fee estimates for split tips rely on this: zero-value transfers cost less gas
+  const parts = splitAmount(BigInt(TOTAL_SHARE_BPS), [split(1), split(1), split(9997), split(1)]);
+  expect(parts.every((part) => part > BigInt(0))).toBe(true);
+  expect(splitAmount(BigInt(1), [split(5000), split(5000)])[0]).toBe(BigInt(0));
+});
@@ -0,0 +1,32 @@
+import { PayoutSplit } from '../types';
+
+// Payout split shares are basis points (1% = 100) adding up to 100%, as in
+// TipJar.tipSplit and server/lib/payoutSplits.js.
+
+export const TOTAL_SHARE_BPS = 10000;
+export const MAX_SPLIT_RECIPIENTS = 10;
+
+const SHARE_PERCENT_PATTERN = /^\d{1,3}(\.\d{1,2})?$/;
+
+// "12.5" -> 1250. Returns null for anything that is not a percentage with at
+// most two decimal places.
+export const parseSharePercent = (percent: string): number | null => {
+  const trimmed = percent.trim();
+  if (!SHARE_PERCENT_PATTERN.test(trimmed)) return null;
+  return Math.round(parseFloat(trimmed) * 100);
+};
+
+// 1250 -> "12.5"
+export const formatSharePercent = (shareBps: number): string => (shareBps / 100).toString();
+
+// Divide a tip (in wei) by the split shares. The last recipient gets the
+// rounding dust, exactly like the contract.
+export const splitAmount = (amountWei: bigint, splits: PayoutSplit[]): bigint[] => {
+  let remaining = amountWei;
+  return splits.map((split, index) => {
+    const part =
+      index === splits.length - 1 ? remaining : (amountWei * BigInt(split.shareBps)) / BigInt(TOTAL_SHARE_BPS);
+    remaining -= part;
+    return part;
+  });
+};
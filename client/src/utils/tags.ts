@@ -0,0 +1,25 @@
+// Creator tags are lowercase slugs such as "open-source", as checked by
+// server/lib/creatorTags.js.
+
+export const MAX_CREATOR_TAGS = 5;
+const MAX_TAG_LENGTH = 24;
+
+const TAG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// "Music, Open Source" -> ['music', 'open-source']. Returns an error message
+// when a tag is malformed or there are too many.
+export const parseTags = (input: string): string[] | string => {
+  const tags = input
+    .split(',')
+    .map((tag) => tag.trim().toLowerCase().replace(/\s+/g, '-'))
+    .filter(Boolean);
+  const unique = Array.from(new Set(tags));
+
+  if (unique.length > MAX_CREATOR_TAGS) return `Use at most ${MAX_CREATOR_TAGS} tags`;
+  const invalid = unique.find((tag) => tag.length > MAX_TAG_LENGTH || !TAG_PATTERN.test(tag));
+  if (invalid) return `Tags can only use letters, digits and dashes, up to ${MAX_TAG_LENGTH} characters: ${invalid}`;
+  return unique;
+};
+
+// ['music', 'open-source'] -> "music, open-source"
+export const formatTags = (tags: string[]): string => tags.join(', ');
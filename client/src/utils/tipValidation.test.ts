@@ -0,0 +1,39 @@
+import { MAX_MESSAGE_LENGTH, validateTip } from './tipValidation';
+
+const check = { amountWei: BigInt(100), balanceWei: BigInt(1000), maxFeeWei: BigInt(50), message: '' };
+
+test('a tip the balance covers with its fee is valid', () => {
+  expect(validateTip(check)).toBeNull();
+  expect(validateTip({ ...check, amountWei: BigInt(950) })).toBeNull();
+});
+
+test('amounts must be positive', () => {
+  expect(validateTip({ ...check, amountWei: null })).toBe('Please enter a valid amount');
+  expect(validateTip({ ...check, amountWei: BigInt(0) })).toBe('Please enter a valid amount');
+});
+
+test('native tips must leave enough for the network fee', () => {
+  expect(validateTip({ ...check, amountWei: BigInt(1001) })).toBe('Insufficient balance');
+  expect(validateTip({ ...check, amountWei: BigInt(951) })).toBe(
+    'Insufficient balance to cover the tip and the network fee'
+  );
+  // Until the fee is estimated only the tip itself is checked
+  expect(validateTip({ ...check, amountWei: BigInt(1000), maxFeeWei: null })).toBeNull();
+});
+
+test('token tips check the token balance and the SHM for the fee', () => {
+  const token = { symbol: 'USDC', balanceWei: BigInt(5000) };
+
+  expect(validateTip({ ...check, amountWei: BigInt(5000), token })).toBeNull();
+  expect(validateTip({ ...check, amountWei: BigInt(5001), token })).toBe('Insufficient USDC balance');
+  expect(validateTip({ ...check, token, maxFeeWei: BigInt(1001) })).toBe(
+    'Insufficient SHM balance to cover the network fee'
+  );
+});
+
+test('messages are limited in length', () => {
+  expect(validateTip({ ...check, message: ` ${'a'.repeat(MAX_MESSAGE_LENGTH)} ` })).toBeNull();
+  expect(validateTip({ ...check, message: 'a'.repeat(MAX_MESSAGE_LENGTH + 1) })).toBe(
+    `Message must be at most ${MAX_MESSAGE_LENGTH} characters`
+  );
+});
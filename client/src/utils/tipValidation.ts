@@ -0,0 +1,43 @@
+export const MAX_MESSAGE_LENGTH = 280;
+
+export interface TipCheck {
+  // Null when the amount does not parse
+  amountWei: bigint | null;
+  // SHM balance, which pays the network fee and native tips
+  balanceWei: bigint;
+  // Set for token tips, with the balance in the token's smallest unit
+  token?: { symbol: string; balanceWei: bigint };
+  // Worst-case network fee of the selected tier, once it is estimated
+  maxFeeWei: bigint | null;
+  message: string;
+}
+
+// Why the tip cannot be sent, or null when it can. Native tips must leave
+// enough SHM for the fee; token tips need SHM for the fee only.
+export const validateTip = ({ amountWei, balanceWei, token, maxFeeWei, message }: TipCheck): string | null => {
+  if (amountWei === null || amountWei <= BigInt(0)) {
+    return 'Please enter a valid amount';
+  }
+
+  if (token) {
+    if (amountWei > token.balanceWei) {
+      return `Insufficient ${token.symbol} balance`;
+    }
+    if (maxFeeWei !== null && maxFeeWei > balanceWei) {
+      return 'Insufficient SHM balance to cover the network fee';
+    }
+  } else {
+    if (amountWei > balanceWei) {
+      return 'Insufficient balance';
+    }
+    if (maxFeeWei !== null && amountWei + maxFeeWei > balanceWei) {
+      return 'Insufficient balance to cover the tip and the network fee';
+    }
+  }
+
+  if (message.trim().length > MAX_MESSAGE_LENGTH) {
+    return `Message must be at most ${MAX_MESSAGE_LENGTH} characters`;
+  }
+
+  return null;
+};
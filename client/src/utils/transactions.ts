@@ -0,0 +1,47 @@
+import { Transaction, TransactionFilters } from '../types';
+import { findToken } from '../config/networks';
+import web3Service from '../services/web3Service';
+import { formatShm, formatTokenAmount } from './amounts';
+
+const isSentBy = (transaction: Transaction, address: string): boolean =>
+  transaction.fromAddress.toLowerCase() === address.toLowerCase();
+
+// The direct recipient, or one of the split recipients
+const isReceivedBy = (transaction: Transaction, address: string): boolean => {
+  const lowerAddress = address.toLowerCase();
+  return (
+    transaction.toAddress.toLowerCase() === lowerAddress ||
+    (transaction.splits || []).some((split) => split.address.toLowerCase() === lowerAddress)
+  );
+};
+
+// Whether `address` sent the tip or received it, directly or as part of a split
+export const isTransactionFor = (transaction: Transaction, address: string): boolean =>
+  isSentBy(transaction, address) || isReceivedBy(transaction, address);
+
+// Client-side version of the server's history filters, for tips pushed as live events
+export const matchesFilters = (transaction: Transaction, address: string, filters: TransactionFilters): boolean => {
+  const matchesDirection =
+    filters.direction === 'sent'
+      ? isSentBy(transaction, address)
+      : filters.direction === 'received'
+      ? isReceivedBy(transaction, address)
+      : isTransactionFor(transaction, address);
+
+  return (
+    matchesDirection &&
+    (!filters.status || transaction.status === filters.status) &&
+    (!filters.creatorId || transaction.creatorId === filters.creatorId) &&
+    (!filters.from || transaction.timestamp >= filters.from) &&
+    (!filters.to || transaction.timestamp <= filters.to) &&
+    (!filters.minAmountWei ||
+      (!transaction.tokenAddress && BigInt(transaction.amountWei) >= BigInt(filters.minAmountWei)))
+  );
+};
+
+// "1.5 SHM" or "20 USDC". Amounts of token tips are in the token's smallest unit.
+export const formatTransactionAmount = (transaction: Transaction, amountWei = transaction.amountWei): string => {
+  if (!transaction.tokenAddress) return `${formatShm(amountWei)} SHM`;
+  const symbol = findToken(transaction.tokenAddress)?.symbol || web3Service.formatAddress(transaction.tokenAddress);
+  return `${formatTokenAmount(amountWei, transaction.tokenDecimals!)} ${symbol}`;
+};
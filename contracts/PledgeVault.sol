@@ -0,0 +1,156 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @title PledgeVault
+/// @notice Recurring monthly pledges paid from a balance the supporter deposits up front.
+/// Once a period is due, anyone (normally the app's keeper) can call `collect` to pay
+/// the creator one period's amount. Each payment emits the same `Tip` event as TipJar.
+contract PledgeVault {
+    uint256 public constant PERIOD = 30 days;
+
+    struct Pledge {
+        address supporter;
+        address payable creator;
+        uint256 amountPerPeriod;
+        uint256 balance;
+        uint64 nextDueAt;
+        bool paused;
+        bool cancelled;
+        string creatorId;
+    }
+
+    Pledge[] private pledges;
+
+    event PledgeCreated(
+        uint256 indexed pledgeId,
+        address indexed supporter,
+        address indexed creator,
+        uint256 amountPerPeriod,
+        string creatorId
+    );
+    event PledgeFunded(uint256 indexed pledgeId, uint256 amount);
+    event PledgePaused(uint256 indexed pledgeId);
+    event PledgeResumed(uint256 indexed pledgeId);
+    event PledgeCancelled(uint256 indexed pledgeId, uint256 refund);
+    event Tip(
+        address indexed from,
+        address indexed creator,
+        uint256 amount,
+        string creatorId,
+        string message
+    );
+
+    error ZeroAmount();
+    error ZeroCreator();
+    error UnknownPledge();
+    error NotSupporter();
+    error PledgeClosed();
+    error PledgeIsPaused();
+    error NotDue();
+    error InsufficientBalance();
+    error TransferFailed();
+
+    modifier onlySupporter(uint256 pledgeId) {
+        if (pledgeId >= pledges.length) revert UnknownPledge();
+        if (pledges[pledgeId].supporter != msg.sender) revert NotSupporter();
+        if (pledges[pledgeId].cancelled) revert PledgeClosed();
+        _;
+    }
+
+    /// @notice Pledge `amountPerPeriod` to `creator` every period, depositing `msg.value`
+    /// towards it. The first period is due immediately.
+    function createPledge(
+        address payable creator,
+        string calldata creatorId,
+        uint256 amountPerPeriod
+    ) external payable returns (uint256 pledgeId) {
+        if (amountPerPeriod == 0) revert ZeroAmount();
+        if (creator == address(0)) revert ZeroCreator();
+
+        pledgeId = pledges.length;
+        pledges.push(
+            Pledge({
+                supporter: msg.sender,
+                creator: creator,
+                amountPerPeriod: amountPerPeriod,
+                balance: msg.value,
+                nextDueAt: uint64(block.timestamp),
+                paused: false,
+                cancelled: false,
+                creatorId: creatorId
+            })
+        );
+
+        emit PledgeCreated(pledgeId, msg.sender, creator, amountPerPeriod, creatorId);
+        if (msg.value > 0) emit PledgeFunded(pledgeId, msg.value);
+    }
+
+    /// @notice Top up a pledge's balance
+    function fund(uint256 pledgeId) external payable onlySupporter(pledgeId) {
+        if (msg.value == 0) revert ZeroAmount();
+        pledges[pledgeId].balance += msg.value;
+        emit PledgeFunded(pledgeId, msg.value);
+    }
+
+    function pause(uint256 pledgeId) external onlySupporter(pledgeId) {
+        pledges[pledgeId].paused = true;
+        emit PledgePaused(pledgeId);
+    }
+
+    /// @notice Resume a paused pledge. Periods missed while paused are not charged.
+    function resume(uint256 pledgeId) external onlySupporter(pledgeId) {
+        Pledge storage pledge = pledges[pledgeId];
+        pledge.paused = false;
+        if (pledge.nextDueAt < block.timestamp) {
+            pledge.nextDueAt = uint64(block.timestamp);
+        }
+        emit PledgeResumed(pledgeId);
+    }
+
+    /// @notice Cancel a pledge and refund its remaining balance to the supporter
+    function cancel(uint256 pledgeId) external onlySupporter(pledgeId) {
+        Pledge storage pledge = pledges[pledgeId];
+        uint256 refund = pledge.balance;
+        pledge.cancelled = true;
+        pledge.balance = 0;
+
+        if (refund > 0) {
+            (bool sent, ) = payable(msg.sender).call{value: refund}("");
+            if (!sent) revert TransferFailed();
+        }
+        emit PledgeCancelled(pledgeId, refund);
+    }
+
+    /// @notice Pay the creator for the period that is due
+    function collect(uint256 pledgeId) external {
+        if (pledgeId >= pledges.length) revert UnknownPledge();
+        Pledge storage pledge = pledges[pledgeId];
+        if (pledge.cancelled) revert PledgeClosed();
+        if (pledge.paused) revert PledgeIsPaused();
+        if (block.timestamp < pledge.nextDueAt) revert NotDue();
+        if (pledge.balance < pledge.amountPerPeriod) revert InsufficientBalance();
+
+        uint256 amount = pledge.amountPerPeriod;
+        pledge.balance -= amount;
+        // A pledge that lapsed for several periods is not charged for the missed ones
+        uint256 nextDueAt = uint256(pledge.nextDueAt) + PERIOD;
+        if (nextDueAt <= block.timestamp) {
+            nextDueAt = block.timestamp + PERIOD;
+        }
+        pledge.nextDueAt = uint64(nextDueAt);
+
+        (bool sent, ) = pledge.creator.call{value: amount}("");
+        if (!sent) revert TransferFailed();
+
+        emit Tip(pledge.supporter, pledge.creator, amount, pledge.creatorId, "");
+    }
+
+    function getPledge(uint256 pledgeId) external view returns (Pledge memory) {
+        if (pledgeId >= pledges.length) revert UnknownPledge();
+        return pledges[pledgeId];
+    }
+
+    function pledgeCount() external view returns (uint256) {
+        return pledges.length;
+    }
+}
@@ -0,0 +1,160 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @title TipJar
+/// @notice Forwards SHM tips to creators and records each one as a `Tip` event,
+/// so the chain knows which creator a tip was for and what message it carried.
+/// A tip can also be split between several recipients by percentage shares,
+/// and ERC-20 tokens can be tipped once the TipJar is approved to spend them.
+/// The contract never holds funds.
+contract TipJar {
+    /// @dev 280 characters of up to 4 UTF-8 bytes each, matching the app's message limit
+    uint256 public constant MAX_MESSAGE_BYTES = 1120;
+    /// @dev Split shares are in basis points and must add up to 100%
+    uint256 public constant TOTAL_SHARE_BPS = 10000;
+    uint256 public constant MAX_SPLIT_RECIPIENTS = 10;
+
+    event Tip(
+        address indexed from,
+        address indexed creator,
+        uint256 amount,
+        string creatorId,
+        string message
+    );
+
+    event TokenTip(
+        address indexed from,
+        address indexed creator,
+        address indexed token,
+        uint256 amount,
+        string creatorId,
+        string message
+    );
+
+    error ZeroAmount();
+    error ZeroCreator();
+    error MessageTooLong();
+    error TransferFailed();
+    error DirectPaymentsNotAccepted();
+    error InvalidSplit();
+    error InvalidToken();
+
+    /// @notice Send `msg.value` to `creator` and emit a `Tip` event
+    /// @param creator Address that receives the tip
+    /// @param creatorId ID of the creator profile in the app
+    /// @param message Optional message for the creator
+    function tip(address payable creator, string calldata creatorId, string calldata message) external payable {
+        if (msg.value == 0) revert ZeroAmount();
+        if (creator == address(0)) revert ZeroCreator();
+        if (bytes(message).length > MAX_MESSAGE_BYTES) revert MessageTooLong();
+
+        (bool sent, ) = creator.call{value: msg.value}("");
+        if (!sent) revert TransferFailed();
+
+        emit Tip(msg.sender, creator, msg.value, creatorId, message);
+    }
+
+    /// @notice Split `msg.value` between `recipients` by `sharesBps` and emit a
+    /// `Tip` event for each part. Rounding dust goes to the last recipient.
+    /// @param recipients Addresses that receive a part of the tip
+    /// @param sharesBps Share of each recipient in basis points, adding up to 10000
+    /// @param creatorId ID of the creator profile in the app
+    /// @param message Optional message for the creators
+    function tipSplit(
+        address payable[] calldata recipients,
+        uint16[] calldata sharesBps,
+        string calldata creatorId,
+        string calldata message
+    ) external payable {
+        if (msg.value == 0) revert ZeroAmount();
+        if (bytes(message).length > MAX_MESSAGE_BYTES) revert MessageTooLong();
+        _checkSplit(recipients.length, sharesBps);
+
+        uint256 remaining = msg.value;
+        for (uint256 i = 0; i < recipients.length; i++) {
+            address payable recipient = recipients[i];
+            if (recipient == address(0)) revert ZeroCreator();
+
+            uint256 amount = _splitPart(msg.value, remaining, sharesBps, i);
+            remaining -= amount;
+
+            (bool sent, ) = recipient.call{value: amount}("");
+            if (!sent) revert TransferFailed();
+
+            emit Tip(msg.sender, recipient, amount, creatorId, message);
+        }
+    }
+
+    /// @notice Move `amount` of an ERC-20 `token` from the sender to `recipients`,
+    /// split by `sharesBps`, and emit a `TokenTip` event for each part. The sender
+    /// must have approved the TipJar for at least `amount` first. A single
+    /// recipient with a share of 10000 tips one creator.
+    /// @param token ERC-20 token to tip in
+    /// @param recipients Addresses that receive a part of the tip
+    /// @param sharesBps Share of each recipient in basis points, adding up to 10000
+    /// @param amount Total tip in the token's smallest unit
+    /// @param creatorId ID of the creator profile in the app
+    /// @param message Optional message for the creators
+    function tipToken(
+        address token,
+        address[] calldata recipients,
+        uint16[] calldata sharesBps,
+        uint256 amount,
+        string calldata creatorId,
+        string calldata message
+    ) external {
+        if (amount == 0) revert ZeroAmount();
+        // A call to an address without code would "succeed" without moving anything
+        if (token.code.length == 0) revert InvalidToken();
+        if (bytes(message).length > MAX_MESSAGE_BYTES) revert MessageTooLong();
+        _checkSplit(recipients.length, sharesBps);
+
+        uint256 remaining = amount;
+        for (uint256 i = 0; i < recipients.length; i++) {
+            address recipient = recipients[i];
+            if (recipient == address(0)) revert ZeroCreator();
+
+            uint256 part = _splitPart(amount, remaining, sharesBps, i);
+            remaining -= part;
+
+            _transferFrom(token, msg.sender, recipient, part);
+
+            emit TokenTip(msg.sender, recipient, token, part, creatorId, message);
+        }
+    }
+
+    /// @dev Plain transfers would be stuck here; tips must go through `tip`
+    receive() external payable {
+        revert DirectPaymentsNotAccepted();
+    }
+
+    function _checkSplit(uint256 count, uint16[] calldata sharesBps) private pure {
+        if (count == 0 || count > MAX_SPLIT_RECIPIENTS || sharesBps.length != count) revert InvalidSplit();
+
+        uint256 totalBps;
+        for (uint256 i = 0; i < count; i++) {
+            if (sharesBps[i] == 0) revert InvalidSplit();
+            totalBps += sharesBps[i];
+        }
+        if (totalBps != TOTAL_SHARE_BPS) revert InvalidSplit();
+    }
+
+    /// @dev The last recipient gets whatever is left, so the parts always add up to `total`
+    function _splitPart(
+        uint256 total,
+        uint256 remaining,
+        uint16[] calldata sharesBps,
+        uint256 index
+    ) private pure returns (uint256) {
+        if (index == sharesBps.length - 1) return remaining;
+        return (total * sharesBps[index]) / TOTAL_SHARE_BPS;
+    }
+
+    /// @dev Accepts tokens that return nothing from transferFrom as well as those returning a bool
+    function _transferFrom(address token, address from, address to, uint256 amount) private {
+        (bool ok, bytes memory data) = token.call(
+            abi.encodeWithSignature("transferFrom(address,address,uint256)", from, to, amount)
+        );
+        if (!ok || (data.length > 0 && !abi.decode(data, (bool)))) revert TransferFailed();
+    }
+}
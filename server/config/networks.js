@@ -0,0 +1,43 @@
+// Network registry shared with the client (client/src/config/networks.json, copied
+// to config/shared by scripts/syncSharedConfig.js).
+// SHARDEUM_NETWORK selects the network; SHARDEUM_RPC and SHARDEUM_CHAIN_ID
+// override its endpoint, e.g. for a local devnet node, TIPJAR_ADDRESS and
+// PLEDGE_VAULT_ADDRESS its contracts, and TIP_TOKENS (a JSON array like the
+// registry's `tokens`) the ERC-20 tokens that can be tipped.
+const registry = require('./shared/networks.json');
+
+const networkKey = process.env.SHARDEUM_NETWORK || registry.defaultNetwork;
+const network = registry.networks[networkKey];
+
+if (!network) {
+  throw new Error(`Unknown network "${networkKey}" in SHARDEUM_NETWORK`);
+}
+
+const chainId = process.env.SHARDEUM_CHAIN_ID
+  ? parseInt(process.env.SHARDEUM_CHAIN_ID, 10)
+  : network.chainId;
+
+// ERC-20 tokens that can be tipped: { address, symbol, name, decimals }
+const tokens = (process.env.TIP_TOKENS ? JSON.parse(process.env.TIP_TOKENS) : network.tokens).map(token => ({
+  ...token,
+  address: token.address.toLowerCase()
+}));
+
+const activeNetwork = {
+  key: networkKey,
+  name: network.name,
+  chainId,
+  chainIdHex: `0x${chainId.toString(16)}`,
+  rpcUrl: process.env.SHARDEUM_RPC || network.rpcUrl,
+  explorerUrl: network.explorerUrl,
+  isTestnet: network.isTestnet,
+  tipJarAddress: (process.env.TIPJAR_ADDRESS || network.tipJarAddress || '').toLowerCase() || null,
+  pledgeVaultAddress: (process.env.PLEDGE_VAULT_ADDRESS || network.pledgeVaultAddress || '').toLowerCase() || null,
+  tokens
+};
+
+module.exports = {
+  networks: registry.networks,
+  nativeCurrency: registry.nativeCurrency,
+  activeNetwork
+};
@@ -0,0 +1,65 @@
+const path = require('path');
+const fs = require('fs');
+const Database = require('better-sqlite3');
+const migrations = require('./migrations');
+
+const DB_PATH = process.env.DB_PATH || path.join(__dirname, '..', 'data', 'tipjar.db');
+
+// Apply any migrations newer than the recorded schema version
+function migrate(db) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const { version: currentVersion } = db
+    .prepare('SELECT COALESCE(MAX(version), 0) AS version FROM schema_migrations')
+    .get();
+
+  const pending = migrations
+    .filter(migration => migration.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  const recordMigration = db.prepare(
+    'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)'
+  );
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      if (typeof migration.up === 'function') {
+        migration.up(db);
+      } else {
+        db.exec(migration.up);
+      }
+      recordMigration.run(migration.version, migration.name, new Date().toISOString());
+    })();
+    console.log(`Applied migration ${migration.version}: ${migration.name}`);
+  }
+}
+
+function openDatabase(dbPath = DB_PATH) {
+  if (dbPath !== ':memory:') {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  }
+
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  return db;
+}
+
+// True for an insert that broke a primary key or unique index, e.g. a row that
+// another request created in the meantime
+function isUniqueViolation(error) {
+  return error.code === 'SQLITE_CONSTRAINT_UNIQUE' || error.code === 'SQLITE_CONSTRAINT_PRIMARYKEY';
+}
+
+const db = openDatabase();
+
+module.exports = db;
+module.exports.DB_PATH = DB_PATH;
+module.exports.isUniqueViolation = isUniqueViolation;
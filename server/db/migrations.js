@@ -0,0 +1,236 @@
+// Schema migrations, applied in order by version. `up` is either SQL or a
+// function that receives the database, for migrations that need to transform data.
+// Never edit a migration that has shipped; add a new one instead.
+const { parseShm } = require('../lib/amounts');
+
+module.exports = [
+  {
+    version: 1,
+    name: 'create_creators_and_transactions',
+    up: `
+      CREATE TABLE creators (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        address TEXT NOT NULL,
+        description TEXT NOT NULL,
+        avatar TEXT NOT NULL,
+        total_tips TEXT NOT NULL DEFAULT '0',
+        tip_count INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_creators_address ON creators (address);
+
+      CREATE TABLE transactions (
+        id TEXT PRIMARY KEY,
+        from_address TEXT NOT NULL,
+        to_address TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        creator_id TEXT REFERENCES creators (id),
+        timestamp TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        block_number INTEGER,
+        confirmed_at TEXT,
+        failure_reason TEXT
+      );
+
+      CREATE UNIQUE INDEX idx_transactions_tx_hash ON transactions (tx_hash);
+      CREATE INDEX idx_transactions_from_address ON transactions (from_address);
+      CREATE INDEX idx_transactions_to_address ON transactions (to_address);
+      CREATE INDEX idx_transactions_creator_id ON transactions (creator_id);
+      CREATE INDEX idx_transactions_status ON transactions (status);
+    `
+  },
+  {
+    version: 2,
+    name: 'add_transaction_messages',
+    up: `
+      ALTER TABLE transactions ADD COLUMN message TEXT;
+      ALTER TABLE transactions ADD COLUMN message_on_chain INTEGER NOT NULL DEFAULT 0;
+    `
+  },
+  {
+    version: 3,
+    name: 'create_auth_nonces_and_sessions',
+    up: `
+      CREATE TABLE auth_nonces (
+        nonce TEXT PRIMARY KEY,
+        issued_at TEXT NOT NULL
+      );
+
+      CREATE TABLE sessions (
+        token TEXT PRIMARY KEY,
+        address TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_sessions_address ON sessions (address);
+    `
+  },
+  {
+    version: 4,
+    name: 'create_indexer_checkpoints',
+    up: `
+      CREATE TABLE indexer_checkpoints (
+        name TEXT PRIMARY KEY,
+        block_number INTEGER NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      ALTER TABLE transactions ADD COLUMN source TEXT NOT NULL DEFAULT 'app';
+    `
+  },
+  {
+    version: 5,
+    name: 'add_wei_amounts',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE transactions ADD COLUMN amount_wei TEXT NOT NULL DEFAULT '0';
+        ALTER TABLE creators ADD COLUMN total_tips_wei TEXT NOT NULL DEFAULT '0';
+      `);
+
+      const setAmountWei = db.prepare('UPDATE transactions SET amount_wei = ? WHERE id = ?');
+      for (const row of db.prepare('SELECT id, amount FROM transactions').all()) {
+        let amountWei;
+        try {
+          amountWei = parseShm(row.amount);
+        } catch (error) {
+          // Float-formatted legacy amounts (e.g. "1e-7"); keep micro-SHM precision
+          amountWei = BigInt(Math.round(parseFloat(row.amount) * 1e6)) * 10n ** 12n;
+        }
+        setAmountWei.run(amountWei.toString(), row.id);
+      }
+
+      // Recompute creator totals exactly from their confirmed tips
+      const confirmedTips = db.prepare(
+        "SELECT amount_wei FROM transactions WHERE creator_id = ? AND status = 'confirmed'"
+      );
+      const setTotal = db.prepare('UPDATE creators SET total_tips_wei = ? WHERE id = ?');
+      for (const { id } of db.prepare('SELECT id FROM creators').all()) {
+        const total = confirmedTips.all(id).reduce((sum, tip) => sum + BigInt(tip.amount_wei), 0n);
+        setTotal.run(total.toString(), id);
+      }
+    }
+  },
+  {
+    version: 6,
+    name: 'add_tip_contract_address',
+    up: `
+      ALTER TABLE transactions ADD COLUMN contract_address TEXT;
+    `
+  },
+  {
+    version: 7,
+    name: 'create_pledges',
+    up: `
+      CREATE TABLE pledges (
+        id TEXT PRIMARY KEY,
+        contract_address TEXT NOT NULL,
+        chain_pledge_id TEXT NOT NULL,
+        supporter_address TEXT NOT NULL,
+        creator_id TEXT REFERENCES creators (id),
+        creator_address TEXT NOT NULL,
+        amount_per_period_wei TEXT NOT NULL,
+        balance_wei TEXT NOT NULL,
+        next_due_at TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_tx_hash TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE UNIQUE INDEX idx_pledges_chain_id ON pledges (contract_address, chain_pledge_id);
+      CREATE INDEX idx_pledges_supporter_address ON pledges (supporter_address);
+      CREATE INDEX idx_pledges_creator_status ON pledges (creator_id, status);
+
+      ALTER TABLE transactions ADD COLUMN pledge_id TEXT REFERENCES pledges (id);
+    `
+  },
+  {
+    version: 8,
+    name: 'create_payout_splits',
+    up: `
+      CREATE TABLE creator_splits (
+        creator_id TEXT NOT NULL REFERENCES creators (id),
+        position INTEGER NOT NULL,
+        address TEXT NOT NULL,
+        share_bps INTEGER NOT NULL,
+        PRIMARY KEY (creator_id, position)
+      );
+
+      CREATE TABLE transaction_splits (
+        transaction_id TEXT NOT NULL REFERENCES transactions (id),
+        position INTEGER NOT NULL,
+        address TEXT NOT NULL,
+        share_bps INTEGER NOT NULL,
+        amount_wei TEXT NOT NULL,
+        PRIMARY KEY (transaction_id, position)
+      );
+
+      CREATE INDEX idx_transaction_splits_address ON transaction_splits (address);
+    `
+  },
+  {
+    version: 9,
+    name: 'add_token_tips',
+    up: `
+      ALTER TABLE transactions ADD COLUMN token_address TEXT;
+      ALTER TABLE transactions ADD COLUMN token_decimals INTEGER;
+
+      CREATE TABLE creator_token_totals (
+        creator_id TEXT NOT NULL REFERENCES creators (id),
+        token_address TEXT NOT NULL,
+        token_decimals INTEGER NOT NULL,
+        total_wei TEXT NOT NULL,
+        tip_count INTEGER NOT NULL,
+        PRIMARY KEY (creator_id, token_address)
+      );
+    `
+  },
+  {
+    version: 10,
+    name: 'create_campaigns',
+    up: `
+      CREATE TABLE campaigns (
+        id TEXT PRIMARY KEY,
+        creator_id TEXT NOT NULL REFERENCES creators (id),
+        title TEXT NOT NULL,
+        description TEXT NOT NULL,
+        target_wei TEXT NOT NULL,
+        raised_wei TEXT NOT NULL DEFAULT '0',
+        tip_count INTEGER NOT NULL DEFAULT 0,
+        deadline TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        ended_at TEXT
+      );
+
+      CREATE INDEX idx_campaigns_creator_status ON campaigns (creator_id, status);
+
+      ALTER TABLE transactions ADD COLUMN campaign_id TEXT REFERENCES campaigns (id);
+    `
+  },
+  {
+    version: 11,
+    name: 'add_transaction_fees',
+    up: `
+      ALTER TABLE transactions ADD COLUMN fee_wei TEXT;
+    `
+  },
+  {
+    version: 12,
+    name: 'create_creator_tags',
+    up: `
+      CREATE TABLE creator_tags (
+        creator_id TEXT NOT NULL REFERENCES creators (id),
+        tag TEXT NOT NULL,
+        PRIMARY KEY (creator_id, tag)
+      );
+
+      CREATE INDEX idx_creator_tags_tag ON creator_tags (tag);
+      CREATE INDEX idx_creators_created_at ON creators (created_at);
+    `
+  }
+];
@@ -1,74 +1,355 @@
+const crypto = require('crypto');
 const express = require('express');
 const cors = require('cors');
 const { Web3 } = require('web3');
-const axios = require('axios');
 require('dotenv').config();
+const { activeNetwork } = require('./config/networks');
+const db = require('./db');
+const creatorRepository = require('./repositories/creatorRepository');
+const transactionRepository = require('./repositories/transactionRepository');
+const sessionRepository = require('./repositories/sessionRepository');
+const pledgeRepository = require('./repositories/pledgeRepository');
+const campaignRepository = require('./repositories/campaignRepository');
+const { sanitizeMessage, decodeMessageFromInput } = require('./lib/tipMessage');
+const { verifyRegistrationSignature } = require('./lib/creatorRegistration');
+const { parseSiweMessage, verifySiweMessage } = require('./lib/siwe');
+const { SHARDEUM_RPC, shardeumRPC } = require('./lib/shardeumRpc');
+const { runIndexer } = require('./lib/chainIndexer');
+const { buildCreatorStats } = require('./lib/creatorStats');
+const { parseShm, parseWei } = require('./lib/amounts');
+const { estimateFees, paidFeeWei } = require('./lib/feeEstimator');
+const { TIP_JAR_ADDRESS, isTipJarAddress, decodeTipCall, decodeTipEvents } = require('./lib/tipJar');
+const { PLEDGE_VAULT_ADDRESS, readPledge, decodePledgeCreated, derivePledgeStatus } = require('./lib/pledgeVault');
+const { KEEPER_ADDRESS, syncPledge, runPledgeScheduler } = require('./lib/pledgeScheduler');
+const { validateSplits, splitAmount, sameSplits } = require('./lib/payoutSplits');
+const { isValidTag, validateTags } = require('./lib/creatorTags');
+const { TOKENS, findToken, decodeTransferCall, decodeTransferEvents } = require('./lib/erc20');
+const liveEvents = require('./lib/liveEvents');
+const { EXPORT_FORMATS, buildExportRows, toCsv } = require('./lib/historyExport');
+const { CLIENT_BUILD_DIR, EMBED_HTML_PATH, hasClientBuild, renderCreatorPage } = require('./lib/creatorPage');
+const asyncHandler = require('./lib/asyncHandler');
+
+const { isUniqueViolation } = db;
 
 const app = express();
 const PORT = process.env.PORT || 5000;
+// Where the app is reachable, for absolute links in creator page previews
+const PUBLIC_APP_URL = process.env.PUBLIC_APP_URL;
 
 // Middleware
 app.use(cors());
 app.use(express.json());
 
-// Shardeum RPC endpoint
-const SHARDEUM_RPC = 'https://api-testnet.shardeum.org';
+// Used for unit conversion and signature recovery
 const web3 = new Web3(SHARDEUM_RPC);
 
-// In-memory storage for demo (in production, use a proper database)
-let creators = [
-  {
-    id: '1',
-    name: 'Tushar Pamnani',
-    address: '<ADDRESS_HERE>',
-    description: 'Digital artist creating amazing NFT collections',
-    avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Alice',
-    totalTips: '0',
-    tipCount: 0
-  },
-  {
-    id: '2',
-    name: 'Bob Developer',
-    address: '0x26d6a3805cbae5d5a510443a15129bec456cacff',
-    description: 'Full-stack developer building on Shardeum',
-    avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Bob',
-    totalTips: '0',
-    tipCount: 0
-  }
-];
-
-let transactions = [];
-
-// Helper function to make RPC calls to Shardeum
-async function shardeumRPC(method, params = []) {
-  try {
-    const response = await axios.post(SHARDEUM_RPC, {
-      jsonrpc: '2.0',
-      method: method,
-      params: params,
-      id: 1
-    }, {
-      headers: {
-        'Content-Type': 'application/json'
+// Tip confirmation settings
+const REQUIRED_CONFIRMATIONS = parseInt(process.env.REQUIRED_CONFIRMATIONS || '1', 10);
+const CONFIRMER_INTERVAL_MS = parseInt(process.env.CONFIRMER_INTERVAL_MS || '10000', 10);
+const PENDING_TIMEOUT_MS = parseInt(process.env.PENDING_TIMEOUT_MS || '1800000', 10);
+
+// Chain indexer settings
+const INDEXER_ENABLED = process.env.INDEXER_ENABLED !== 'false';
+const INDEXER_INTERVAL_MS = parseInt(process.env.INDEXER_INTERVAL_MS || '15000', 10);
+
+// Pledge scheduler settings
+const PLEDGE_SCHEDULER_INTERVAL_MS = parseInt(process.env.PLEDGE_SCHEDULER_INTERVAL_MS || '60000', 10);
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const TRANSACTION_STATUSES = ['pending', 'confirmed', 'failed'];
+const TRANSACTION_DIRECTIONS = ['sent', 'received'];
+
+const DEFAULT_CREATOR_PAGE_SIZE = 12;
+const MAX_CREATOR_PAGE_SIZE = 50;
+const CREATOR_SORTS = ['most_tipped', 'newest', 'most_supporters'];
+const MAX_SEARCH_LENGTH = 100;
+
+const MAX_CAMPAIGN_TITLE_LENGTH = 80;
+const MAX_CAMPAIGN_DESCRIPTION_LENGTH = 500;
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A freshly broadcast transaction can take a few seconds to reach the RPC node
+async function fetchTransactionWithRetry(txHash, attempts = 5, delayMs = 2000) {
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const tx = await shardeumRPC('eth_getTransactionByHash', [txHash]);
+    if (tx) {
+      return tx;
+    }
+    if (attempt < attempts) {
+      await sleep(delayMs);
+    }
+  }
+  return null;
+}
+
+// Check that an on-chain transaction matches the tip the client claims to have sent.
+// Tips through the TipJar are addressed to the contract and name the creator in the call;
+// split tips must divide the value exactly like the creator's payout `splits`. ERC-20
+// tips (`tokenAddress`) are a transfer(to, amount) on the token or a TipJar tipToken call.
+// Returns an error message, or null when the transaction matches.
+function verifyTipTransaction(tx, { fromAddress, toAddress, amountWei, splits = [], tokenAddress = null }) {
+  if (!tx.from || tx.from.toLowerCase() !== fromAddress.toLowerCase()) {
+    return 'Transaction sender does not match fromAddress';
+  }
+
+  let recipient = tx.to;
+  let value = BigInt(tx.value);
+  let tipCall = null;
+
+  if (tokenAddress) {
+    if (value !== 0n) {
+      return 'Token tips cannot carry SHM';
+    }
+    if (isTipJarAddress(tx.to)) {
+      tipCall = decodeTipCall(tx.input);
+      if (!tipCall || !tipCall.token) {
+        return 'Transaction is not a TipJar token tip';
       }
-    });
-    return response.data.result;
+    } else if (tx.to && tx.to.toLowerCase() === tokenAddress.toLowerCase()) {
+      const transfer = decodeTransferCall(tx.input);
+      if (!transfer) {
+        return 'Transaction is not a token transfer';
+      }
+      tipCall = { creator: transfer.to, splits: null, token: tx.to.toLowerCase(), amountWei: transfer.amountWei };
+    } else {
+      return 'Transaction is not a transfer of tokenAddress';
+    }
+    if (tipCall.token !== tokenAddress.toLowerCase()) {
+      return 'Transaction token does not match tokenAddress';
+    }
+    value = tipCall.amountWei;
+  } else if (isTipJarAddress(tx.to)) {
+    tipCall = decodeTipCall(tx.input);
+    if (!tipCall || tipCall.token) {
+      return 'Transaction is not a TipJar tip';
+    }
+  }
+
+  if (tipCall && tipCall.splits) {
+    if (!sameSplits(tipCall.splits, splits)) {
+      return "Transaction split does not match the creator's payout splits";
+    }
+    recipient = toAddress;
+  } else if (tipCall) {
+    recipient = tipCall.creator;
+  }
+  if (!recipient || recipient.toLowerCase() !== toAddress.toLowerCase()) {
+    return 'Transaction recipient does not match toAddress';
+  }
+  if (value !== amountWei) {
+    return 'Transaction value does not match amount';
+  }
+
+  return null;
+}
+
+// Mark a tip confirmed and credit it to its creator in one database transaction.
+// The status is re-read first so a tip checked twice concurrently is only credited once.
+const confirmTip = db.transaction((transaction, blockNumber) => {
+  if (transactionRepository.findById(transaction.id).status !== 'pending') return;
+  transactionRepository.markConfirmed(transaction.id, blockNumber);
+  if (transaction.creatorId) {
+    const token = transaction.tokenAddress
+      ? { address: transaction.tokenAddress, decimals: transaction.tokenDecimals }
+      : null;
+    creatorRepository.addTip(transaction.creatorId, transaction.amountWei, token);
+  }
+  if (transaction.campaignId) {
+    campaignRepository.addTip(transaction.campaignId, transaction.amountWei);
+  }
+});
+
+// A split tip needs one matching Tip event per recipient
+function hasMatchingTipEvent(transaction, receipt) {
+  const events = decodeTipEvents(receipt, transaction.contractAddress);
+  const payouts = transaction.splits || [{ address: transaction.toAddress, amountWei: transaction.amountWei }];
+
+  return payouts.every(payout => events.some(event =>
+    event.from === transaction.fromAddress &&
+    event.creator === payout.address &&
+    event.amountWei === BigInt(payout.amountWei)
+  ));
+}
+
+// Token tips, direct or through the TipJar, need one Transfer of the token per recipient
+function hasMatchingTokenTransfer(transaction, receipt) {
+  const transfers = decodeTransferEvents(receipt, transaction.tokenAddress);
+  const payouts = transaction.splits || [{ address: transaction.toAddress, amountWei: transaction.amountWei }];
+
+  return payouts.every(payout => transfers.some(transfer =>
+    transfer.from === transaction.fromAddress &&
+    transfer.to === payout.address &&
+    transfer.amountWei === BigInt(payout.amountWei)
+  ));
+}
+
+// Move a pending tip to confirmed or failed based on its receipt, and tell live
+// clients when anything changed
+async function checkPendingTransaction(transaction, latestBlock) {
+  await settlePendingTransaction(transaction, latestBlock);
+
+  const updated = transactionRepository.findById(transaction.id);
+  if (updated.status !== transaction.status || updated.blockNumber !== transaction.blockNumber) {
+    liveEvents.publishTransaction(updated.id);
+  }
+}
+
+async function settlePendingTransaction(transaction, latestBlock) {
+  const receipt = await shardeumRPC('eth_getTransactionReceipt', [transaction.txHash]);
+
+  if (!receipt) {
+    const age = Date.now() - new Date(transaction.timestamp).getTime();
+    if (age > PENDING_TIMEOUT_MS) {
+      const tx = await shardeumRPC('eth_getTransactionByHash', [transaction.txHash]);
+      if (!tx) {
+        transactionRepository.markFailed(transaction.id, 'Transaction was dropped from the network');
+      }
+    }
+    return;
+  }
+
+  const blockNumber = parseInt(receipt.blockNumber, 16);
+  // The fee is paid whether or not the tip goes through
+  transactionRepository.setFee(transaction.id, paidFeeWei(receipt, transaction.fromAddress));
+
+  if (receipt.status === '0x0') {
+    transactionRepository.setBlockNumber(transaction.id, blockNumber);
+    transactionRepository.markFailed(transaction.id, 'Transaction reverted');
+    return;
+  }
+
+  // A token tip only counts once the token has emitted the matching Transfer events
+  if (transaction.tokenAddress && !hasMatchingTokenTransfer(transaction, receipt)) {
+    transactionRepository.setBlockNumber(transaction.id, blockNumber);
+    transactionRepository.markFailed(transaction.id, 'No matching token Transfer event in the receipt');
+    return;
+  }
+
+  // A TipJar tip only counts once the contract has emitted the matching Tip event
+  if (transaction.contractAddress && !transaction.tokenAddress && !hasMatchingTipEvent(transaction, receipt)) {
+    transactionRepository.setBlockNumber(transaction.id, blockNumber);
+    transactionRepository.markFailed(transaction.id, 'No matching Tip event in the receipt');
+    return;
+  }
+
+  const confirmations = latestBlock - blockNumber + 1;
+  if (confirmations >= REQUIRED_CONFIRMATIONS) {
+    confirmTip(transaction, blockNumber);
+  } else {
+    transactionRepository.setBlockNumber(transaction.id, blockNumber);
+  }
+}
+
+// Background job that settles pending tips
+let confirmerRunning = false;
+async function runConfirmer() {
+  if (confirmerRunning) return;
+  confirmerRunning = true;
+
+  try {
+    const pending = transactionRepository.findPending();
+    if (pending.length === 0) return;
+
+    const latestBlock = parseInt(await shardeumRPC('eth_blockNumber'), 16);
+    for (const transaction of pending) {
+      try {
+        await checkPendingTransaction(transaction, latestBlock);
+      } catch (error) {
+        console.error(`Failed to check transaction ${transaction.txHash}:`, error.message);
+      }
+    }
   } catch (error) {
-    console.error('RPC Error:', error.message);
-    throw error;
+    console.error('Confirmer error:', error.message);
+  } finally {
+    confirmerRunning = false;
   }
 }
 
+// Require a valid Sign-In With Ethereum session (Authorization: Bearer <token>)
+function requireSession(req, res, next) {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : null;
+  const session = token && sessionRepository.findSession(token);
+
+  if (!session) {
+    return res.status(401).json({ error: 'Sign in required' });
+  }
+
+  req.session = session;
+  next();
+}
+
+// Only the wallet that owns the creator profile may modify it
+function requireCreatorOwner(req, res, next) {
+  const creator = creatorRepository.findById(req.params.id);
+  if (!creator) {
+    return res.status(404).json({ error: 'Creator not found' });
+  }
+  if (creator.address.toLowerCase() !== req.session.address) {
+    return res.status(403).json({ error: 'Only the creator can modify this profile' });
+  }
+
+  req.creator = creator;
+  next();
+}
+
 // Routes
 
+// Issue a single-use nonce for a Sign-In With Ethereum message
+app.get('/api/auth/nonce', (req, res) => {
+  res.json({ nonce: sessionRepository.createNonce() });
+});
+
+// Verify a signed SIWE message and start a session
+app.post('/api/auth/verify', (req, res) => {
+  const { message, signature } = req.body;
+
+  if (!message || !signature) {
+    return res.status(400).json({ error: 'Missing required fields' });
+  }
+
+  let fields;
+  try {
+    fields = parseSiweMessage(message);
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  const verificationError = verifySiweMessage(web3, fields, message, signature);
+  if (verificationError) {
+    return res.status(401).json({ error: verificationError });
+  }
+
+  if (!sessionRepository.consumeNonce(fields.nonce)) {
+    return res.status(401).json({ error: 'Invalid or expired nonce' });
+  }
+
+  res.status(201).json(sessionRepository.createSession(fields.address));
+});
+
+// Get the current session
+app.get('/api/auth/session', requireSession, (req, res) => {
+  res.json({ address: req.session.address, expiresAt: req.session.expiresAt });
+});
+
+// End the current session
+app.post('/api/auth/logout', requireSession, (req, res) => {
+  sessionRepository.deleteSession(req.session.token);
+  res.status(204).end();
+});
+
 // Get network info
-app.get('/api/network', async (req, res) => {
+app.get('/api/network', asyncHandler(async (req, res) => {
   try {
     const chainId = await shardeumRPC('eth_chainId');
     const blockNumber = await shardeumRPC('eth_blockNumber');
     const gasPrice = await shardeumRPC('eth_gasPrice');
     
     res.json({
+      network: activeNetwork.key,
+      networkName: activeNetwork.name,
       chainId,
       blockNumber: parseInt(blockNumber, 16),
       gasPrice: parseInt(gasPrice, 16)
@@ -76,10 +357,10 @@ app.get('/api/network', async (req, res) => {
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch network info' });
   }
-});
+}));
 
 // Get account balance
-app.get('/api/balance/:address', async (req, res) => {
+app.get('/api/balance/:address', asyncHandler(async (req, res) => {
   try {
     const { address } = req.params;
     const balance = await shardeumRPC('eth_getBalance', [address, 'latest']);
@@ -93,10 +374,10 @@ app.get('/api/balance/:address', async (req, res) => {
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch balance' });
   }
-});
+}));
 
 // Get transaction count (nonce)
-app.get('/api/nonce/:address', async (req, res) => {
+app.get('/api/nonce/:address', asyncHandler(async (req, res) => {
   try {
     const { address } = req.params;
     const nonce = await shardeumRPC('eth_getTransactionCount', [address, 'latest']);
@@ -108,10 +389,10 @@ app.get('/api/nonce/:address', async (req, res) => {
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch nonce' });
   }
-});
+}));
 
 // Get transaction by hash
-app.get('/api/transaction/:hash', async (req, res) => {
+app.get('/api/transaction/:hash', asyncHandler(async (req, res) => {
   try {
     const { hash } = req.params;
     const transaction = await shardeumRPC('eth_getTransactionByHash', [hash]);
@@ -124,117 +405,727 @@ app.get('/api/transaction/:hash', async (req, res) => {
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch transaction' });
   }
-});
+}));
 
-// Get all creators
+// Search creators, a page at a time: text in the name and description (q), tag and sort
 app.get('/api/creators', (req, res) => {
-  res.json(creators);
+  const { q = '', tag, sort = 'most_tipped' } = req.query;
+
+  if (typeof q !== 'string' || q.length > MAX_SEARCH_LENGTH) {
+    return res.status(400).json({ error: `q must be at most ${MAX_SEARCH_LENGTH} characters` });
+  }
+  if (tag !== undefined && !isValidTag(tag)) {
+    return res.status(400).json({ error: 'Invalid tag' });
+  }
+  if (!CREATOR_SORTS.includes(sort)) {
+    return res.status(400).json({ error: `sort must be one of ${CREATOR_SORTS.join(', ')}` });
+  }
+
+  const page = req.query.page === undefined ? 1 : parseInt(req.query.page, 10);
+  const pageSize = req.query.pageSize === undefined ? DEFAULT_CREATOR_PAGE_SIZE : parseInt(req.query.pageSize, 10);
+  if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1) {
+    return res.status(400).json({ error: 'page and pageSize must be positive numbers' });
+  }
+
+  res.json(creatorRepository.search({ q, tag, sort, page, pageSize: Math.min(pageSize, MAX_CREATOR_PAGE_SIZE) }));
+});
+
+// Get the most used creator tags with their creator counts
+app.get('/api/creators/tags', (req, res) => {
+  res.json(creatorRepository.findPopularTags());
 });
 
 // Get creator by ID
 app.get('/api/creators/:id', (req, res) => {
-  const creator = creators.find(c => c.id === req.params.id);
+  const creator = creatorRepository.findById(req.params.id);
   if (!creator) {
     return res.status(404).json({ error: 'Creator not found' });
   }
   res.json(creator);
 });
 
-// Add new creator
+// Get tip analytics for a creator (confirmed tips only)
+app.get('/api/creators/:id/stats', (req, res) => {
+  const creator = creatorRepository.findById(req.params.id);
+  if (!creator) {
+    return res.status(404).json({ error: 'Creator not found' });
+  }
+
+  const tips = transactionRepository.findConfirmedByCreator(creator.id);
+  res.json(buildCreatorStats(creator, tips));
+});
+
+// Get recent confirmed tips with messages for a creator
+app.get('/api/creators/:id/messages', (req, res) => {
+  const creator = creatorRepository.findById(req.params.id);
+  if (!creator) {
+    return res.status(404).json({ error: 'Creator not found' });
+  }
+
+  const limit = Math.min(parseInt(req.query.limit, 10) || 10, 50);
+  res.json(transactionRepository.findCreatorMessages(creator.id, limit));
+});
+
+// Get a creator's campaigns, newest first
+app.get('/api/creators/:id/campaigns', (req, res) => {
+  const creator = creatorRepository.findById(req.params.id);
+  if (!creator) {
+    return res.status(404).json({ error: 'Creator not found' });
+  }
+
+  res.json(campaignRepository.findByCreator(creator.id));
+});
+
+// Start a funding campaign (owner only). Targets are in SHM wei; a creator runs
+// one active campaign at a time.
+app.post('/api/creators/:id/campaigns', requireSession, requireCreatorOwner, (req, res) => {
+  const { title, description, targetWei: rawTargetWei, deadline } = req.body;
+
+  if (typeof title !== 'string' || !title.trim() || title.trim().length > MAX_CAMPAIGN_TITLE_LENGTH) {
+    return res.status(400).json({ error: `Title must be 1-${MAX_CAMPAIGN_TITLE_LENGTH} characters` });
+  }
+  if (
+    typeof description !== 'string' ||
+    !description.trim() ||
+    description.trim().length > MAX_CAMPAIGN_DESCRIPTION_LENGTH
+  ) {
+    return res.status(400).json({ error: `Description must be 1-${MAX_CAMPAIGN_DESCRIPTION_LENGTH} characters` });
+  }
+
+  let targetWei;
+  try {
+    targetWei = parseWei(rawTargetWei);
+  } catch (error) {
+    return res.status(400).json({ error: 'Invalid targetWei' });
+  }
+  if (targetWei === 0n) {
+    return res.status(400).json({ error: 'Target must be greater than zero' });
+  }
+
+  const deadlineTime = Date.parse(deadline);
+  if (Number.isNaN(deadlineTime)) {
+    return res.status(400).json({ error: 'Invalid deadline' });
+  }
+  if (deadlineTime <= Date.now()) {
+    return res.status(400).json({ error: 'Deadline must be in the future' });
+  }
+
+  if (campaignRepository.findActiveByCreator(req.creator.id)) {
+    return res.status(409).json({ error: 'This creator already has an active campaign' });
+  }
+
+  const campaign = campaignRepository.create({
+    id: crypto.randomUUID(),
+    creatorId: req.creator.id,
+    title: title.trim(),
+    description: description.trim(),
+    targetWei,
+    deadline: new Date(deadlineTime).toISOString()
+  });
+  liveEvents.publishCreator(req.creator.id);
+  res.status(201).json(campaign);
+});
+
+// Delete a campaign (owner only); tips sent to it stay in the history
+app.delete('/api/creators/:id/campaigns/:campaignId', requireSession, requireCreatorOwner, (req, res) => {
+  const campaign = campaignRepository.findById(req.params.campaignId);
+  if (!campaign || campaign.creatorId !== req.creator.id) {
+    return res.status(404).json({ error: 'Campaign not found' });
+  }
+
+  campaignRepository.remove(campaign.id);
+  liveEvents.publishCreator(req.creator.id);
+  res.status(204).end();
+});
+
+// Add new creator, proven by a personal_sign signature from the creator's wallet
 app.post('/api/creators', (req, res) => {
-  const { name, address, description } = req.body;
+  const { name, address, description, tags = [], issuedAt, signature } = req.body;
   
   if (!name || !address || !description) {
     return res.status(400).json({ error: 'Missing required fields' });
   }
+
+  const tagsError = validateTags(tags);
+  if (tagsError) {
+    return res.status(400).json({ error: tagsError });
+  }
+
+  if (!web3.utils.isAddress(address)) {
+    return res.status(400).json({ error: 'Invalid wallet address' });
+  }
+
+  const signatureError = verifyRegistrationSignature(web3, { name, address, issuedAt, signature });
+  if (signatureError) {
+    return res.status(401).json({ error: signatureError });
+  }
+
+  if (creatorRepository.findByAddress(address).length > 0) {
+    return res.status(409).json({ error: 'A creator is already registered for this address' });
+  }
   
-  const newCreator = {
-    id: Date.now().toString(),
+  const newCreator = creatorRepository.create({
+    id: crypto.randomUUID(),
     name,
     address: address.toLowerCase(),
     description,
     avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${name}`,
-    totalTips: '0',
-    tipCount: 0
-  };
+    tags
+  });
+  liveEvents.publishCreator(newCreator.id);
   
-  creators.push(newCreator);
   res.status(201).json(newCreator);
 });
 
-// Record a tip transaction
-app.post('/api/tips', (req, res) => {
-  const { fromAddress, toAddress, amount, txHash, creatorId } = req.body;
-  
-  if (!fromAddress || !toAddress || !amount || !txHash) {
-    return res.status(400).json({ error: 'Missing required fields' });
+// Update a creator profile, its tags and its payout splits (owner only)
+app.put('/api/creators/:id', requireSession, requireCreatorOwner, (req, res) => {
+  const { name, description, avatar, tags, splits } = req.body;
+
+  if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+    return res.status(400).json({ error: 'Name cannot be empty' });
   }
-  
-  const transaction = {
-    id: Date.now().toString(),
-    fromAddress: fromAddress.toLowerCase(),
-    toAddress: toAddress.toLowerCase(),
+  if (description !== undefined && (typeof description !== 'string' || !description.trim())) {
+    return res.status(400).json({ error: 'Description cannot be empty' });
+  }
+  if (avatar !== undefined && !/^https:\/\/\S+$/.test(avatar)) {
+    return res.status(400).json({ error: 'Avatar must be an https URL' });
+  }
+  if (tags !== undefined) {
+    const tagsError = validateTags(tags);
+    if (tagsError) {
+      return res.status(400).json({ error: tagsError });
+    }
+  }
+  if (splits !== undefined) {
+    const splitsError = validateSplits(web3, splits);
+    if (splitsError) {
+      return res.status(400).json({ error: splitsError });
+    }
+  }
+
+  let updated = creatorRepository.update(req.creator.id, {
+    name: name && name.trim(),
+    description: description && description.trim(),
+    avatar
+  });
+  if (tags !== undefined) {
+    updated = creatorRepository.setTags(req.creator.id, tags);
+  }
+  if (splits !== undefined) {
+    updated = creatorRepository.setSplits(req.creator.id, splits);
+  }
+  liveEvents.publishCreator(updated.id);
+  res.json(updated);
+});
+
+// Delete a creator profile (owner only)
+app.delete('/api/creators/:id', requireSession, requireCreatorOwner, (req, res) => {
+  creatorRepository.remove(req.creator.id);
+  liveEvents.publishCreatorRemoved(req.creator.id);
+  res.status(204).end();
+});
+
+// Answer a tip report for a transaction that is already recorded. The indexer
+// may have imported the transfer before the client reported it; the sender's
+// message is then added to it.
+function respondWithRecordedTip(res, existing, { fromAddress, message }) {
+  if (existing.source === 'indexer' && existing.fromAddress === fromAddress.toLowerCase()) {
+    if (message && !existing.message) {
+      transactionRepository.setMessage(existing.id, message);
+      liveEvents.publishTransaction(existing.id);
+    }
+    return res.status(200).json(transactionRepository.findById(existing.id));
+  }
+  return res.status(409).json({ error: 'Transaction already recorded' });
+}
+
+// Record a tip transaction after verifying it on-chain
+app.post('/api/tips', asyncHandler(async (req, res) => {
+  const {
+    fromAddress,
+    toAddress,
     amount,
+    amountWei: rawAmountWei,
     txHash,
     creatorId,
-    timestamp: new Date().toISOString(),
-    status: 'pending'
-  };
-  
-  transactions.push(transaction);
+    tokenAddress,
+    campaignId
+  } = req.body;
   
-  // Update creator stats
+  if (!fromAddress || !toAddress || (!amount && !rawAmountWei) || !txHash) {
+    return res.status(400).json({ error: 'Missing required fields' });
+  }
+
+  // ERC-20 tips name their token, which must be on the configured list
+  const token = tokenAddress ? findToken(tokenAddress) : null;
+  if (tokenAddress && !token) {
+    return res.status(400).json({ error: 'Unsupported token' });
+  }
+
+  // Amounts are sent as wei strings (the token's smallest unit for ERC-20 tips);
+  // a decimal SHM `amount` is still accepted for SHM tips
+  let amountWei;
+  try {
+    if (token && rawAmountWei === undefined) {
+      throw new Error('Token tips must send amountWei');
+    }
+    amountWei = rawAmountWei !== undefined ? parseWei(rawAmountWei) : parseShm(amount);
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+  if (amountWei === 0n) {
+    return res.status(400).json({ error: 'Amount must be greater than zero' });
+  }
+
+  let message;
+  try {
+    message = sanitizeMessage(req.body.message);
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  if (!/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+    return res.status(400).json({ error: 'Invalid transaction hash' });
+  }
+
+  const existing = transactionRepository.findByTxHash(txHash);
+  if (existing) {
+    return respondWithRecordedTip(res, existing, { fromAddress, message });
+  }
+
+  let creator = null;
   if (creatorId) {
-    const creator = creators.find(c => c.id === creatorId);
-    if (creator) {
-      creator.totalTips = (parseFloat(creator.totalTips) + parseFloat(amount)).toString();
-      creator.tipCount += 1;
+    creator = creatorRepository.findById(creatorId);
+    if (!creator) {
+      return res.status(404).json({ error: 'Creator not found' });
+    }
+    if (creator.address.toLowerCase() !== toAddress.toLowerCase()) {
+      return res.status(400).json({ error: 'toAddress does not match creator address' });
+    }
+  }
+
+  // Campaign targets are in SHM, so only SHM tips can count toward them
+  if (campaignId) {
+    const campaign = campaignRepository.findById(campaignId);
+    if (!campaign || !creator || campaign.creatorId !== creator.id) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+    if (campaign.status !== 'active') {
+      return res.status(400).json({ error: 'Campaign is no longer active' });
     }
+    if (token) {
+      return res.status(400).json({ error: 'Token tips cannot count toward a campaign' });
+    }
+  }
+
+  let onChainTx;
+  try {
+    onChainTx = await fetchTransactionWithRetry(txHash);
+  } catch (error) {
+    return res.status(502).json({ error: 'Failed to fetch transaction from Shardeum' });
+  }
+
+  if (!onChainTx) {
+    return res.status(400).json({ error: 'Transaction not found on chain' });
+  }
+
+  const mismatch = verifyTipTransaction(onChainTx, {
+    fromAddress,
+    toAddress,
+    amountWei,
+    splits: creator ? creator.splits : [],
+    tokenAddress: token && token.address
+  });
+  if (mismatch) {
+    return res.status(400).json({ error: mismatch });
+  }
+
+  const tipCall = isTipJarAddress(onChainTx.to) ? decodeTipCall(onChainTx.input) : null;
+  if (tipCall && creatorId && tipCall.creatorId !== creatorId) {
+    return res.status(400).json({ error: 'TipJar creatorId does not match creatorId' });
+  }
+
+  // A message carried on-chain takes precedence and must match the one sent.
+  // Direct token transfers cannot carry one.
+  const onChainMessage = tipCall
+    ? tipCall.message
+    : token ? null : decodeMessageFromInput(onChainTx.input);
+  if (onChainMessage && message && onChainMessage !== message) {
+    return res.status(400).json({ error: 'Transaction message does not match message' });
   }
   
+  // Another request, or the indexer, may have recorded the same transaction
+  // while this one waited for the chain
+  const recordedMeanwhile = transactionRepository.findByTxHash(txHash);
+  if (recordedMeanwhile) {
+    return respondWithRecordedTip(res, recordedMeanwhile, { fromAddress, message });
+  }
+
+  let transaction;
+  try {
+    transaction = transactionRepository.create({
+      id: crypto.randomUUID(),
+      fromAddress: fromAddress.toLowerCase(),
+      toAddress: toAddress.toLowerCase(),
+      amountWei,
+      txHash: txHash.toLowerCase(),
+      creatorId,
+      timestamp: new Date().toISOString(),
+      status: 'pending',
+      message: onChainMessage || message,
+      messageOnChain: Boolean(onChainMessage),
+      contractAddress: tipCall ? onChainTx.to : null,
+      splits: tipCall && tipCall.splits ? splitAmount(amountWei, tipCall.splits) : undefined,
+      tokenAddress: token && token.address,
+      tokenDecimals: token && token.decimals,
+      campaignId
+    });
+  } catch (error) {
+    if (!isUniqueViolation(error)) throw error;
+    return res.status(409).json({ error: 'Transaction already recorded' });
+  }
+  liveEvents.publishTransaction(transaction.id);
+
+  // Creator stats are only updated once the confirmer sees the receipt
+  runConfirmer();
+  
   res.status(201).json(transaction);
-});
+}));
+
+// Report the outcome of a tip once the client has seen its receipt. The reported
+// status is only a hint: the receipt is re-checked on chain before anything changes.
+app.patch('/api/tips/:id', asyncHandler(async (req, res) => {
+  const { status } = req.body;
+
+  if (!['confirmed', 'failed'].includes(status)) {
+    return res.status(400).json({ error: 'status must be confirmed or failed' });
+  }
+
+  // Tips can be addressed by record ID or by transaction hash
+  const transaction = transactionRepository.findById(req.params.id)
+    || transactionRepository.findByTxHash(req.params.id);
+  if (!transaction) {
+    return res.status(404).json({ error: 'Transaction not found' });
+  }
+
+  if (transaction.status === 'pending') {
+    try {
+      const latestBlock = parseInt(await shardeumRPC('eth_blockNumber'), 16);
+      await checkPendingTransaction(transaction, latestBlock);
+    } catch (error) {
+      return res.status(502).json({ error: 'Failed to fetch transaction receipt from Shardeum' });
+    }
+  }
+
+  res.json(transactionRepository.findById(transaction.id));
+}));
+
+// Parse the paging and filter query parameters of the transaction list endpoints.
+// Returns the filters for transactionRepository.findPage, or throws with a message.
+function parseTransactionQuery(query) {
+  const { direction, status, creatorId, from, to, minAmountWei, cursor } = query;
 
-// Get transaction history for an address
+  if (direction !== undefined && !TRANSACTION_DIRECTIONS.includes(direction)) {
+    throw new Error('direction must be sent or received');
+  }
+  if (status !== undefined && !TRANSACTION_STATUSES.includes(status)) {
+    throw new Error('status must be pending, confirmed or failed');
+  }
+
+  const parseDate = (value, name) => {
+    if (value === undefined) return undefined;
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+      throw new Error(`Invalid ${name} date`);
+    }
+    return new Date(time).toISOString();
+  };
+
+  let minAmount;
+  if (minAmountWei !== undefined) {
+    try {
+      minAmount = parseWei(minAmountWei);
+    } catch (error) {
+      throw new Error('Invalid minAmountWei');
+    }
+  }
+
+  let limit = DEFAULT_PAGE_SIZE;
+  if (query.limit !== undefined) {
+    limit = parseInt(query.limit, 10);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error('limit must be a positive number');
+    }
+    limit = Math.min(limit, MAX_PAGE_SIZE);
+  }
+
+  return {
+    direction,
+    status,
+    creatorId,
+    from: parseDate(from, 'from'),
+    to: parseDate(to, 'to'),
+    minAmountWei: minAmount,
+    cursor,
+    limit
+  };
+}
+
+// Get one page of an address's transaction history, newest first
 app.get('/api/history/:address', (req, res) => {
+  try {
+    res.json(transactionRepository.findPage({ ...parseTransactionQuery(req.query), address: req.params.address }));
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Download an address's history for bookkeeping, oldest first, as CSV or JSON.
+// Takes the same filters as the history, usually just a from/to date range.
+app.get('/api/history/:address/export', (req, res) => {
   const { address } = req.params;
-  const userTransactions = transactions.filter(
-    tx => tx.fromAddress === address.toLowerCase() || tx.toAddress === address.toLowerCase()
-  );
-  
-  res.json(userTransactions.sort((a, b) => new Date(b.timestamp) - new Date(a.timestamp)));
+  const format = req.query.format || 'csv';
+
+  if (!web3.utils.isAddress(address)) {
+    return res.status(400).json({ error: 'Invalid wallet address' });
+  }
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ error: 'format must be csv or json' });
+  }
+
+  let filters;
+  try {
+    const { cursor, limit, ...query } = parseTransactionQuery(req.query);
+    filters = query;
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  const rows = buildExportRows(transactionRepository.findMatching({ ...filters, address }), address);
+  const filename = `tips-${address.toLowerCase().slice(0, 10)}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  res.attachment(filename);
+  if (format === 'json') {
+    res.json(rows);
+  } else {
+    res.type('text/csv').send(toCsv(rows));
+  }
 });
 
-// Get all transactions
+// Get one page of all transactions, newest first
 app.get('/api/transactions', (req, res) => {
-  res.json(transactions.sort((a, b) => new Date(b.timestamp) - new Date(a.timestamp)));
+  if (req.query.direction !== undefined) {
+    return res.status(400).json({ error: 'direction needs an address; use /api/history/:address' });
+  }
+
+  try {
+    res.json(transactionRepository.findPage(parseTransactionQuery(req.query)));
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
 });
 
-// Estimate gas for a transaction
-app.post('/api/estimate-gas', async (req, res) => {
+// Record a pledge once its createPledge transaction has been mined. Everything
+// about the pledge is read from the receipt and the contract.
+app.post('/api/pledges', asyncHandler(async (req, res) => {
+  const { txHash } = req.body;
+
+  if (!PLEDGE_VAULT_ADDRESS) {
+    return res.status(400).json({ error: 'Pledges are not available on this network' });
+  }
+  if (!txHash || !/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+    return res.status(400).json({ error: 'Invalid transaction hash' });
+  }
+
+  let receipt;
   try {
-    const { from, to, value } = req.body;
-    
-    const gasEstimate = await shardeumRPC('eth_estimateGas', [{
-      from,
-      to,
-      value: web3.utils.toHex(web3.utils.toWei(value, 'ether'))
-    }]);
-    
-    res.json({
-      gasEstimate: parseInt(gasEstimate, 16)
-    });
+    receipt = await shardeumRPC('eth_getTransactionReceipt', [txHash]);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to estimate gas' });
+    return res.status(502).json({ error: 'Failed to fetch transaction receipt from Shardeum' });
+  }
+
+  if (!receipt) {
+    return res.status(400).json({ error: 'Transaction has not been mined yet' });
+  }
+  if (receipt.status === '0x0') {
+    return res.status(400).json({ error: 'Transaction reverted' });
   }
+
+  const created = decodePledgeCreated(receipt);
+  if (!created) {
+    return res.status(400).json({ error: 'Transaction did not create a pledge' });
+  }
+
+  const existing = pledgeRepository.findByChainId(PLEDGE_VAULT_ADDRESS, created.chainPledgeId);
+  if (existing) {
+    return res.status(200).json(existing);
+  }
+
+  const creator = creatorRepository.findById(created.creatorId);
+  if (!creator || creator.address.toLowerCase() !== created.creator) {
+    return res.status(400).json({ error: 'Pledge is not for a registered creator' });
+  }
+
+  let onChain;
+  try {
+    onChain = await readPledge(created.chainPledgeId);
+  } catch (error) {
+    return res.status(502).json({ error: 'Failed to read pledge from Shardeum' });
+  }
+
+  const pledge = pledgeRepository.create({
+    id: crypto.randomUUID(),
+    contractAddress: PLEDGE_VAULT_ADDRESS,
+    chainPledgeId: created.chainPledgeId,
+    supporterAddress: created.supporter,
+    creatorId: creator.id,
+    creatorAddress: creator.address,
+    amountPerPeriodWei: created.amountPerPeriodWei,
+    balanceWei: onChain.balanceWei,
+    nextDueAt: onChain.nextDueAt,
+    status: derivePledgeStatus(onChain),
+    createdTxHash: txHash.toLowerCase()
+  });
+  liveEvents.publishCreator(creator.id);
+
+  // The first period is due straight away
+  runPledgeScheduler();
+
+  res.status(201).json(pledge);
+}));
+
+// List a supporter's pledges, or the pledges to a creator
+app.get('/api/pledges', (req, res) => {
+  const { supporter, creatorId } = req.query;
+
+  if (supporter) {
+    return res.json(pledgeRepository.findBySupporter(supporter));
+  }
+  if (creatorId) {
+    return res.json(pledgeRepository.findByCreator(creatorId));
+  }
+  res.status(400).json({ error: 'supporter or creatorId is required' });
+});
+
+app.get('/api/pledges/:id', (req, res) => {
+  const pledge = pledgeRepository.findById(req.params.id);
+  if (!pledge) {
+    return res.status(404).json({ error: 'Pledge not found' });
+  }
+  res.json(pledge);
 });
 
+// Re-read a pledge from the contract after the supporter topped it up, paused,
+// resumed or cancelled it
+app.post('/api/pledges/:id/sync', asyncHandler(async (req, res) => {
+  const pledge = pledgeRepository.findById(req.params.id);
+  if (!pledge) {
+    return res.status(404).json({ error: 'Pledge not found' });
+  }
+
+  try {
+    res.json(await syncPledge(pledge));
+  } catch (error) {
+    res.status(502).json({ error: 'Failed to read pledge from Shardeum' });
+  }
+}));
+
+// Estimate the gas limit and slow/normal/fast fees for a transaction
+app.post('/api/estimate-gas', asyncHandler(async (req, res) => {
+  const { from, to, value, valueWei: rawValueWei, data } = req.body;
+
+  if (!from || !to || !web3.utils.isAddress(from) || !web3.utils.isAddress(to)) {
+    return res.status(400).json({ error: 'Invalid from or to address' });
+  }
+  if (data !== undefined && !/^0x([0-9a-fA-F]{2})*$/.test(data)) {
+    return res.status(400).json({ error: 'Invalid data' });
+  }
+
+  // The value is sent as a wei string; a decimal SHM `value` is still accepted
+  let valueWei;
+  try {
+    valueWei = rawValueWei !== undefined ? parseWei(rawValueWei) : parseShm(value || '0');
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  try {
+    res.json(await estimateFees({ from, to, valueWei, data }));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to estimate gas' });
+  }
+}));
+
+// Stream of new tips, tip status changes and creator updates (server-sent events)
+app.get('/api/events', liveEvents.subscribe);
+
 // Health check
 app.get('/api/health', (req, res) => {
   res.json({ status: 'OK', timestamp: new Date().toISOString() });
 });
 
-app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-  console.log(`Connected to Shardeum network: ${SHARDEUM_RPC}`);
-}); 
\ No newline at end of file
+// Serve the built client too, when there is one. Creator pages get their
+// OpenGraph tags filled in so that shared links preview properly. /embed/:id is
+// the tip widget that public/embed.js puts in an iframe on creators' own sites,
+// a separate page that loads only the widget bundle.
+const serveClient = hasClientBuild();
+if (serveClient) {
+  app.get('/c/:id', (req, res) => {
+    const creator = creatorRepository.findById(req.params.id);
+    const baseUrl = (PUBLIC_APP_URL || `${req.protocol}://${req.get('host')}`).replace(/\/$/, '');
+    res.status(creator ? 200 : 404).type('html').send(renderCreatorPage(creator, baseUrl));
+  });
+  app.get('/embed/:id', (req, res) => {
+    res.sendFile(EMBED_HTML_PATH);
+  });
+  app.use(express.static(CLIENT_BUILD_DIR));
+}
+
+// Errors that a route did not handle itself
+app.use((error, req, res, next) => {
+  console.error(`${req.method} ${req.path} failed:`, error);
+  if (res.headersSent) {
+    return next(error);
+  }
+  res.status(500).json({ error: 'Internal server error' });
+});
+
+// Start the background jobs and the HTTP server. Tests load the app without them.
+function start() {
+  setInterval(runConfirmer, CONFIRMER_INTERVAL_MS);
+  if (INDEXER_ENABLED) {
+    setInterval(runIndexer, INDEXER_INTERVAL_MS);
+  }
+  setInterval(runPledgeScheduler, PLEDGE_SCHEDULER_INTERVAL_MS);
+  setInterval(() => sessionRepository.purgeExpired(), 60 * 60 * 1000);
+  // Campaigns are marked reached when a tip confirms, and expired here once their deadline passes
+  const expireCampaigns = () => {
+    campaignRepository.expireOverdue().forEach(campaign => liveEvents.publishCreator(campaign.creatorId));
+  };
+  expireCampaigns();
+  setInterval(expireCampaigns, 60 * 1000);
+
+  app.listen(PORT, () => {
+    console.log(`Server running on port ${PORT}`);
+    console.log(`Connected to ${activeNetwork.name} (chain ${activeNetwork.chainId}): ${SHARDEUM_RPC}`);
+    console.log(`Using database: ${db.DB_PATH}`);
+    if (TIP_JAR_ADDRESS) {
+      console.log(`TipJar contract: ${TIP_JAR_ADDRESS}`);
+    }
+    if (PLEDGE_VAULT_ADDRESS) {
+      console.log(`PledgeVault contract: ${PLEDGE_VAULT_ADDRESS} (keeper: ${KEEPER_ADDRESS || 'not configured'})`);
+    }
+    if (TOKENS.length > 0) {
+      console.log(`Tippable tokens: ${TOKENS.map(token => token.symbol).join(', ')}`);
+    }
+    if (serveClient) {
+      console.log(`Serving client from ${CLIENT_BUILD_DIR}`);
+    }
+  });
+}
+
+if (require.main === module) {
+  start();
+}
+
+module.exports = app;
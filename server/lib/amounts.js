@@ -0,0 +1,41 @@
+// Exact SHM amount handling. Amounts are stored and compared as wei (bigint);
+// decimal SHM strings are only for display and for input from clients.
+const { Web3 } = require('web3');
+
+const SHM_AMOUNT_PATTERN = /^\d+(\.\d{1,18})?$/;
+const WEI_AMOUNT_PATTERN = /^\d+$/;
+
+// Parse a decimal SHM string ("1.5") into wei. Throws on malformed input.
+function parseShm(amount) {
+  const value = String(amount).trim();
+  if (!SHM_AMOUNT_PATTERN.test(value)) {
+    throw new Error('Invalid amount');
+  }
+  return BigInt(Web3.utils.toWei(value, 'ether'));
+}
+
+// Parse a wei amount given as a decimal integer string. Throws on malformed input.
+function parseWei(amountWei) {
+  const value = String(amountWei).trim();
+  if (!WEI_AMOUNT_PATTERN.test(value)) {
+    throw new Error('Invalid amountWei');
+  }
+  return BigInt(value);
+}
+
+// Format wei as an exact decimal SHM string
+function formatShm(wei) {
+  return Web3.utils.fromWei(BigInt(wei), 'ether');
+}
+
+// Format an ERC-20 amount in its smallest unit as an exact decimal string
+function formatUnits(value, decimals) {
+  return Web3.utils.fromWei(BigInt(value), decimals);
+}
+
+module.exports = {
+  parseShm,
+  parseWei,
+  formatShm,
+  formatUnits
+};
@@ -0,0 +1,8 @@
+// Express 4 does not catch a promise rejected by a route handler: an error
+// thrown after an await would go unhandled and stop the process. Wrapping the
+// handler passes it to next(), and on to the error handler, instead.
+function asyncHandler(handler) {
+  return (req, res, next) => Promise.resolve(handler(req, res, next)).catch(next);
+}
+
+module.exports = asyncHandler;
@@ -0,0 +1,262 @@
+// Background indexer that imports native SHM and ERC-20 transfers sent directly to
+// registered creator addresses, and tips through the TipJar and PledgeVault
+// contracts, i.e. tips that never went through POST /api/tips or the pledge keeper.
+const crypto = require('crypto');
+const db = require('../db');
+const creatorRepository = require('../repositories/creatorRepository');
+const transactionRepository = require('../repositories/transactionRepository');
+const checkpointRepository = require('../repositories/checkpointRepository');
+const { shardeumRPC } = require('./shardeumRpc');
+const { decodeMessageFromInput } = require('./tipMessage');
+const { isTipJarAddress, decodeTipCall, decodeTipEvents } = require('./tipJar');
+const { isPledgeVaultAddress } = require('./pledgeVault');
+const { sameSplits, splitAmount } = require('./payoutSplits');
+const { findToken, decodeTransferCall, decodeTransferEvents } = require('./erc20');
+const { paidFeeWei } = require('./feeEstimator');
+const { publishTransaction } = require('./liveEvents');
+
+const CHECKPOINT_NAME = 'native-transfers';
+const REQUIRED_CONFIRMATIONS = parseInt(process.env.REQUIRED_CONFIRMATIONS || '1', 10);
+const INDEXER_BATCH_SIZE = parseInt(process.env.INDEXER_BATCH_SIZE || '50', 10);
+const INDEXER_START_BLOCK = process.env.INDEXER_START_BLOCK;
+
+const toHex = (blockNumber) => `0x${blockNumber.toString(16)}`;
+
+// Store an imported transfer and credit it to the creator in one database transaction
+const recordTransfer = db.transaction((transaction) => {
+  transactionRepository.create(transaction);
+  const token = transaction.tokenAddress
+    ? { address: transaction.tokenAddress, decimals: transaction.tokenDecimals }
+    : null;
+  creatorRepository.addTip(transaction.creatorId, transaction.amountWei, token);
+});
+
+function creatorsByAddress() {
+  return new Map(creatorRepository.findAll().map(creator => [creator.address.toLowerCase(), creator]));
+}
+
+// Highest block with enough confirmations to import as final
+async function getSafeHead() {
+  const latestBlock = parseInt(await shardeumRPC('eth_blockNumber'), 16);
+  return latestBlock - (REQUIRED_CONFIRMATIONS - 1);
+}
+
+// A TipJar tipSplit call only counts for the creator it names when it pays out
+// exactly the creator's current payout splits
+function findSplitTip(tx, tipCall, receipt) {
+  const creator = creatorRepository.findById(tipCall.creatorId);
+  if (!creator || !sameSplits(tipCall.splits, creator.splits)) return null;
+
+  const events = decodeTipEvents(receipt, tx.to.toLowerCase());
+  if (events.length !== tipCall.splits.length) return null;
+
+  return {
+    fromAddress: events[0].from,
+    toAddress: creator.address,
+    amountWei: events.reduce((sum, event) => sum + event.amountWei, 0n),
+    creatorId: creator.id,
+    message: events[0].message,
+    contractAddress: tx.to.toLowerCase(),
+    splits: events.map((event, index) => ({
+      address: event.creator,
+      shareBps: tipCall.splits[index].shareBps,
+      amountWei: event.amountWei
+    }))
+  };
+}
+
+// Whether the receipt holds a Transfer of `token` from `from` for every payout
+function hasTokenTransfers(receipt, token, from, payouts) {
+  const transfers = decodeTransferEvents(receipt, token.address);
+  return payouts.every(payout => transfers.some(transfer =>
+    transfer.from === from && transfer.to === payout.address && transfer.amountWei === payout.amountWei
+  ));
+}
+
+// A TipJar tipToken call, to one creator or split like the creator's payout splits
+function findTokenTip(tx, tipCall, receipt, creators) {
+  const token = findToken(tipCall.token);
+  if (!token) return null;
+
+  const creator = tipCall.splits
+    ? creatorRepository.findById(tipCall.creatorId)
+    : creators.get(tipCall.creator);
+  if (!creator || (tipCall.splits && !sameSplits(tipCall.splits, creator.splits))) return null;
+
+  const payouts = tipCall.splits
+    ? splitAmount(tipCall.amountWei, tipCall.splits)
+    : [{ address: tipCall.creator, amountWei: tipCall.amountWei }];
+  if (!hasTokenTransfers(receipt, token, tx.from.toLowerCase(), payouts)) return null;
+
+  return {
+    fromAddress: tx.from.toLowerCase(),
+    toAddress: creator.address,
+    amountWei: tipCall.amountWei,
+    creatorId: creator.id,
+    message: tipCall.message,
+    contractAddress: tx.to.toLowerCase(),
+    tokenAddress: token.address,
+    tokenDecimals: token.decimals,
+    splits: tipCall.splits ? payouts : undefined
+  };
+}
+
+// The tip a successful transaction sent to a creator, or null if it is not one:
+// a plain SHM or token transfer to the creator's address, a TipJar call, or a
+// pledge collection
+async function findTip(tx, creators) {
+  const viaTipJar = isTipJarAddress(tx.to);
+  const viaPledgeVault = isPledgeVaultAddress(tx.to);
+  const token = findToken(tx.to);
+  const transfer = token ? decodeTransferCall(tx.input) : null;
+  const tipCall = viaTipJar ? decodeTipCall(tx.input) : null;
+
+  const creator = token
+    ? transfer && transfer.amountWei > 0n && creators.get(transfer.to)
+    : !viaTipJar && !viaPledgeVault && creators.get(tx.to.toLowerCase());
+  if (!viaTipJar && !viaPledgeVault && !creator) return null;
+  // Pledge collections and token tips carry no SHM; the vault pays from the pledge balance
+  if (!viaPledgeVault && !token && !(tipCall && tipCall.token) && BigInt(tx.value) === 0n) return null;
+
+  const receipt = await shardeumRPC('eth_getTransactionReceipt', [tx.hash]);
+  if (!receipt || receipt.status === '0x0') return null;
+
+  const tip = decodeTip(tx, receipt, { creator, token, transfer, tipCall }, creators);
+  return tip && { ...tip, feeWei: paidFeeWei(receipt, tip.fromAddress) };
+}
+
+// The tip in a successful transaction, given what findTip learned from its calldata
+function decodeTip(tx, receipt, { creator, token, transfer, tipCall }, creators) {
+  if (token) {
+    const payout = { address: transfer.to, amountWei: transfer.amountWei };
+    if (!hasTokenTransfers(receipt, token, tx.from.toLowerCase(), [payout])) return null;
+    return {
+      fromAddress: tx.from.toLowerCase(),
+      toAddress: transfer.to,
+      amountWei: transfer.amountWei,
+      creatorId: creator.id,
+      message: null,
+      contractAddress: null,
+      tokenAddress: token.address,
+      tokenDecimals: token.decimals
+    };
+  }
+
+  if (creator) {
+    const message = decodeMessageFromInput(tx.input);
+    return {
+      fromAddress: tx.from.toLowerCase(),
+      toAddress: tx.to.toLowerCase(),
+      amountWei: BigInt(tx.value),
+      creatorId: creator.id,
+      message,
+      contractAddress: null
+    };
+  }
+
+  if (tipCall && tipCall.token) {
+    return findTokenTip(tx, tipCall, receipt, creators);
+  }
+  if (tipCall && tipCall.splits) {
+    return findSplitTip(tx, tipCall, receipt);
+  }
+
+  const event = decodeTipEvents(receipt, tx.to.toLowerCase()).find(tip => creators.has(tip.creator));
+  if (!event) return null;
+
+  return {
+    fromAddress: event.from,
+    toAddress: event.creator,
+    amountWei: event.amountWei,
+    creatorId: creators.get(event.creator).id,
+    message: event.message,
+    contractAddress: tx.to.toLowerCase()
+  };
+}
+
+// Import every successful tip to a creator in one block. Returns the number imported.
+async function indexBlock(blockNumber, creators) {
+  const block = await shardeumRPC('eth_getBlockByNumber', [toHex(blockNumber), true]);
+  if (!block) {
+    throw new Error(`Block ${blockNumber} not found`);
+  }
+
+  let imported = 0;
+  for (const tx of block.transactions || []) {
+    if (!tx.to || transactionRepository.findByTxHash(tx.hash)) continue;
+
+    const tip = await findTip(tx, creators);
+    if (!tip) continue;
+
+    const id = crypto.randomUUID();
+    recordTransfer({
+      ...tip,
+      id,
+      txHash: tx.hash,
+      timestamp: new Date(parseInt(block.timestamp, 16) * 1000).toISOString(),
+      status: 'confirmed',
+      blockNumber,
+      confirmedAt: new Date().toISOString(),
+      messageOnChain: Boolean(tip.message),
+      source: 'indexer'
+    });
+    publishTransaction(id);
+    imported++;
+  }
+
+  return imported;
+}
+
+// Scan a block range without moving the checkpoint. Already-recorded
+// transactions are skipped, so ranges can safely be re-scanned.
+async function backfill(fromBlock, toBlock, onProgress = () => {}) {
+  const creators = creatorsByAddress();
+  let imported = 0;
+
+  for (let blockNumber = fromBlock; blockNumber <= toBlock; blockNumber++) {
+    imported += await indexBlock(blockNumber, creators);
+    onProgress(blockNumber, imported);
+  }
+
+  return imported;
+}
+
+// Index the next batch of blocks after the checkpoint
+let indexerRunning = false;
+async function runIndexer() {
+  if (indexerRunning) return;
+  indexerRunning = true;
+
+  try {
+    const safeHead = await getSafeHead();
+
+    let lastIndexed = checkpointRepository.get(CHECKPOINT_NAME);
+    if (lastIndexed === null) {
+      // First run: start from INDEXER_START_BLOCK, or from the current head
+      lastIndexed = INDEXER_START_BLOCK ? parseInt(INDEXER_START_BLOCK, 10) - 1 : safeHead;
+      checkpointRepository.set(CHECKPOINT_NAME, lastIndexed);
+    }
+
+    const toBlock = Math.min(safeHead, lastIndexed + INDEXER_BATCH_SIZE);
+    const creators = creatorsByAddress();
+
+    for (let blockNumber = lastIndexed + 1; blockNumber <= toBlock; blockNumber++) {
+      const imported = await indexBlock(blockNumber, creators);
+      if (imported > 0) {
+        console.log(`Indexer imported ${imported} tip(s) from block ${blockNumber}`);
+      }
+      checkpointRepository.set(CHECKPOINT_NAME, blockNumber);
+    }
+  } catch (error) {
+    console.error('Indexer error:', error.message);
+  } finally {
+    indexerRunning = false;
+  }
+}
+
+module.exports = {
+  CHECKPOINT_NAME,
+  getSafeHead,
+  backfill,
+  runIndexer
+};
@@ -0,0 +1,63 @@
+// Link previews for creator pages. Crawlers that build previews do not run the
+// app, so /c/:id is served as the built client's index.html with the creator's
+// title, description and OpenGraph tags already in the head.
+const fs = require('fs');
+const path = require('path');
+
+const CLIENT_BUILD_DIR = process.env.CLIENT_BUILD_DIR || path.join(__dirname, '../../client/build');
+const INDEX_HTML_PATH = path.join(CLIENT_BUILD_DIR, 'index.html');
+// The tip widget page, built apart from the app (see client/scripts/build-embed.js)
+const EMBED_HTML_PATH = path.join(CLIENT_BUILD_DIR, 'embed.html');
+const MAX_PREVIEW_DESCRIPTION_LENGTH = 200;
+
+// The tags of index.html that a creator page replaces
+const REPLACED_HEAD_TAGS = [
+  /<title>[^<]*<\/title>/g,
+  /<meta\s+name="description"[^>]*>/g,
+  /<meta\s+property="og:(?:title|description|type|url|image)"[^>]*>/g
+];
+
+const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const truncate = (text, length) => (text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text);
+
+function hasClientBuild() {
+  return fs.existsSync(INDEX_HTML_PATH);
+}
+
+function buildCreatorHead(creator, baseUrl) {
+  const title = `${creator.name} on SHM Tip Jar`;
+  const description = truncate(creator.description.replace(/\s+/g, ' ').trim(), MAX_PREVIEW_DESCRIPTION_LENGTH);
+  const url = `${baseUrl}/c/${encodeURIComponent(creator.id)}`;
+
+  return [
+    `<title>${escapeHtml(title)}</title>`,
+    `<meta name="description" content="${escapeHtml(description)}">`,
+    '<meta property="og:type" content="profile">',
+    `<meta property="og:title" content="${escapeHtml(title)}">`,
+    `<meta property="og:description" content="${escapeHtml(description)}">`,
+    `<meta property="og:url" content="${escapeHtml(url)}">`,
+    `<meta property="og:image" content="${escapeHtml(creator.avatar)}">`
+  ].join('');
+}
+
+// index.html for a creator's page; unchanged when the creator does not exist.
+// Read on every request so that a rebuilt client is picked up.
+function renderCreatorPage(creator, baseUrl) {
+  const html = fs.readFileSync(INDEX_HTML_PATH, 'utf8');
+  if (!creator) return html;
+
+  const stripped = REPLACED_HEAD_TAGS.reduce((result, pattern) => result.replace(pattern, ''), html);
+  return stripped.replace('</head>', `${buildCreatorHead(creator, baseUrl)}</head>`);
+}
+
+module.exports = {
+  CLIENT_BUILD_DIR,
+  EMBED_HTML_PATH,
+  hasClientBuild,
+  renderCreatorPage
+};
@@ -0,0 +1,49 @@
+// EIP-191 proof that a creator registration was requested by the wallet being registered.
+// The client signs this exact text with personal_sign; the server rebuilds it and
+// recovers the signer.
+
+const REGISTRATION_MAX_AGE_MS = 10 * 60 * 1000;
+
+function buildRegistrationMessage({ name, address, issuedAt }) {
+  return [
+    'SHM Tip Jar creator registration',
+    '',
+    `Name: ${name}`,
+    `Address: ${address.toLowerCase()}`,
+    `Issued At: ${issuedAt}`
+  ].join('\n');
+}
+
+// Returns an error message, or null when the signature proves ownership of address
+function verifyRegistrationSignature(web3, { name, address, issuedAt, signature }) {
+  if (!signature || !issuedAt) {
+    return 'Missing registration signature';
+  }
+
+  const issuedAtTime = Date.parse(issuedAt);
+  if (Number.isNaN(issuedAtTime)) {
+    return 'Invalid issuedAt timestamp';
+  }
+  const age = Date.now() - issuedAtTime;
+  if (age > REGISTRATION_MAX_AGE_MS || age < -60 * 1000) {
+    return 'Registration signature has expired';
+  }
+
+  let signer;
+  try {
+    signer = web3.eth.accounts.recover(buildRegistrationMessage({ name, address, issuedAt }), signature);
+  } catch (error) {
+    return 'Invalid registration signature';
+  }
+
+  if (signer.toLowerCase() !== address.toLowerCase()) {
+    return 'Registration must be signed by the wallet being registered';
+  }
+
+  return null;
+}
+
+module.exports = {
+  buildRegistrationMessage,
+  verifyRegistrationSignature
+};
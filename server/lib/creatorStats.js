@@ -0,0 +1,110 @@
+// Aggregate a creator's confirmed tips into the analytics served by
+// GET /api/creators/:id/stats. All amounts are wei strings.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOP_SUPPORTERS_LIMIT = 5;
+
+// How many periods of each bucket size to return, ending with the current one
+const BUCKET_WINDOWS = {
+  daily: 30,
+  weekly: 12,
+  monthly: 12
+};
+
+function startOfDay(date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// Weeks start on Monday (UTC)
+function startOfWeek(date) {
+  const day = startOfDay(date);
+  const offset = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - offset * DAY_MS);
+}
+
+function startOfMonth(date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+const bucketStart = {
+  daily: startOfDay,
+  weekly: startOfWeek,
+  monthly: startOfMonth
+};
+
+function previousBucket(interval, date) {
+  if (interval === 'daily') return new Date(date.getTime() - DAY_MS);
+  if (interval === 'weekly') return new Date(date.getTime() - 7 * DAY_MS);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - 1, 1));
+}
+
+function bucketKey(interval, date) {
+  const iso = date.toISOString();
+  return interval === 'monthly' ? iso.slice(0, 7) : iso.slice(0, 10);
+}
+
+// Totals per period for the window ending now, oldest first, including empty periods
+function buildBuckets(interval, tips, now) {
+  const buckets = [];
+  let start = bucketStart[interval](now);
+  for (let i = 0; i < BUCKET_WINDOWS[interval]; i++) {
+    buckets.unshift({ period: bucketKey(interval, start), totalWei: 0n, count: 0 });
+    start = previousBucket(interval, start);
+  }
+
+  const byPeriod = new Map(buckets.map(bucket => [bucket.period, bucket]));
+  for (const tip of tips) {
+    const key = bucketKey(interval, bucketStart[interval](new Date(tip.timestamp)));
+    const bucket = byPeriod.get(key);
+    if (bucket) {
+      bucket.totalWei += BigInt(tip.amountWei);
+      bucket.count += 1;
+    }
+  }
+
+  return buckets.map(bucket => ({ ...bucket, totalWei: bucket.totalWei.toString() }));
+}
+
+function median(values) {
+  if (values.length === 0) return 0n;
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2n : sorted[middle];
+}
+
+function buildCreatorStats(creator, tips, now = new Date()) {
+  const amounts = tips.map(tip => BigInt(tip.amountWei));
+  const total = amounts.reduce((sum, amount) => sum + amount, 0n);
+
+  const supporters = new Map();
+  for (const tip of tips) {
+    const supporter = supporters.get(tip.fromAddress) || { address: tip.fromAddress, totalWei: 0n, count: 0 };
+    supporter.totalWei += BigInt(tip.amountWei);
+    supporter.count += 1;
+    supporters.set(tip.fromAddress, supporter);
+  }
+
+  const topSupporters = [...supporters.values()]
+    .sort((a, b) => (b.totalWei > a.totalWei ? 1 : b.totalWei < a.totalWei ? -1 : 0))
+    .slice(0, TOP_SUPPORTERS_LIMIT)
+    .map(supporter => ({ ...supporter, totalWei: supporter.totalWei.toString() }));
+
+  return {
+    creatorId: creator.id,
+    totalTipsWei: total.toString(),
+    tipCount: tips.length,
+    uniqueTippers: supporters.size,
+    averageTipWei: (tips.length > 0 ? total / BigInt(tips.length) : 0n).toString(),
+    medianTipWei: median(amounts).toString(),
+    topSupporters,
+    buckets: {
+      daily: buildBuckets('daily', tips, now),
+      weekly: buildBuckets('weekly', tips, now),
+      monthly: buildBuckets('monthly', tips, now)
+    }
+  };
+}
+
+module.exports = {
+  buildCreatorStats
+};
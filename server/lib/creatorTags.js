@@ -0,0 +1,31 @@
+// Tags put creators into categories ("music", "open-source") that the creator
+// list can be filtered by. Tags are lowercase slugs and stored as given.
+const MAX_CREATOR_TAGS = 5;
+const MAX_TAG_LENGTH = 24;
+const TAG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+const isValidTag = (tag) => typeof tag === 'string' && tag.length <= MAX_TAG_LENGTH && TAG_PATTERN.test(tag);
+
+// Check tags sent to the API. Returns an error message, or null when they are
+// valid. An empty list is valid and removes all tags.
+function validateTags(tags) {
+  if (!Array.isArray(tags)) {
+    return 'tags must be an array';
+  }
+  if (tags.length > MAX_CREATOR_TAGS) {
+    return `A creator can have at most ${MAX_CREATOR_TAGS} tags`;
+  }
+  if (!tags.every(isValidTag)) {
+    return `Tags must be lowercase letters, digits and dashes, at most ${MAX_TAG_LENGTH} characters`;
+  }
+  if (new Set(tags).size !== tags.length) {
+    return 'Each tag can only appear once';
+  }
+  return null;
+}
+
+module.exports = {
+  MAX_CREATOR_TAGS,
+  isValidTag,
+  validateTags
+};
@@ -0,0 +1,61 @@
+// Helpers for ERC-20 token tips: the configured token list, transfer(to, amount)
+// calldata and the Transfer(from, to, value) events that prove a token moved.
+const { eth } = require('web3');
+const ERC20_ABI = require('../config/shared/erc20Abi.json');
+const { activeNetwork } = require('../config/networks');
+
+const transferFunction = ERC20_ABI.find(item => item.type === 'function' && item.name === 'transfer');
+const transferEvent = ERC20_ABI.find(item => item.type === 'event' && item.name === 'Transfer');
+
+const TRANSFER_SELECTOR = eth.abi.encodeFunctionSignature(transferFunction);
+const TRANSFER_EVENT_TOPIC = eth.abi.encodeEventSignature(transferEvent);
+
+// ERC-20 tokens that can be tipped on the configured network
+const TOKENS = activeNetwork.tokens;
+
+// The configured token at `address`, or null
+function findToken(address) {
+  if (!address) return null;
+  return TOKENS.find(token => token.address === address.toLowerCase()) || null;
+}
+
+// Decode the calldata of a transfer(to, amount) call. Returns null when the
+// input is not a transfer call.
+function decodeTransferCall(input) {
+  if (!input || !input.toLowerCase().startsWith(TRANSFER_SELECTOR)) return null;
+
+  try {
+    const params = eth.abi.decodeParameters(transferFunction.inputs, `0x${input.slice(10)}`);
+    return {
+      to: params.to.toLowerCase(),
+      amountWei: BigInt(params.amount)
+    };
+  } catch (error) {
+    return null;
+  }
+}
+
+// Decode the Transfer events `tokenAddress` emitted in a transaction receipt
+function decodeTransferEvents(receipt, tokenAddress) {
+  return (receipt.logs || [])
+    .filter(log =>
+      log.address.toLowerCase() === tokenAddress.toLowerCase() &&
+      log.topics[0] === TRANSFER_EVENT_TOPIC &&
+      log.topics.length === 3
+    )
+    .map(log => {
+      const event = eth.abi.decodeLog(transferEvent.inputs, log.data, log.topics.slice(1));
+      return {
+        from: event.from.toLowerCase(),
+        to: event.to.toLowerCase(),
+        amountWei: BigInt(event.value)
+      };
+    });
+}
+
+module.exports = {
+  TOKENS,
+  findToken,
+  decodeTransferCall,
+  decodeTransferEvents
+};
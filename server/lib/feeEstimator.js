@@ -0,0 +1,116 @@
+// Gas and fee estimation for tips, served by POST /api/estimate-gas. Networks
+// that report a base fee get EIP-1559 tiers; others fall back to legacy gas prices.
+// Also works out the fee actually paid once a transaction is mined.
+const { shardeumRPC } = require('./shardeumRpc');
+
+const FEE_TIERS = ['slow', 'normal', 'fast'];
+const FEE_HISTORY_BLOCKS = 10;
+// Priority fee reward percentiles for the slow, normal and fast tiers
+const REWARD_PERCENTILES = [10, 50, 90];
+// Legacy gas price for each tier, as a percentage of eth_gasPrice
+const LEGACY_PRICE_PERCENT = [100n, 110n, 125n];
+// A plain transfer always costs exactly this; anything else gets 20% headroom
+const TRANSFER_GAS = 21000n;
+const GAS_LIMIT_PERCENT = 120n;
+
+const toHex = (value) => `0x${value.toString(16)}`;
+
+async function estimateGasLimit({ from, to, valueWei, data }) {
+  const request = { from, to, value: toHex(valueWei) };
+  if (data) {
+    request.data = data;
+  }
+
+  const estimate = BigInt(await shardeumRPC('eth_estimateGas', [request]));
+  return estimate <= TRANSFER_GAS ? estimate : (estimate * GAS_LIMIT_PERCENT) / 100n;
+}
+
+// Average priority fee per percentile over recent blocks, or null if the node
+// does not support eth_feeHistory
+async function getPriorityFees() {
+  try {
+    const history = await shardeumRPC('eth_feeHistory', [toHex(FEE_HISTORY_BLOCKS), 'latest', REWARD_PERCENTILES]);
+    const rewards = (history.reward || []).filter(reward => reward.length === REWARD_PERCENTILES.length);
+    if (rewards.length === 0) return null;
+
+    return REWARD_PERCENTILES.map((_, index) => {
+      const sum = rewards.reduce((total, reward) => total + BigInt(reward[index]), 0n);
+      return sum / BigInt(rewards.length);
+    });
+  } catch (error) {
+    return null;
+  }
+}
+
+async function buildEip1559Tiers(baseFee, gasLimit) {
+  let priorityFees = await getPriorityFees();
+  if (!priorityFees) {
+    const suggested = BigInt(await shardeumRPC('eth_maxPriorityFeePerGas'));
+    priorityFees = LEGACY_PRICE_PERCENT.map(percent => (suggested * percent) / 100n);
+  }
+
+  return FEE_TIERS.reduce((tiers, tier, index) => {
+    const maxPriorityFeePerGas = priorityFees[index];
+    // Leave room for the base fee to double before the transaction is included
+    const maxFeePerGas = baseFee * 2n + maxPriorityFeePerGas;
+    tiers[tier] = {
+      maxFeePerGas: maxFeePerGas.toString(),
+      maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+      estimatedFeeWei: (gasLimit * (baseFee + maxPriorityFeePerGas)).toString(),
+      maxFeeWei: (gasLimit * maxFeePerGas).toString()
+    };
+    return tiers;
+  }, {});
+}
+
+async function buildLegacyTiers(gasLimit) {
+  const gasPrice = BigInt(await shardeumRPC('eth_gasPrice'));
+
+  return FEE_TIERS.reduce((tiers, tier, index) => {
+    const tierPrice = (gasPrice * LEGACY_PRICE_PERCENT[index]) / 100n;
+    const fee = (gasLimit * tierPrice).toString();
+    tiers[tier] = { gasPrice: tierPrice.toString(), estimatedFeeWei: fee, maxFeeWei: fee };
+    return tiers;
+  }, {});
+}
+
+// Estimate the gas limit and the fee for each tier. Amounts are wei strings.
+async function estimateFees({ from, to, valueWei, data }) {
+  const [gasLimit, latestBlock] = await Promise.all([
+    estimateGasLimit({ from, to, valueWei, data }),
+    shardeumRPC('eth_getBlockByNumber', ['latest', false])
+  ]);
+
+  const baseFee = latestBlock && latestBlock.baseFeePerGas ? BigInt(latestBlock.baseFeePerGas) : null;
+
+  let tiers = null;
+  if (baseFee !== null) {
+    try {
+      tiers = await buildEip1559Tiers(baseFee, gasLimit);
+    } catch (error) {
+      console.warn('EIP-1559 fee estimation failed, using legacy gas price:', error.message);
+    }
+  }
+
+  return {
+    gasEstimate: Number(gasLimit),
+    gasLimit: gasLimit.toString(),
+    type: tiers ? 'eip1559' : 'legacy',
+    baseFeePerGas: tiers ? baseFee.toString() : null,
+    tiers: tiers || await buildLegacyTiers(gasLimit)
+  };
+}
+
+// The fee `from` paid for a mined transaction, as a wei string. Null when someone
+// else sent it (e.g. the pledge keeper) or the node leaves out the gas price.
+function paidFeeWei(receipt, from) {
+  if (!receipt.from || receipt.from.toLowerCase() !== from.toLowerCase()) return null;
+  if (!receipt.gasUsed || !receipt.effectiveGasPrice) return null;
+  return (BigInt(receipt.gasUsed) * BigInt(receipt.effectiveGasPrice)).toString();
+}
+
+module.exports = {
+  FEE_TIERS,
+  estimateFees,
+  paidFeeWei
+};
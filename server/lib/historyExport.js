@@ -0,0 +1,99 @@
+// Tip history exports for bookkeeping, served by GET /api/history/:address/export.
+// Each row is one tip as seen from the exporting address: what it sent or
+// received, to or from whom, and the network fee when it paid one.
+const creatorRepository = require('../repositories/creatorRepository');
+const { formatShm, formatUnits } = require('./amounts');
+const { findToken } = require('./erc20');
+
+const EXPORT_FORMATS = ['csv', 'json'];
+
+const EXPORT_COLUMNS = [
+  'txHash',
+  'blockNumber',
+  'timestamp',
+  'direction',
+  'counterparty',
+  'creatorName',
+  'asset',
+  'amount',
+  'amountWei',
+  'feeShm',
+  'feeWei',
+  'status'
+];
+
+// Spreadsheet apps run cells that start with one of these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function toExportRow(transaction, address, creatorName) {
+  const sent = transaction.fromAddress === address;
+  // A split recipient only received its own part of the tip
+  const ownSplit = !sent && transaction.splits
+    ? transaction.splits.find(split => split.address === address)
+    : null;
+  const amountWei = ownSplit ? ownSplit.amountWei : transaction.amountWei;
+
+  let asset = 'SHM';
+  let amount = formatShm(amountWei);
+  if (transaction.tokenAddress) {
+    const token = findToken(transaction.tokenAddress);
+    asset = token ? token.symbol : transaction.tokenAddress;
+    amount = formatUnits(amountWei, transaction.tokenDecimals);
+  }
+
+  // Only the sender pays the network fee
+  const feeWei = sent && transaction.feeWei ? transaction.feeWei : null;
+
+  return {
+    txHash: transaction.txHash,
+    blockNumber: transaction.blockNumber ?? null,
+    timestamp: transaction.timestamp,
+    direction: sent ? 'sent' : 'received',
+    counterparty: sent ? transaction.toAddress : transaction.fromAddress,
+    creatorName,
+    asset,
+    amount,
+    amountWei,
+    feeShm: feeWei ? formatShm(feeWei) : null,
+    feeWei,
+    status: transaction.status
+  };
+}
+
+// Export rows for `address`, in the order of `transactions`
+function buildExportRows(transactions, address) {
+  const normalized = address.toLowerCase();
+  const creatorNames = new Map();
+
+  return transactions.map(transaction => {
+    const { creatorId } = transaction;
+    if (creatorId && !creatorNames.has(creatorId)) {
+      const creator = creatorRepository.findById(creatorId);
+      creatorNames.set(creatorId, creator ? creator.name : null);
+    }
+    return toExportRow(transaction, normalized, creatorId ? creatorNames.get(creatorId) : null);
+  });
+}
+
+function toCsvField(value) {
+  if (value === null || value === undefined) return '';
+
+  let text = String(value);
+  if (FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180 CSV with a header row
+function toCsv(rows) {
+  const lines = [EXPORT_COLUMNS.join(',')];
+  rows.forEach(row => lines.push(EXPORT_COLUMNS.map(column => toCsvField(row[column])).join(',')));
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+module.exports = {
+  EXPORT_FORMATS,
+  buildExportRows,
+  toCsv
+};
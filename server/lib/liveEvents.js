@@ -0,0 +1,97 @@
+// Server-sent events (SSE) stream that pushes new tips, tip status changes and
+// creator updates to the app. Every event has an ID; a client that reconnects with
+// Last-Event-ID (or ?lastEventId=) gets the events it missed replayed, or a `reset`
+// event telling it to reload everything when they are no longer buffered.
+const crypto = require('crypto');
+const creatorRepository = require('../repositories/creatorRepository');
+const transactionRepository = require('../repositories/transactionRepository');
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+const CLIENT_RETRY_MS = 3000;
+const BUFFER_SIZE = 500;
+
+// IDs are "<boot>-<sequence>", so IDs handed out before a restart are recognised as stale
+const BOOT_ID = crypto.randomBytes(4).toString('hex');
+let sequence = 0;
+const buffer = [];
+const clients = new Set();
+
+const currentId = () => `${BOOT_ID}-${sequence}`;
+
+function formatEvent(id, type, data) {
+  return `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Send an event to every connected client and keep it for replays
+function publish(type, data) {
+  sequence += 1;
+  const event = { sequence, chunk: formatEvent(currentId(), type, data) };
+
+  buffer.push(event);
+  if (buffer.length > BUFFER_SIZE) buffer.shift();
+  clients.forEach(res => res.write(event.chunk));
+}
+
+// Buffered events after `lastEventId`, or null if some of them are gone
+function eventsSince(lastEventId) {
+  const [boot, rawSequence] = String(lastEventId).split('-');
+  const after = parseInt(rawSequence, 10);
+  if (boot !== BOOT_ID || Number.isNaN(after) || after > sequence) return null;
+  if (after < sequence && (buffer.length === 0 || buffer[0].sequence > after + 1)) return null;
+  return buffer.filter(event => event.sequence > after);
+}
+
+// GET /api/events
+function subscribe(req, res) {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+  res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+  // A new client is told the current ID so that it can resume from here later
+  const lastEventId = req.get('Last-Event-ID') || req.query.lastEventId;
+  const missed = lastEventId ? eventsSince(lastEventId) : null;
+  if (missed) {
+    missed.forEach(event => res.write(event.chunk));
+  } else {
+    res.write(formatEvent(currentId(), lastEventId ? 'reset' : 'connected', {}));
+  }
+
+  clients.add(res);
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    clients.delete(res);
+  });
+}
+
+// A tip was recorded or changed; confirmed tips also changed their creator's totals
+function publishTransaction(transactionId) {
+  const transaction = transactionRepository.findById(transactionId);
+  if (!transaction) return;
+
+  publish('transaction', { transaction });
+  if (transaction.status === 'confirmed' && transaction.creatorId) {
+    publishCreator(transaction.creatorId);
+  }
+}
+
+function publishCreator(creatorId) {
+  const creator = creatorRepository.findById(creatorId);
+  if (creator) publish('creator', { creator });
+}
+
+function publishCreatorRemoved(creatorId) {
+  publish('creatorRemoved', { creatorId });
+}
+
+module.exports = {
+  subscribe,
+  publishTransaction,
+  publishCreator,
+  publishCreatorRemoved
+};
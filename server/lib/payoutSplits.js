@@ -0,0 +1,71 @@
+// Payout splits let a creator profile share its tips between several addresses.
+// Shares are in basis points and must add up to 100%; the TipJar's tipSplit
+// call enforces the same rules and rounds the same way as splitAmount.
+const TOTAL_SHARE_BPS = 10000;
+const MAX_SPLIT_RECIPIENTS = 10;
+
+// Check splits sent to the API. Returns an error message, or null when they are
+// valid. An empty list is valid and means "no split".
+function validateSplits(web3, splits) {
+  if (!Array.isArray(splits)) {
+    return 'splits must be an array';
+  }
+  if (splits.length > MAX_SPLIT_RECIPIENTS) {
+    return `A tip can be split between at most ${MAX_SPLIT_RECIPIENTS} addresses`;
+  }
+  if (splits.length === 0) return null;
+  if (splits.length === 1) {
+    return 'A split needs at least two addresses';
+  }
+
+  const seen = new Set();
+  let totalBps = 0;
+  for (const split of splits) {
+    if (!split || typeof split.address !== 'string' || !web3.utils.isAddress(split.address)) {
+      return 'Every split needs a valid address';
+    }
+    if (!Number.isInteger(split.shareBps) || split.shareBps <= 0) {
+      return 'Every split share must be a positive whole number of basis points';
+    }
+
+    const address = split.address.toLowerCase();
+    if (seen.has(address)) {
+      return 'Each address can only appear once in a split';
+    }
+    seen.add(address);
+    totalBps += split.shareBps;
+  }
+
+  if (totalBps !== TOTAL_SHARE_BPS) {
+    return 'Split shares must add up to 100%';
+  }
+  return null;
+}
+
+// Divide a tip (in wei) by the split shares. The last recipient gets the
+// rounding dust, exactly like TipJar.tipSplit.
+function splitAmount(amountWei, splits) {
+  let remaining = BigInt(amountWei);
+  return splits.map((split, index) => {
+    const part = index === splits.length - 1
+      ? remaining
+      : (BigInt(amountWei) * BigInt(split.shareBps)) / BigInt(TOTAL_SHARE_BPS);
+    remaining -= part;
+    return { address: split.address.toLowerCase(), shareBps: split.shareBps, amountWei: part };
+  });
+}
+
+// Whether two split lists name the same addresses with the same shares, in order
+function sameSplits(a, b) {
+  return a.length === b.length && a.every((split, index) =>
+    split.address.toLowerCase() === b[index].address.toLowerCase() && split.shareBps === b[index].shareBps
+  );
+}
+
+module.exports = {
+  TOTAL_SHARE_BPS,
+  MAX_SPLIT_RECIPIENTS,
+  validateSplits,
+  splitAmount,
+  sameSplits
+};
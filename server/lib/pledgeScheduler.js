@@ -0,0 +1,110 @@
+// Background job that keeps pledges in sync with the PledgeVault and collects the
+// ones that are due. Collections are sent from the PLEDGE_KEEPER_PRIVATE_KEY account;
+// without it, pledges are only tracked and someone else has to call collect.
+const crypto = require('crypto');
+const { Web3 } = require('web3');
+const pledgeRepository = require('../repositories/pledgeRepository');
+const transactionRepository = require('../repositories/transactionRepository');
+const { activeNetwork } = require('../config/networks');
+const { SHARDEUM_RPC, shardeumRPC } = require('./shardeumRpc');
+const { readPledge, encodeCollectCall, derivePledgeStatus, isDue } = require('./pledgeVault');
+const { publishTransaction, publishCreator } = require('./liveEvents');
+
+const KEEPER_PRIVATE_KEY = process.env.PLEDGE_KEEPER_PRIVATE_KEY;
+
+const keeper = KEEPER_PRIVATE_KEY
+  ? new Web3(SHARDEUM_RPC).eth.accounts.privateKeyToAccount(
+    KEEPER_PRIVATE_KEY.startsWith('0x') ? KEEPER_PRIVATE_KEY : `0x${KEEPER_PRIVATE_KEY}`
+  )
+  : null;
+
+// Address collections are sent from, or null if no keeper is configured
+const KEEPER_ADDRESS = keeper ? keeper.address.toLowerCase() : null;
+
+// Re-read a pledge from the contract and store its balance, due date and status.
+// A status change moves the creator's active pledge count.
+async function syncPledge(pledge) {
+  const onChain = await readPledge(pledge.chainPledgeId, pledge.contractAddress);
+  const synced = pledgeRepository.updateState(pledge.id, {
+    balanceWei: onChain.balanceWei,
+    nextDueAt: onChain.nextDueAt,
+    status: derivePledgeStatus(onChain)
+  });
+
+  if (synced.status !== pledge.status && synced.creatorId) {
+    publishCreator(synced.creatorId);
+  }
+  return synced;
+}
+
+// Send a collect transaction for a due pledge and record the payment as a pending
+// tip, which the confirmer settles like any other TipJar tip
+async function collectPledge(pledge) {
+  const request = {
+    from: keeper.address,
+    to: pledge.contractAddress,
+    data: encodeCollectCall(pledge.chainPledgeId)
+  };
+
+  // eth_estimateGas fails if the contract would revert, e.g. when the pledge is not due yet
+  const [nonce, gasPrice, gas] = await Promise.all([
+    shardeumRPC('eth_getTransactionCount', [keeper.address, 'pending']),
+    shardeumRPC('eth_gasPrice'),
+    shardeumRPC('eth_estimateGas', [request])
+  ]);
+  const signed = await keeper.signTransaction({
+    ...request,
+    nonce,
+    gasPrice,
+    gas,
+    chainId: activeNetwork.chainId,
+    networkId: activeNetwork.chainId
+  });
+  const txHash = await shardeumRPC('eth_sendRawTransaction', [signed.rawTransaction]);
+
+  const collection = transactionRepository.create({
+    id: crypto.randomUUID(),
+    fromAddress: pledge.supporterAddress,
+    toAddress: pledge.creatorAddress,
+    amountWei: BigInt(pledge.amountPerPeriodWei),
+    txHash,
+    creatorId: pledge.creatorId,
+    timestamp: new Date().toISOString(),
+    status: 'pending',
+    source: 'pledge',
+    contractAddress: pledge.contractAddress,
+    pledgeId: pledge.id
+  });
+  publishTransaction(collection.id);
+  return collection;
+}
+
+let schedulerRunning = false;
+async function runPledgeScheduler() {
+  if (schedulerRunning) return;
+  schedulerRunning = true;
+
+  try {
+    for (const pledge of pledgeRepository.findOpen()) {
+      try {
+        const synced = await syncPledge(pledge);
+
+        // Wait for a collection that is still pending before sending another
+        if (keeper && synced.status === 'active' && isDue(synced) && !transactionRepository.findPendingByPledge(synced.id)) {
+          const collection = await collectPledge(synced);
+          console.log(`Collected pledge ${synced.id}: ${collection.txHash}`);
+        }
+      } catch (error) {
+        console.error(`Failed to process pledge ${pledge.id}:`, error.message);
+      }
+    }
+  } finally {
+    schedulerRunning = false;
+  }
+}
+
+module.exports = {
+  KEEPER_ADDRESS,
+  syncPledge,
+  runPledgeScheduler
+};
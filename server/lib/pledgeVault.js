@@ -0,0 +1,83 @@
+// Helpers for recurring pledges held by the PledgeVault contract
+// (contracts/PledgeVault.sol). The contract is the source of truth; the server
+// mirrors each pledge's balance, due date and status in the pledges table.
+const { eth } = require('web3');
+const PLEDGE_VAULT_ABI = require('../config/shared/pledgeVaultAbi.json');
+const { activeNetwork } = require('../config/networks');
+const { shardeumRPC } = require('./shardeumRpc');
+
+const findAbiItem = (type, name) => PLEDGE_VAULT_ABI.find(item => item.type === type && item.name === name);
+
+const getPledgeFunction = findAbiItem('function', 'getPledge');
+const collectFunction = findAbiItem('function', 'collect');
+const pledgeCreatedEvent = findAbiItem('event', 'PledgeCreated');
+const PLEDGE_CREATED_TOPIC = eth.abi.encodeEventSignature(pledgeCreatedEvent);
+
+// Address of the PledgeVault on the configured network, or null if none is deployed
+const PLEDGE_VAULT_ADDRESS = activeNetwork.pledgeVaultAddress;
+
+function isPledgeVaultAddress(address) {
+  return Boolean(PLEDGE_VAULT_ADDRESS && address && address.toLowerCase() === PLEDGE_VAULT_ADDRESS);
+}
+
+// Read a pledge's current state from the contract
+async function readPledge(chainPledgeId, contractAddress = PLEDGE_VAULT_ADDRESS) {
+  const data = eth.abi.encodeFunctionCall(getPledgeFunction, [chainPledgeId.toString()]);
+  const result = await shardeumRPC('eth_call', [{ to: contractAddress, data }, 'latest']);
+  const pledge = eth.abi.decodeParameters(getPledgeFunction.outputs, result)[0];
+
+  return {
+    supporter: pledge.supporter.toLowerCase(),
+    creator: pledge.creator.toLowerCase(),
+    amountPerPeriodWei: BigInt(pledge.amountPerPeriod),
+    balanceWei: BigInt(pledge.balance),
+    nextDueAt: new Date(Number(pledge.nextDueAt) * 1000).toISOString(),
+    paused: pledge.paused,
+    cancelled: pledge.cancelled,
+    creatorId: pledge.creatorId
+  };
+}
+
+// Decode the PledgeCreated event from the receipt of a createPledge call
+function decodePledgeCreated(receipt, contractAddress = PLEDGE_VAULT_ADDRESS) {
+  const log = (receipt.logs || []).find(entry =>
+    entry.address.toLowerCase() === contractAddress && entry.topics[0] === PLEDGE_CREATED_TOPIC
+  );
+  if (!log) return null;
+
+  const event = eth.abi.decodeLog(pledgeCreatedEvent.inputs, log.data, log.topics.slice(1));
+  return {
+    chainPledgeId: event.pledgeId.toString(),
+    supporter: event.supporter.toLowerCase(),
+    creator: event.creator.toLowerCase(),
+    amountPerPeriodWei: BigInt(event.amountPerPeriod),
+    creatorId: event.creatorId
+  };
+}
+
+function encodeCollectCall(chainPledgeId) {
+  return eth.abi.encodeFunctionCall(collectFunction, [chainPledgeId.toString()]);
+}
+
+// Status of a pledge as read from the contract: a pledge whose period is due
+// but whose balance cannot cover it has lapsed until the supporter tops it up
+function derivePledgeStatus(onChain, now = Date.now()) {
+  if (onChain.cancelled) return 'cancelled';
+  if (onChain.paused) return 'paused';
+  if (isDue(onChain, now) && onChain.balanceWei < onChain.amountPerPeriodWei) return 'lapsed';
+  return 'active';
+}
+
+function isDue(pledge, now = Date.now()) {
+  return new Date(pledge.nextDueAt).getTime() <= now;
+}
+
+module.exports = {
+  PLEDGE_VAULT_ADDRESS,
+  isPledgeVaultAddress,
+  readPledge,
+  decodePledgeCreated,
+  encodeCollectCall,
+  derivePledgeStatus,
+  isDue
+};
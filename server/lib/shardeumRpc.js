@@ -0,0 +1,33 @@
+const axios = require('axios');
+const { activeNetwork } = require('../config/networks');
+
+// Shardeum RPC endpoint for the configured network
+const SHARDEUM_RPC = activeNetwork.rpcUrl;
+
+// Helper function to make RPC calls to Shardeum
+async function shardeumRPC(method, params = []) {
+  try {
+    const response = await axios.post(SHARDEUM_RPC, {
+      jsonrpc: '2.0',
+      method: method,
+      params: params,
+      id: 1
+    }, {
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+    if (response.data.error) {
+      throw new Error(`${method} failed: ${response.data.error.message}`);
+    }
+    return response.data.result;
+  } catch (error) {
+    console.error('RPC Error:', error.message);
+    throw error;
+  }
+}
+
+module.exports = {
+  SHARDEUM_RPC,
+  shardeumRPC
+};
@@ -0,0 +1,129 @@
+// Sign-In With Ethereum (EIP-4361) message parsing and verification
+const { activeNetwork } = require('../config/networks');
+
+const SIWE_DOMAINS = (process.env.SIWE_DOMAINS || 'localhost:3000')
+  .split(',')
+  .map(domain => domain.trim())
+  .filter(Boolean);
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+// Parse the EIP-4361 text format into its fields. Throws on malformed messages.
+function parseSiweMessage(message) {
+  const lines = message.split('\n');
+
+  const header = lines.shift();
+  if (!header || !header.endsWith(HEADER_SUFFIX)) {
+    throw new Error('Invalid SIWE header');
+  }
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+
+  const address = lines.shift();
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address || '')) {
+    throw new Error('Invalid SIWE address');
+  }
+
+  if (lines.shift() !== '') {
+    throw new Error('Malformed SIWE message');
+  }
+
+  // Optional statement, followed by a blank line
+  let statement = null;
+  if (lines[0] !== undefined && !lines[0].startsWith('URI: ')) {
+    statement = lines.shift();
+    if (lines.shift() !== '') {
+      throw new Error('Malformed SIWE message');
+    }
+  }
+
+  const fields = {};
+  for (const line of lines) {
+    if (line === 'Resources:' || line.startsWith('- ')) continue;
+    const separator = line.indexOf(': ');
+    if (separator === -1) {
+      throw new Error(`Malformed SIWE field: ${line}`);
+    }
+    fields[line.slice(0, separator)] = line.slice(separator + 2);
+  }
+
+  for (const required of ['URI', 'Version', 'Chain ID', 'Nonce', 'Issued At']) {
+    if (!fields[required]) {
+      throw new Error(`Missing SIWE field: ${required}`);
+    }
+  }
+
+  return {
+    domain,
+    address,
+    statement,
+    uri: fields['URI'],
+    version: fields['Version'],
+    chainId: parseInt(fields['Chain ID'], 10),
+    nonce: fields['Nonce'],
+    issuedAt: fields['Issued At'],
+    expirationTime: fields['Expiration Time'] || null,
+    notBefore: fields['Not Before'] || null
+  };
+}
+
+// The URI must be a web origin on the message's own domain, so that a message
+// signed for another site cannot be replayed here
+function isUriForDomain(uri, domain) {
+  let url;
+  try {
+    url = new URL(uri);
+  } catch (error) {
+    return false;
+  }
+  return (url.protocol === 'https:' || url.protocol === 'http:') && url.host === domain;
+}
+
+// Check the parsed message and its signature. Returns an error message, or null when valid.
+// The nonce is checked separately by the caller, since it has to be consumed.
+function verifySiweMessage(web3, fields, message, signature) {
+  if (!SIWE_DOMAINS.includes(fields.domain)) {
+    return `Sign-in requested for unexpected domain ${fields.domain}`;
+  }
+  if (!isUriForDomain(fields.uri, fields.domain)) {
+    return `Sign-in requested for unexpected URI ${fields.uri}`;
+  }
+  if (fields.chainId !== activeNetwork.chainId) {
+    return `Sign-in message is for chain ${fields.chainId}, not ${activeNetwork.name} (chain ${activeNetwork.chainId})`;
+  }
+  if (fields.version !== '1') {
+    return 'Unsupported SIWE version';
+  }
+
+  // Date.parse gives NaN for an unreadable time, which would pass both checks
+  const expiresAt = fields.expirationTime ? Date.parse(fields.expirationTime) : null;
+  const validFrom = fields.notBefore ? Date.parse(fields.notBefore) : null;
+  if (Number.isNaN(expiresAt) || Number.isNaN(validFrom)) {
+    return 'Sign-in message has an invalid time';
+  }
+
+  const now = Date.now();
+  if (expiresAt !== null && expiresAt <= now) {
+    return 'Sign-in message has expired';
+  }
+  if (validFrom !== null && validFrom > now) {
+    return 'Sign-in message is not yet valid';
+  }
+
+  let signer;
+  try {
+    signer = web3.eth.accounts.recover(message, signature);
+  } catch (error) {
+    return 'Invalid signature';
+  }
+
+  if (signer.toLowerCase() !== fields.address.toLowerCase()) {
+    return 'Signature does not match address';
+  }
+
+  return null;
+}
+
+module.exports = {
+  parseSiweMessage,
+  verifySiweMessage
+};
@@ -0,0 +1,118 @@
+// Helpers for tips sent through the TipJar contract (contracts/TipJar.sol), which
+// forwards the value to the creator and emits Tip(from, creator, amount, creatorId, message).
+// A tipSplit call divides the value between several recipients and emits one Tip each;
+// tipToken moves an approved ERC-20 amount the same way and emits TokenTip events.
+const { eth } = require('web3');
+const TIP_JAR_ABI = require('../config/shared/tipJarAbi.json');
+const { activeNetwork } = require('../config/networks');
+const { sanitizeMessage } = require('./tipMessage');
+
+const tipFunction = TIP_JAR_ABI.find(item => item.type === 'function' && item.name === 'tip');
+const tipSplitFunction = TIP_JAR_ABI.find(item => item.type === 'function' && item.name === 'tipSplit');
+const tipTokenFunction = TIP_JAR_ABI.find(item => item.type === 'function' && item.name === 'tipToken');
+const tipEvent = TIP_JAR_ABI.find(item => item.type === 'event' && item.name === 'Tip');
+
+const TIP_SELECTOR = eth.abi.encodeFunctionSignature(tipFunction);
+const TIP_SPLIT_SELECTOR = eth.abi.encodeFunctionSignature(tipSplitFunction);
+const TIP_TOKEN_SELECTOR = eth.abi.encodeFunctionSignature(tipTokenFunction);
+const TIP_EVENT_TOPIC = eth.abi.encodeEventSignature(tipEvent);
+
+// Address of the TipJar on the configured network, or null if none is deployed
+const TIP_JAR_ADDRESS = activeNetwork.tipJarAddress;
+
+function isTipJarAddress(address) {
+  return Boolean(TIP_JAR_ADDRESS && address && address.toLowerCase() === TIP_JAR_ADDRESS);
+}
+
+// Messages are sanitized like those sent to the API; one that is rejected
+// (e.g. too long) is dropped
+function cleanMessage(message) {
+  try {
+    return sanitizeMessage(message);
+  } catch (error) {
+    return null;
+  }
+}
+
+// Decode the calldata of a tip(creator, creatorId, message),
+// tipSplit(recipients, sharesBps, creatorId, message) or
+// tipToken(token, recipients, sharesBps, amount, creatorId, message) call.
+// Split calls have a null `creator` and list their recipients in `splits`; token
+// calls also return the `token` and `amountWei`. Returns null for any other input.
+function decodeTipCall(input) {
+  if (!input) return null;
+  const selector = input.slice(0, 10).toLowerCase();
+
+  try {
+    if (selector === TIP_SELECTOR) {
+      const params = eth.abi.decodeParameters(tipFunction.inputs, `0x${input.slice(10)}`);
+      return {
+        creator: params.creator.toLowerCase(),
+        creatorId: params.creatorId,
+        message: cleanMessage(params.message),
+        splits: null,
+        token: null
+      };
+    }
+
+    if (selector === TIP_SPLIT_SELECTOR) {
+      const params = eth.abi.decodeParameters(tipSplitFunction.inputs, `0x${input.slice(10)}`);
+      return {
+        creator: null,
+        creatorId: params.creatorId,
+        message: cleanMessage(params.message),
+        splits: params.recipients.map((recipient, index) => ({
+          address: recipient.toLowerCase(),
+          shareBps: Number(params.sharesBps[index])
+        })),
+        token: null
+      };
+    }
+
+    if (selector === TIP_TOKEN_SELECTOR) {
+      const params = eth.abi.decodeParameters(tipTokenFunction.inputs, `0x${input.slice(10)}`);
+      const splits = params.recipients.map((recipient, index) => ({
+        address: recipient.toLowerCase(),
+        shareBps: Number(params.sharesBps[index])
+      }));
+      // A single recipient is a plain tip to one creator
+      const single = splits.length === 1;
+      return {
+        creator: single ? splits[0].address : null,
+        creatorId: params.creatorId,
+        message: cleanMessage(params.message),
+        splits: single ? null : splits,
+        token: params.token.toLowerCase(),
+        amountWei: BigInt(params.amount)
+      };
+    }
+  } catch (error) {
+    return null;
+  }
+  return null;
+}
+
+// Decode the Tip events a TipJar emitted in a transaction receipt
+function decodeTipEvents(receipt, contractAddress = TIP_JAR_ADDRESS) {
+  if (!contractAddress) return [];
+
+  return (receipt.logs || [])
+    .filter(log => log.address.toLowerCase() === contractAddress.toLowerCase() && log.topics[0] === TIP_EVENT_TOPIC)
+    .map(log => {
+      const event = eth.abi.decodeLog(tipEvent.inputs, log.data, log.topics.slice(1));
+      return {
+        from: event.from.toLowerCase(),
+        creator: event.creator.toLowerCase(),
+        amountWei: BigInt(event.amount),
+        creatorId: event.creatorId,
+        message: cleanMessage(event.message)
+      };
+    });
+}
+
+module.exports = {
+  TIP_JAR_ADDRESS,
+  isTipJarAddress,
+  decodeTipCall,
+  decodeTipEvents
+};
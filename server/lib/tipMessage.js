@@ -0,0 +1,50 @@
+// Helpers for the optional message attached to a tip, stored off-chain and
+// optionally carried on-chain as UTF-8 calldata on the transfer.
+
+const MAX_MESSAGE_LENGTH = 280;
+
+// Control characters (except tab/newline), zero-width and bidi override characters
+const UNSAFE_CHARACTERS = /[\u0000-\u0008\u000B-\u001F\u007F-\u009F\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]/g;
+
+// Normalize a user-supplied message. Returns null for empty messages.
+function sanitizeMessage(message) {
+  if (message === undefined || message === null) return null;
+  if (typeof message !== 'string') {
+    throw new Error('Message must be a string');
+  }
+
+  const cleaned = message
+    .normalize('NFC')
+    .replace(/\r\n?/g, '\n')
+    .replace(UNSAFE_CHARACTERS, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  if (cleaned.length > MAX_MESSAGE_LENGTH) {
+    throw new Error(`Message must be at most ${MAX_MESSAGE_LENGTH} characters`);
+  }
+
+  return cleaned || null;
+}
+
+// Decode transaction calldata as a UTF-8 message. Returns null when the
+// calldata is empty or is not valid UTF-8 (e.g. a contract call).
+function decodeMessageFromInput(input) {
+  if (!input || input === '0x') return null;
+
+  const hex = input.startsWith('0x') ? input.slice(2) : input;
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) return null;
+
+  try {
+    const decoded = new TextDecoder('utf-8', { fatal: true }).decode(Buffer.from(hex, 'hex'));
+    return sanitizeMessage(decoded);
+  } catch (error) {
+    return null;
+  }
+}
+
+module.exports = {
+  MAX_MESSAGE_LENGTH,
+  sanitizeMessage,
+  decodeMessageFromInput
+};
@@ -0,0 +1,126 @@
+const db = require('../db');
+const { formatShm } = require('../lib/amounts');
+
+// Map a database row to the Campaign shape used by the REST API
+function toCampaign(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    creatorId: row.creator_id,
+    title: row.title,
+    description: row.description,
+    target: formatShm(row.target_wei),
+    targetWei: row.target_wei,
+    raised: formatShm(row.raised_wei),
+    raisedWei: row.raised_wei,
+    tipCount: row.tip_count,
+    deadline: row.deadline,
+    status: row.status,
+    createdAt: row.created_at,
+    endedAt: row.ended_at || undefined
+  };
+}
+
+const statements = {
+  findById: db.prepare('SELECT * FROM campaigns WHERE id = ?'),
+  findByCreator: db.prepare('SELECT * FROM campaigns WHERE creator_id = ? ORDER BY created_at DESC'),
+  findActiveByCreator: db.prepare("SELECT * FROM campaigns WHERE creator_id = ? AND status = 'active'"),
+  // The campaign shown on the creator's card: the open one, or one that reached its
+  // goal and has not passed its deadline yet
+  findCurrentByCreator: db.prepare(`
+    SELECT * FROM campaigns
+    WHERE creator_id = ? AND (status = 'active' OR (status = 'reached' AND deadline > ?))
+    ORDER BY created_at DESC
+    LIMIT 1
+  `),
+  insert: db.prepare(`
+    INSERT INTO campaigns (id, creator_id, title, description, target_wei, deadline, status, created_at)
+    VALUES (@id, @creatorId, @title, @description, @targetWei, @deadline, 'active', @createdAt)
+  `),
+  updateRaised: db.prepare(`
+    UPDATE campaigns SET raised_wei = @raisedWei, tip_count = tip_count + 1 WHERE id = @id
+  `),
+  markReached: db.prepare(`
+    UPDATE campaigns SET status = 'reached', ended_at = ? WHERE id = ? AND status = 'active'
+  `),
+  expireOverdue: db.prepare(`
+    UPDATE campaigns SET status = 'expired', ended_at = @now WHERE status = 'active' AND deadline <= @now
+    RETURNING *
+  `),
+  detachTransactions: db.prepare('UPDATE transactions SET campaign_id = NULL WHERE campaign_id = ?'),
+  delete: db.prepare('DELETE FROM campaigns WHERE id = ?'),
+  deleteByCreator: db.prepare('DELETE FROM campaigns WHERE creator_id = ?'),
+  detachCreatorTransactions: db.prepare(`
+    UPDATE transactions SET campaign_id = NULL
+    WHERE campaign_id IN (SELECT id FROM campaigns WHERE creator_id = ?)
+  `)
+};
+
+function findById(id) {
+  return toCampaign(statements.findById.get(id));
+}
+
+function findByCreator(creatorId) {
+  return statements.findByCreator.all(creatorId).map(toCampaign);
+}
+
+// A creator runs at most one active campaign at a time
+function findActiveByCreator(creatorId) {
+  return toCampaign(statements.findActiveByCreator.get(creatorId));
+}
+
+function findCurrentByCreator(creatorId) {
+  return toCampaign(statements.findCurrentByCreator.get(creatorId, new Date().toISOString()));
+}
+
+function create(campaign) {
+  statements.insert.run({
+    ...campaign,
+    targetWei: campaign.targetWei.toString(),
+    createdAt: new Date().toISOString()
+  });
+  return findById(campaign.id);
+}
+
+// Add a confirmed tip (in wei) to the amount raised, marking the campaign reached
+// once it covers the target. Tips confirmed after the campaign ended still count.
+function addTip(id, amountWei) {
+  const campaign = findById(id);
+  if (!campaign) return null;
+
+  const raisedWei = BigInt(campaign.raisedWei) + BigInt(amountWei);
+  statements.updateRaised.run({ id, raisedWei: raisedWei.toString() });
+  if (raisedWei >= BigInt(campaign.targetWei)) {
+    statements.markReached.run(new Date().toISOString(), id);
+  }
+  return findById(id);
+}
+
+// Mark active campaigns whose deadline has passed as expired; returns those campaigns
+function expireOverdue() {
+  return statements.expireOverdue.all({ now: new Date().toISOString() }).map(toCampaign);
+}
+
+// Delete a campaign; its tips stay in the history without the campaign link
+const remove = db.transaction((id) => {
+  statements.detachTransactions.run(id);
+  return statements.delete.run(id).changes > 0;
+});
+
+// Delete all of a creator's campaigns, e.g. when the creator is removed
+const removeByCreator = db.transaction((creatorId) => {
+  statements.detachCreatorTransactions.run(creatorId);
+  statements.deleteByCreator.run(creatorId);
+});
+
+module.exports = {
+  findById,
+  findByCreator,
+  findActiveByCreator,
+  findCurrentByCreator,
+  create,
+  addTip,
+  expireOverdue,
+  remove,
+  removeByCreator
+};
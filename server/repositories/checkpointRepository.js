@@ -0,0 +1,24 @@
+const db = require('../db');
+
+const statements = {
+  get: db.prepare('SELECT block_number FROM indexer_checkpoints WHERE name = ?'),
+  upsert: db.prepare(`
+    INSERT INTO indexer_checkpoints (name, block_number, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT (name) DO UPDATE SET block_number = excluded.block_number, updated_at = excluded.updated_at
+  `)
+};
+
+// Last block fully processed by the named indexer, or null if it has never run
+function get(name) {
+  const row = statements.get.get(name);
+  return row ? row.block_number : null;
+}
+
+function set(name, blockNumber) {
+  statements.upsert.run(name, blockNumber, new Date().toISOString());
+}
+
+module.exports = {
+  get,
+  set
+};
@@ -0,0 +1,229 @@
+const db = require('../db');
+const { formatShm, formatUnits } = require('../lib/amounts');
+const campaignRepository = require('./campaignRepository');
+
+// Map a database row to the Creator shape used by the REST API
+function toCreator(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    name: row.name,
+    address: row.address,
+    description: row.description,
+    avatar: row.avatar,
+    totalTips: formatShm(row.total_tips_wei),
+    totalTipsWei: row.total_tips_wei,
+    tipCount: row.tip_count,
+    activePledgeCount: row.active_pledge_count,
+    supporterCount: row.supporter_count,
+    tags: statements.findTags.all(row.id).map(tag => tag.tag),
+    splits: statements.findSplits.all(row.id).map(split => ({
+      address: split.address,
+      shareBps: split.share_bps
+    })),
+    // Confirmed ERC-20 tips; totalTips covers native SHM only
+    tokenTotals: statements.findTokenTotals.all(row.id).map(total => ({
+      tokenAddress: total.token_address,
+      tokenDecimals: total.token_decimals,
+      total: formatUnits(total.total_wei, total.token_decimals),
+      totalWei: total.total_wei,
+      tipCount: total.tip_count
+    })),
+    campaign: campaignRepository.findCurrentByCreator(row.id)
+  };
+}
+
+const SELECT_CREATORS = `
+  SELECT creators.*, (
+    SELECT COUNT(*) FROM pledges WHERE pledges.creator_id = creators.id AND pledges.status = 'active'
+  ) AS active_pledge_count, (
+    SELECT COUNT(DISTINCT from_address) FROM transactions
+    WHERE transactions.creator_id = creators.id AND transactions.status = 'confirmed'
+  ) AS supporter_count
+  FROM creators
+`;
+
+// Wei totals are canonical decimal strings, so a longer string is a larger amount
+const SORT_ORDERS = {
+  most_tipped: 'LENGTH(total_tips_wei) DESC, total_tips_wei DESC, created_at DESC',
+  newest: 'created_at DESC',
+  most_supporters: 'supporter_count DESC, created_at DESC'
+};
+
+const statements = {
+  findAll: db.prepare(`${SELECT_CREATORS} ORDER BY created_at ASC`),
+  findById: db.prepare(`${SELECT_CREATORS} WHERE id = ?`),
+  findByAddress: db.prepare(`${SELECT_CREATORS} WHERE address = ?`),
+  insert: db.prepare(`
+    INSERT INTO creators (id, name, address, description, avatar, total_tips, total_tips_wei, tip_count, created_at)
+    VALUES (@id, @name, @address, @description, @avatar, '0', '0', 0, @createdAt)
+  `),
+  updateTotals: db.prepare(`
+    UPDATE creators SET total_tips = ?, total_tips_wei = ?, tip_count = ? WHERE id = ?
+  `),
+  updateProfile: db.prepare(`
+    UPDATE creators SET name = @name, description = @description, avatar = @avatar WHERE id = @id
+  `),
+  detachTransactions: db.prepare('UPDATE transactions SET creator_id = NULL WHERE creator_id = ?'),
+  detachPledges: db.prepare('UPDATE pledges SET creator_id = NULL WHERE creator_id = ?'),
+  findSplits: db.prepare('SELECT * FROM creator_splits WHERE creator_id = ? ORDER BY position ASC'),
+  insertSplit: db.prepare(`
+    INSERT INTO creator_splits (creator_id, position, address, share_bps) VALUES (?, ?, ?, ?)
+  `),
+  deleteSplits: db.prepare('DELETE FROM creator_splits WHERE creator_id = ?'),
+  findTags: db.prepare('SELECT tag FROM creator_tags WHERE creator_id = ? ORDER BY tag ASC'),
+  insertTag: db.prepare('INSERT INTO creator_tags (creator_id, tag) VALUES (?, ?)'),
+  deleteTags: db.prepare('DELETE FROM creator_tags WHERE creator_id = ?'),
+  countTags: db.prepare(`
+    SELECT tag, COUNT(*) AS creator_count FROM creator_tags
+    GROUP BY tag
+    ORDER BY creator_count DESC, tag ASC
+    LIMIT ?
+  `),
+  findTokenTotals: db.prepare(`
+    SELECT * FROM creator_token_totals WHERE creator_id = ? ORDER BY token_address ASC
+  `),
+  findTokenTotal: db.prepare('SELECT * FROM creator_token_totals WHERE creator_id = ? AND token_address = ?'),
+  upsertTokenTotal: db.prepare(`
+    INSERT INTO creator_token_totals (creator_id, token_address, token_decimals, total_wei, tip_count)
+    VALUES (@creatorId, @tokenAddress, @tokenDecimals, @totalWei, @tipCount)
+    ON CONFLICT (creator_id, token_address) DO UPDATE SET total_wei = @totalWei, tip_count = @tipCount
+  `),
+  incrementTipCount: db.prepare('UPDATE creators SET tip_count = tip_count + 1 WHERE id = ?'),
+  deleteTokenTotals: db.prepare('DELETE FROM creator_token_totals WHERE creator_id = ?'),
+  delete: db.prepare('DELETE FROM creators WHERE id = ?')
+};
+
+function findAll() {
+  return statements.findAll.all().map(toCreator);
+}
+
+function findById(id) {
+  return toCreator(statements.findById.get(id));
+}
+
+function findByAddress(address) {
+  return statements.findByAddress.all(address.toLowerCase()).map(toCreator);
+}
+
+// Search creators by text in their name and description (every word must match)
+// and by tag, a page at a time. `sort` is one of SORT_ORDERS; `page` starts at 1.
+function search({ q, tag, sort, page, pageSize }) {
+  const conditions = [];
+  const params = {};
+
+  const terms = (q || '').trim().split(/\s+/).filter(Boolean);
+  terms.forEach((term, index) => {
+    params[`term${index}`] = `%${term.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+    conditions.push(`(name LIKE @term${index} ESCAPE '\\' OR description LIKE @term${index} ESCAPE '\\')`);
+  });
+  if (tag) {
+    conditions.push('id IN (SELECT creator_id FROM creator_tags WHERE tag = @tag)');
+    params.tag = tag;
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM creators ${where}`).get(params);
+  const rows = db.prepare(`
+    SELECT * FROM (${SELECT_CREATORS}) ${where}
+    ORDER BY ${SORT_ORDERS[sort]}, id DESC
+    LIMIT @limit OFFSET @offset
+  `).all({ ...params, limit: pageSize, offset: (page - 1) * pageSize });
+
+  return { items: rows.map(toCreator), total, page, pageSize };
+}
+
+// The most used tags with the number of creators that have each
+function findPopularTags(limit = 20) {
+  return statements.countTags.all(limit).map(row => ({ tag: row.tag, creatorCount: row.creator_count }));
+}
+
+const create = db.transaction((creator) => {
+  const { tags = [], ...profile } = creator;
+  statements.insert.run({
+    createdAt: new Date().toISOString(),
+    ...profile
+  });
+  tags.forEach(tag => statements.insertTag.run(creator.id, tag));
+  return findById(creator.id);
+});
+
+// Update the editable profile fields, keeping any that are not provided
+function update(id, changes) {
+  const creator = findById(id);
+  if (!creator) return null;
+
+  statements.updateProfile.run({
+    id,
+    name: changes.name ?? creator.name,
+    description: changes.description ?? creator.description,
+    avatar: changes.avatar ?? creator.avatar
+  });
+  return findById(id);
+}
+
+// Replace the creator's payout splits; an empty list sends tips to its address again
+const setSplits = db.transaction((id, splits) => {
+  statements.deleteSplits.run(id);
+  splits.forEach((split, position) => {
+    statements.insertSplit.run(id, position, split.address.toLowerCase(), split.shareBps);
+  });
+  return findById(id);
+});
+
+// Replace the creator's tags
+const setTags = db.transaction((id, tags) => {
+  statements.deleteTags.run(id);
+  tags.forEach(tag => statements.insertTag.run(id, tag));
+  return findById(id);
+});
+
+// Delete a creator; its tips and pledges stay in the history without the creator link
+const remove = db.transaction((id) => {
+  statements.detachTransactions.run(id);
+  statements.detachPledges.run(id);
+  statements.deleteSplits.run(id);
+  statements.deleteTags.run(id);
+  statements.deleteTokenTotals.run(id);
+  campaignRepository.removeByCreator(id);
+  return statements.delete.run(id).changes > 0;
+});
+
+// Add a confirmed tip (in wei) to the creator's running totals. ERC-20 tips
+// pass their `token` ({ address, decimals }) and are totalled per token.
+function addTip(id, amountWei, token = null) {
+  const creator = findById(id);
+  if (!creator) return null;
+
+  if (token) {
+    const tokenAddress = token.address.toLowerCase();
+    const current = statements.findTokenTotal.get(id, tokenAddress);
+    statements.upsertTokenTotal.run({
+      creatorId: id,
+      tokenAddress,
+      tokenDecimals: token.decimals,
+      totalWei: ((current ? BigInt(current.total_wei) : 0n) + BigInt(amountWei)).toString(),
+      tipCount: (current ? current.tip_count : 0) + 1
+    });
+    statements.incrementTipCount.run(id);
+    return findById(id);
+  }
+
+  const totalTipsWei = BigInt(creator.totalTipsWei) + BigInt(amountWei);
+  statements.updateTotals.run(formatShm(totalTipsWei), totalTipsWei.toString(), creator.tipCount + 1, id);
+  return findById(id);
+}
+
+module.exports = {
+  findAll,
+  findById,
+  findByAddress,
+  search,
+  findPopularTags,
+  create,
+  update,
+  setSplits,
+  setTags,
+  remove,
+  addTip
+};
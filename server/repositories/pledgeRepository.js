@@ -0,0 +1,107 @@
+const db = require('../db');
+const { formatShm } = require('../lib/amounts');
+
+// Map a database row to the Pledge shape used by the REST API
+function toPledge(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    contractAddress: row.contract_address,
+    chainPledgeId: row.chain_pledge_id,
+    supporterAddress: row.supporter_address,
+    creatorId: row.creator_id || undefined,
+    creatorAddress: row.creator_address,
+    amountPerPeriod: formatShm(row.amount_per_period_wei),
+    amountPerPeriodWei: row.amount_per_period_wei,
+    balance: formatShm(row.balance_wei),
+    balanceWei: row.balance_wei,
+    nextDueAt: row.next_due_at,
+    status: row.status,
+    createdTxHash: row.created_tx_hash,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+const statements = {
+  findById: db.prepare('SELECT * FROM pledges WHERE id = ?'),
+  findByChainId: db.prepare('SELECT * FROM pledges WHERE contract_address = ? AND chain_pledge_id = ?'),
+  findBySupporter: db.prepare('SELECT * FROM pledges WHERE supporter_address = ? ORDER BY created_at DESC'),
+  findByCreator: db.prepare('SELECT * FROM pledges WHERE creator_id = ? ORDER BY created_at DESC'),
+  findOpen: db.prepare("SELECT * FROM pledges WHERE status != 'cancelled' ORDER BY next_due_at ASC"),
+  insert: db.prepare(`
+    INSERT INTO pledges (
+      id, contract_address, chain_pledge_id, supporter_address, creator_id, creator_address,
+      amount_per_period_wei, balance_wei, next_due_at, status, created_tx_hash, created_at, updated_at
+    )
+    VALUES (
+      @id, @contractAddress, @chainPledgeId, @supporterAddress, @creatorId, @creatorAddress,
+      @amountPerPeriodWei, @balanceWei, @nextDueAt, @status, @createdTxHash, @createdAt, @updatedAt
+    )
+  `),
+  updateState: db.prepare(`
+    UPDATE pledges
+    SET balance_wei = @balanceWei, next_due_at = @nextDueAt, status = @status, updated_at = @updatedAt
+    WHERE id = @id
+  `)
+};
+
+function findById(id) {
+  return toPledge(statements.findById.get(id));
+}
+
+function findByChainId(contractAddress, chainPledgeId) {
+  return toPledge(statements.findByChainId.get(contractAddress.toLowerCase(), chainPledgeId.toString()));
+}
+
+function findBySupporter(address) {
+  return statements.findBySupporter.all(address.toLowerCase()).map(toPledge);
+}
+
+function findByCreator(creatorId) {
+  return statements.findByCreator.all(creatorId).map(toPledge);
+}
+
+// Pledges the scheduler still has to track (all but cancelled ones)
+function findOpen() {
+  return statements.findOpen.all().map(toPledge);
+}
+
+function create(pledge) {
+  const now = new Date().toISOString();
+  statements.insert.run({
+    ...pledge,
+    contractAddress: pledge.contractAddress.toLowerCase(),
+    chainPledgeId: pledge.chainPledgeId.toString(),
+    supporterAddress: pledge.supporterAddress.toLowerCase(),
+    creatorId: pledge.creatorId || null,
+    creatorAddress: pledge.creatorAddress.toLowerCase(),
+    amountPerPeriodWei: pledge.amountPerPeriodWei.toString(),
+    balanceWei: pledge.balanceWei.toString(),
+    createdAt: now,
+    updatedAt: now
+  });
+  return findById(pledge.id);
+}
+
+// Store the balance, due date and status last read from the contract
+function updateState(id, { balanceWei, nextDueAt, status }) {
+  statements.updateState.run({
+    id,
+    balanceWei: balanceWei.toString(),
+    nextDueAt,
+    status,
+    updatedAt: new Date().toISOString()
+  });
+  return findById(id);
+}
+
+module.exports = {
+  findById,
+  findByChainId,
+  findBySupporter,
+  findByCreator,
+  findOpen,
+  create,
+  updateState
+};
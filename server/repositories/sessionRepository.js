@@ -0,0 +1,74 @@
+const crypto = require('crypto');
+const db = require('../db');
+
+const NONCE_TTL_MS = 10 * 60 * 1000;
+const SESSION_TTL_MS = parseInt(process.env.SESSION_TTL_MS || '86400000', 10);
+
+const statements = {
+  insertNonce: db.prepare('INSERT INTO auth_nonces (nonce, issued_at) VALUES (?, ?)'),
+  findNonce: db.prepare('SELECT * FROM auth_nonces WHERE nonce = ?'),
+  deleteNonce: db.prepare('DELETE FROM auth_nonces WHERE nonce = ?'),
+  deleteExpiredNonces: db.prepare('DELETE FROM auth_nonces WHERE issued_at < ?'),
+  insertSession: db.prepare(`
+    INSERT INTO sessions (token, address, created_at, expires_at) VALUES (?, ?, ?, ?)
+  `),
+  findSession: db.prepare('SELECT * FROM sessions WHERE token = ? AND expires_at > ?'),
+  deleteSession: db.prepare('DELETE FROM sessions WHERE token = ?'),
+  deleteExpiredSessions: db.prepare('DELETE FROM sessions WHERE expires_at <= ?')
+};
+
+function toSession(row) {
+  if (!row) return null;
+  return {
+    token: row.token,
+    address: row.address,
+    expiresAt: row.expires_at
+  };
+}
+
+function createNonce() {
+  const nonce = crypto.randomBytes(16).toString('hex');
+  statements.insertNonce.run(nonce, new Date().toISOString());
+  return nonce;
+}
+
+// Nonces are single use: returns true and deletes the nonce if it is still valid
+function consumeNonce(nonce) {
+  const row = statements.findNonce.get(nonce);
+  if (!row) return false;
+
+  statements.deleteNonce.run(nonce);
+  return Date.now() - Date.parse(row.issued_at) <= NONCE_TTL_MS;
+}
+
+function createSession(address) {
+  const token = crypto.randomBytes(32).toString('hex');
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_MS).toISOString();
+
+  statements.insertSession.run(token, address.toLowerCase(), now.toISOString(), expiresAt);
+  return { token, address: address.toLowerCase(), expiresAt };
+}
+
+function findSession(token) {
+  return toSession(statements.findSession.get(token, new Date().toISOString()));
+}
+
+function deleteSession(token) {
+  statements.deleteSession.run(token);
+}
+
+function purgeExpired() {
+  const now = Date.now();
+  statements.deleteExpiredNonces.run(new Date(now - NONCE_TTL_MS).toISOString());
+  statements.deleteExpiredSessions.run(new Date(now).toISOString());
+}
+
+module.exports = {
+  createNonce,
+  consumeNonce,
+  createSession,
+  findSession,
+  deleteSession,
+  purgeExpired
+};
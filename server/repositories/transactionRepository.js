@@ -0,0 +1,288 @@
+const db = require('../db');
+const { formatShm, formatUnits } = require('../lib/amounts');
+
+// Amounts of ERC-20 tips are in the token's smallest unit
+const formatAmount = (amountWei, tokenDecimals) =>
+  tokenDecimals === null || tokenDecimals === undefined ? formatShm(amountWei) : formatUnits(amountWei, tokenDecimals);
+
+// Map a database row to the Transaction shape used by the REST API
+function toTransaction(row) {
+  if (!row) return null;
+
+  const transaction = {
+    id: row.id,
+    fromAddress: row.from_address,
+    toAddress: row.to_address,
+    amount: formatAmount(row.amount_wei, row.token_decimals),
+    amountWei: row.amount_wei,
+    txHash: row.tx_hash,
+    creatorId: row.creator_id || undefined,
+    timestamp: row.timestamp,
+    status: row.status,
+    source: row.source,
+    messageOnChain: Boolean(row.message_on_chain)
+  };
+
+  if (row.message) transaction.message = row.message;
+  if (row.block_number !== null) transaction.blockNumber = row.block_number;
+  if (row.confirmed_at) transaction.confirmedAt = row.confirmed_at;
+  if (row.failure_reason) transaction.failureReason = row.failure_reason;
+  if (row.contract_address) transaction.contractAddress = row.contract_address;
+  if (row.pledge_id) transaction.pledgeId = row.pledge_id;
+  if (row.token_address) {
+    transaction.tokenAddress = row.token_address;
+    transaction.tokenDecimals = row.token_decimals;
+  }
+  if (row.campaign_id) transaction.campaignId = row.campaign_id;
+  if (row.fee_wei) transaction.feeWei = row.fee_wei;
+
+  const splits = statements.findSplits.all(row.id);
+  if (splits.length > 0) {
+    transaction.splits = splits.map(split => ({
+      address: split.address,
+      shareBps: split.share_bps,
+      amount: formatAmount(split.amount_wei, row.token_decimals),
+      amountWei: split.amount_wei
+    }));
+  }
+
+  return transaction;
+}
+
+const statements = {
+  findById: db.prepare('SELECT * FROM transactions WHERE id = ?'),
+  findByTxHash: db.prepare('SELECT * FROM transactions WHERE tx_hash = ?'),
+  findByStatus: db.prepare('SELECT * FROM transactions WHERE status = ? ORDER BY timestamp ASC'),
+  insert: db.prepare(`
+    INSERT INTO transactions (
+      id, from_address, to_address, amount, amount_wei, tx_hash, creator_id, timestamp, status,
+      message, message_on_chain, source, block_number, confirmed_at, contract_address, pledge_id,
+      token_address, token_decimals, campaign_id, fee_wei
+    )
+    VALUES (
+      @id, @fromAddress, @toAddress, @amount, @amountWei, @txHash, @creatorId, @timestamp, @status,
+      @message, @messageOnChain, @source, @blockNumber, @confirmedAt, @contractAddress, @pledgeId,
+      @tokenAddress, @tokenDecimals, @campaignId, @feeWei
+    )
+  `),
+  findConfirmedByCreator: db.prepare(`
+    SELECT * FROM transactions
+    WHERE creator_id = ? AND status = 'confirmed' AND token_address IS NULL
+    ORDER BY timestamp ASC
+  `),
+  findCreatorMessages: db.prepare(`
+    SELECT * FROM transactions
+    WHERE creator_id = ? AND status = 'confirmed' AND message IS NOT NULL
+    ORDER BY timestamp DESC
+    LIMIT ?
+  `),
+  findSplits: db.prepare('SELECT * FROM transaction_splits WHERE transaction_id = ? ORDER BY position ASC'),
+  insertSplit: db.prepare(`
+    INSERT INTO transaction_splits (transaction_id, position, address, share_bps, amount_wei)
+    VALUES (?, ?, ?, ?, ?)
+  `),
+  findPendingByPledge: db.prepare(`
+    SELECT * FROM transactions WHERE pledge_id = ? AND status = 'pending' LIMIT 1
+  `),
+  setBlockNumber: db.prepare('UPDATE transactions SET block_number = ? WHERE id = ?'),
+  setMessage: db.prepare('UPDATE transactions SET message = ? WHERE id = ?'),
+  setFee: db.prepare('UPDATE transactions SET fee_wei = ? WHERE id = ?'),
+  markConfirmed: db.prepare(`
+    UPDATE transactions SET status = 'confirmed', block_number = ?, confirmed_at = ? WHERE id = ?
+  `),
+  markFailed: db.prepare(`
+    UPDATE transactions SET status = 'failed', failure_reason = ? WHERE id = ?
+  `)
+};
+
+function findById(id) {
+  return toTransaction(statements.findById.get(id));
+}
+
+function findByTxHash(txHash) {
+  return toTransaction(statements.findByTxHash.get(txHash.toLowerCase()));
+}
+
+// Pages are ordered newest first; a cursor points after the last row of a page
+const encodeCursor = (row) => Buffer.from(`${row.timestamp}|${row.id}`).toString('base64url');
+
+function decodeCursor(cursor) {
+  const [timestamp, id] = Buffer.from(String(cursor), 'base64url').toString().split('|');
+  if (!timestamp || !id) {
+    throw new Error('Invalid cursor');
+  }
+  return { timestamp, id };
+}
+
+// Wei amounts are canonical decimal strings, so a longer string is a larger amount
+const MIN_AMOUNT_CONDITION = `
+  (LENGTH(amount_wei) > LENGTH(@minAmountWei)
+    OR (LENGTH(amount_wei) = LENGTH(@minAmountWei) AND amount_wei >= @minAmountWei))
+`;
+
+// WHERE clause and parameters for the transaction list filters: `address` with an
+// optional `direction` ('sent' or 'received', which includes split payouts),
+// `status`, `creatorId`, `from`/`to` ISO timestamps (inclusive) and
+// `minAmountWei`, which only matches SHM tips
+function buildFilter({ address, direction, status, creatorId, from, to, minAmountWei }) {
+  const conditions = [];
+  const params = {};
+
+  if (address) {
+    params.address = address.toLowerCase();
+    const sent = 'from_address = @address';
+    const received = `(to_address = @address
+      OR id IN (SELECT transaction_id FROM transaction_splits WHERE address = @address))`;
+    conditions.push(direction === 'sent' ? sent : direction === 'received' ? received : `(${sent} OR ${received})`);
+  }
+  if (status) {
+    conditions.push('status = @status');
+    params.status = status;
+  }
+  if (creatorId) {
+    conditions.push('creator_id = @creatorId');
+    params.creatorId = creatorId;
+  }
+  if (from) {
+    conditions.push('timestamp >= @from');
+    params.from = from;
+  }
+  if (to) {
+    conditions.push('timestamp <= @to');
+    params.to = to;
+  }
+  if (minAmountWei !== undefined) {
+    conditions.push('token_address IS NULL', MIN_AMOUNT_CONDITION);
+    params.minAmountWei = minAmountWei.toString();
+  }
+
+  return { conditions, params };
+}
+
+const whereClause = (conditions) => (conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '');
+
+// One page of transactions matching the filters (see buildFilter), newest first,
+// with the cursor of the next page (or null). Throws on a bad cursor.
+function findPage({ cursor, limit, ...filters }) {
+  const { conditions, params } = buildFilter(filters);
+  params.limit = limit + 1;
+
+  if (cursor) {
+    const after = decodeCursor(cursor);
+    conditions.push('(timestamp < @afterTimestamp OR (timestamp = @afterTimestamp AND id < @afterId))');
+    params.afterTimestamp = after.timestamp;
+    params.afterId = after.id;
+  }
+
+  const rows = db.prepare(`
+    SELECT * FROM transactions
+    ${whereClause(conditions)}
+    ORDER BY timestamp DESC, id DESC
+    LIMIT @limit
+  `).all(params);
+
+  const hasMore = rows.length > limit;
+  const items = rows.slice(0, limit);
+  return {
+    items: items.map(toTransaction),
+    nextCursor: hasMore ? encodeCursor(items[items.length - 1]) : null
+  };
+}
+
+// Every transaction matching the filters (see buildFilter), oldest first
+function findMatching(filters) {
+  const { conditions, params } = buildFilter(filters);
+  return db.prepare(`
+    SELECT * FROM transactions
+    ${whereClause(conditions)}
+    ORDER BY timestamp ASC, id ASC
+  `).all(params).map(toTransaction);
+}
+
+function findPending() {
+  return statements.findByStatus.all('pending').map(toTransaction);
+}
+
+// Confirmed native SHM tips to a creator; token tips have their own totals
+function findConfirmedByCreator(creatorId) {
+  return statements.findConfirmedByCreator.all(creatorId).map(toTransaction);
+}
+
+// Most recent confirmed tips to a creator that carry a message
+function findCreatorMessages(creatorId, limit = 10) {
+  return statements.findCreatorMessages.all(creatorId, limit).map(toTransaction);
+}
+
+// The collection of a pledge that is still waiting for its receipt, if any
+function findPendingByPledge(pledgeId) {
+  return toTransaction(statements.findPendingByPledge.get(pledgeId));
+}
+
+// Split tips also store how the amount was divided between the recipients
+const create = db.transaction((transaction) => {
+  statements.insert.run({
+    ...transaction,
+    amount: formatAmount(transaction.amountWei, transaction.tokenDecimals),
+    amountWei: transaction.amountWei.toString(),
+    txHash: transaction.txHash.toLowerCase(),
+    creatorId: transaction.creatorId || null,
+    message: transaction.message || null,
+    messageOnChain: transaction.messageOnChain ? 1 : 0,
+    source: transaction.source || 'app',
+    blockNumber: transaction.blockNumber ?? null,
+    confirmedAt: transaction.confirmedAt || null,
+    contractAddress: transaction.contractAddress ? transaction.contractAddress.toLowerCase() : null,
+    pledgeId: transaction.pledgeId || null,
+    tokenAddress: transaction.tokenAddress ? transaction.tokenAddress.toLowerCase() : null,
+    tokenDecimals: transaction.tokenAddress ? transaction.tokenDecimals : null,
+    campaignId: transaction.campaignId || null,
+    feeWei: transaction.feeWei ?? null
+  });
+  (transaction.splits || []).forEach((split, position) => {
+    statements.insertSplit.run(
+      transaction.id, position, split.address.toLowerCase(), split.shareBps, split.amountWei.toString()
+    );
+  });
+  return findById(transaction.id);
+});
+
+function setBlockNumber(id, blockNumber) {
+  statements.setBlockNumber.run(blockNumber, id);
+}
+
+function setMessage(id, message) {
+  statements.setMessage.run(message, id);
+  return findById(id);
+}
+
+// Network fee the sender paid for the transaction, in wei
+function setFee(id, feeWei) {
+  statements.setFee.run(feeWei, id);
+}
+
+function markConfirmed(id, blockNumber) {
+  statements.markConfirmed.run(blockNumber, new Date().toISOString(), id);
+  return findById(id);
+}
+
+function markFailed(id, reason) {
+  statements.markFailed.run(reason, id);
+  return findById(id);
+}
+
+module.exports = {
+  findById,
+  findByTxHash,
+  findPage,
+  findMatching,
+  findPending,
+  findConfirmedByCreator,
+  findCreatorMessages,
+  findPendingByPledge,
+  create,
+  setBlockNumber,
+  setMessage,
+  setFee,
+  markConfirmed,
+  markFailed
+};
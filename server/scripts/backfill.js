@@ -0,0 +1,33 @@
+// Import tips sent directly to creator addresses in a past block range.
+// Usage: npm run backfill -- --from <block> [--to <block>]
+require('dotenv').config();
+const { backfill, getSafeHead } = require('../lib/chainIndexer');
+
+function readArg(name) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main() {
+  const fromBlock = parseInt(readArg('from'), 10);
+  if (Number.isNaN(fromBlock)) {
+    console.error('Usage: npm run backfill -- --from <block> [--to <block>]');
+    process.exit(1);
+  }
+
+  const toArg = readArg('to');
+  const toBlock = toArg !== undefined ? parseInt(toArg, 10) : await getSafeHead();
+
+  console.log(`Backfilling blocks ${fromBlock} to ${toBlock}`);
+  const imported = await backfill(fromBlock, toBlock, (blockNumber, total) => {
+    if (blockNumber % 100 === 0) {
+      console.log(`  reached block ${blockNumber} (${total} imported so far)`);
+    }
+  });
+  console.log(`Done: imported ${imported} tip(s)`);
+}
+
+main().catch(error => {
+  console.error('Backfill failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+// Compile the contracts in contracts/ with solc and write their ABIs to
+// client/src/config, and the server's copy in config/shared.
+// Usage: npm run compile:contracts
+const fs = require('fs');
+const path = require('path');
+const solc = require('solc');
+const { CLIENT_CONFIG_DIR, syncSharedConfig } = require('./syncSharedConfig');
+
+const CONTRACTS_DIR = path.join(__dirname, '../../contracts');
+
+// Contract name -> ABI file in client/src/config
+const ABI_FILES = {
+  TipJar: 'tipJarAbi.json',
+  PledgeVault: 'pledgeVaultAbi.json'
+};
+
+// Returns { abi, bytecode } for one of the contracts in ABI_FILES
+function compileContract(name) {
+  if (!ABI_FILES[name]) {
+    throw new Error(`Unknown contract "${name}"`);
+  }
+
+  const fileName = `${name}.sol`;
+  const input = {
+    language: 'Solidity',
+    sources: {
+      [fileName]: { content: fs.readFileSync(path.join(CONTRACTS_DIR, fileName), 'utf8') }
+    },
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+      evmVersion: 'paris',
+      outputSelection: {
+        '*': { '*': ['abi', 'evm.bytecode.object'] }
+      }
+    }
+  };
+
+  const output = JSON.parse(solc.compile(JSON.stringify(input)));
+  const errors = (output.errors || []).filter(error => error.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(errors.map(error => error.formattedMessage).join('\n'));
+  }
+
+  const contract = output.contracts[fileName][name];
+  return {
+    abi: contract.abi,
+    bytecode: `0x${contract.evm.bytecode.object}`
+  };
+}
+
+if (require.main === module) {
+  try {
+    for (const [name, abiFile] of Object.entries(ABI_FILES)) {
+      const { abi } = compileContract(name);
+      const abiPath = path.join(CLIENT_CONFIG_DIR, abiFile);
+      fs.writeFileSync(abiPath, `${JSON.stringify(abi, null, 2)}\n`);
+      console.log(`Wrote ${name} ABI to ${path.relative(process.cwd(), abiPath)}`);
+    }
+    syncSharedConfig();
+  } catch (error) {
+    console.error('Compilation failed:', error.message);
+    process.exit(1);
+  }
+}
+
+module.exports = {
+  compileContract
+};
@@ -0,0 +1,78 @@
+// Compile and deploy a contract (TipJar or PledgeVault) to the configured network
+// (SHARDEUM_NETWORK / SHARDEUM_RPC), paying for it from DEPLOYER_PRIVATE_KEY.
+// Usage: npm run deploy:tipjar [-- --save], npm run deploy:pledgevault [-- --save]
+// With --save, the address is written to client/src/config/networks.json and the
+// server's copy.
+require('dotenv').config();
+const fs = require('fs');
+const path = require('path');
+const { Web3 } = require('web3');
+const { activeNetwork } = require('../config/networks');
+const { compileContract } = require('./compileContracts');
+const { CLIENT_CONFIG_DIR, syncSharedConfig } = require('./syncSharedConfig');
+
+const REGISTRY_PATH = path.join(CLIENT_CONFIG_DIR, 'networks.json');
+
+// Contract name -> its address field in the network registry, and the env
+// variables that override it on the server and the client
+const DEPLOYMENTS = {
+  TipJar: { registryKey: 'tipJarAddress', serverEnv: 'TIPJAR_ADDRESS', clientEnv: 'REACT_APP_TIPJAR_ADDRESS' },
+  PledgeVault: {
+    registryKey: 'pledgeVaultAddress',
+    serverEnv: 'PLEDGE_VAULT_ADDRESS',
+    clientEnv: 'REACT_APP_PLEDGE_VAULT_ADDRESS'
+  }
+};
+
+function saveAddress(registryKey, address) {
+  const registry = JSON.parse(fs.readFileSync(REGISTRY_PATH, 'utf8'));
+  registry.networks[activeNetwork.key][registryKey] = address;
+  fs.writeFileSync(REGISTRY_PATH, `${JSON.stringify(registry, null, 2)}\n`);
+  console.log(`Saved the address for ${activeNetwork.key} in ${path.relative(process.cwd(), REGISTRY_PATH)}`);
+  syncSharedConfig();
+}
+
+async function main() {
+  const name = process.argv[2];
+  const deployment = DEPLOYMENTS[name];
+  if (!deployment) {
+    console.error(`Usage: node scripts/deployContract.js <${Object.keys(DEPLOYMENTS).join('|')}> [--save]`);
+    process.exit(1);
+  }
+
+  const privateKey = process.env.DEPLOYER_PRIVATE_KEY;
+  if (!privateKey) {
+    console.error('Set DEPLOYER_PRIVATE_KEY to the key of a funded account');
+    process.exit(1);
+  }
+
+  const web3 = new Web3(activeNetwork.rpcUrl);
+  const chainId = Number(await web3.eth.getChainId());
+  if (chainId !== activeNetwork.chainId) {
+    throw new Error(`RPC is on chain ${chainId}, expected ${activeNetwork.chainId} for ${activeNetwork.name}`);
+  }
+
+  const account = web3.eth.accounts.wallet.add(
+    privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`
+  )[0];
+
+  const { abi, bytecode } = compileContract(name);
+  console.log(`Deploying ${name} to ${activeNetwork.name} from ${account.address}`);
+
+  const contract = await new web3.eth.Contract(abi)
+    .deploy({ data: bytecode })
+    .send({ from: account.address });
+  const address = contract.options.address.toLowerCase();
+
+  console.log(`${name} deployed at ${address}`);
+  if (process.argv.includes('--save')) {
+    saveAddress(deployment.registryKey, address);
+  } else {
+    console.log(`Set ${deployment.serverEnv} and ${deployment.clientEnv} to this address, or re-run with --save`);
+  }
+}
+
+main().catch(error => {
+  console.error('Deployment failed:', error.message);
+  process.exit(1);
+});
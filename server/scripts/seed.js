@@ -0,0 +1,31 @@
+// Seed the database with demo creators. Safe to run more than once.
+require('dotenv').config();
+const creatorRepository = require('../repositories/creatorRepository');
+
+const demoCreators = [
+  {
+    id: '1',
+    name: 'Tushar Pamnani',
+    address: '<ADDRESS_HERE>',
+    description: 'Digital artist creating amazing NFT collections',
+    avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Alice',
+    tags: ['art', 'nft']
+  },
+  {
+    id: '2',
+    name: 'Bob Developer',
+    address: '0x26d6a3805cbae5d5a510443a15129bec456cacff',
+    description: 'Full-stack developer building on Shardeum',
+    avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Bob',
+    tags: ['development', 'open-source']
+  }
+];
+
+for (const creator of demoCreators) {
+  if (creatorRepository.findById(creator.id)) {
+    console.log(`Creator ${creator.id} (${creator.name}) already exists, skipping`);
+    continue;
+  }
+  creatorRepository.create(creator);
+  console.log(`Seeded creator ${creator.id} (${creator.name})`);
+}
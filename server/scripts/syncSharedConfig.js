@@ -0,0 +1,30 @@
+// Copy the network registry and contract ABIs from client/src/config, where they
+// are edited and generated, to server/config/shared, so that the server can be
+// deployed without the client. Run after editing networks.json by hand;
+// compile:contracts and deploy:* --save run it themselves.
+// Usage: npm run sync:config
+const fs = require('fs');
+const path = require('path');
+
+const CLIENT_CONFIG_DIR = path.join(__dirname, '../../client/src/config');
+const SHARED_CONFIG_DIR = path.join(__dirname, '../config/shared');
+
+const SHARED_CONFIG_FILES = ['networks.json', 'tipJarAbi.json', 'pledgeVaultAbi.json', 'erc20Abi.json'];
+
+function syncSharedConfig() {
+  for (const file of SHARED_CONFIG_FILES) {
+    fs.copyFileSync(path.join(CLIENT_CONFIG_DIR, file), path.join(SHARED_CONFIG_DIR, file));
+  }
+  console.log(`Copied ${SHARED_CONFIG_FILES.join(', ')} to ${path.relative(process.cwd(), SHARED_CONFIG_DIR)}`);
+}
+
+if (require.main === module) {
+  syncSharedConfig();
+}
+
+module.exports = {
+  CLIENT_CONFIG_DIR,
+  SHARED_CONFIG_DIR,
+  SHARED_CONFIG_FILES,
+  syncSharedConfig
+};
@@ -0,0 +1,37 @@
+const { test } = require('node:test');
+const assert = require('node:assert');
+const { parseShm, parseWei, formatShm, formatUnits } = require('../lib/amounts');
+
+test('parseShm converts decimal SHM to wei', () => {
+  assert.strictEqual(parseShm('1'), 10n ** 18n);
+  assert.strictEqual(parseShm('1.5'), 1500000000000000000n);
+  assert.strictEqual(parseShm(' 0.000000000000000001 '), 1n);
+  assert.strictEqual(parseShm('123456789.123456789123456789'), 123456789123456789123456789n);
+});
+
+test('parseShm rejects malformed amounts', () => {
+  for (const amount of ['', 'abc', '-1', '1.', '.5', '1e18', '0.0000000000000000001', '1,5']) {
+    assert.throws(() => parseShm(amount), /Invalid amount/, amount);
+  }
+});
+
+test('parseWei accepts integer strings only', () => {
+  assert.strictEqual(parseWei('0'), 0n);
+  assert.strictEqual(parseWei('123456789012345678901234567890'), 123456789012345678901234567890n);
+  for (const amount of ['', '1.5', '-1', '0x10', 'abc', undefined]) {
+    assert.throws(() => parseWei(amount), /Invalid amountWei/, String(amount));
+  }
+});
+
+test('formatShm is exact', () => {
+  assert.strictEqual(formatShm('1500000000000000000'), '1.5');
+  assert.strictEqual(formatShm(1n), '0.000000000000000001');
+  assert.strictEqual(formatShm('0'), '0');
+  assert.strictEqual(formatShm(parseShm('98765.4321')), '98765.4321');
+});
+
+test('formatUnits uses the token decimals', () => {
+  assert.strictEqual(formatUnits('1234567', 6), '1.234567');
+  assert.strictEqual(formatUnits('1', 6), '0.000001');
+  assert.strictEqual(formatUnits('10', 0), '10');
+});
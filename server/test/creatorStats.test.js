@@ -0,0 +1,80 @@
+const { test } = require('node:test');
+const assert = require('node:assert');
+const { buildCreatorStats } = require('../lib/creatorStats');
+
+const creator = { id: 'creator-1' };
+// A Wednesday
+const now = new Date('2024-05-15T12:00:00Z');
+
+const tip = (fromAddress, amountWei, timestamp) => ({ fromAddress, amountWei, timestamp });
+
+test('totals, average and median', () => {
+  const stats = buildCreatorStats(creator, [
+    tip('0xa', '100', '2024-05-15T10:00:00Z'),
+    tip('0xb', '300', '2024-05-14T10:00:00Z'),
+    tip('0xa', '200', '2024-05-01T10:00:00Z'),
+    tip('0xc', '1000', '2024-04-20T10:00:00Z')
+  ], now);
+
+  assert.strictEqual(stats.creatorId, 'creator-1');
+  assert.strictEqual(stats.totalTipsWei, '1600');
+  assert.strictEqual(stats.tipCount, 4);
+  assert.strictEqual(stats.uniqueTippers, 3);
+  assert.strictEqual(stats.averageTipWei, '400');
+  assert.strictEqual(stats.medianTipWei, '250');
+});
+
+test('amounts beyond the safe integer range stay exact', () => {
+  const stats = buildCreatorStats(creator, [
+    tip('0xa', '123456789012345678901', '2024-05-15T10:00:00Z'),
+    tip('0xb', '1', '2024-05-15T10:00:00Z')
+  ], now);
+
+  assert.strictEqual(stats.totalTipsWei, '123456789012345678902');
+  assert.strictEqual(stats.averageTipWei, '61728394506172839451');
+});
+
+test('no tips', () => {
+  const stats = buildCreatorStats(creator, [], now);
+
+  assert.strictEqual(stats.totalTipsWei, '0');
+  assert.strictEqual(stats.averageTipWei, '0');
+  assert.strictEqual(stats.medianTipWei, '0');
+  assert.deepStrictEqual(stats.topSupporters, []);
+  assert.strictEqual(stats.buckets.daily.length, 30);
+  assert.strictEqual(stats.buckets.weekly.length, 12);
+  assert.strictEqual(stats.buckets.monthly.length, 12);
+});
+
+test('top supporters are ranked by total', () => {
+  const stats = buildCreatorStats(creator, [
+    tip('0xa', '100', '2024-05-15T10:00:00Z'),
+    tip('0xb', '150', '2024-05-15T10:00:00Z'),
+    tip('0xa', '100', '2024-05-15T11:00:00Z')
+  ], now);
+
+  assert.deepStrictEqual(stats.topSupporters, [
+    { address: '0xa', totalWei: '200', count: 2 },
+    { address: '0xb', totalWei: '150', count: 1 }
+  ]);
+});
+
+test('buckets end with the current period and skip older tips', () => {
+  const stats = buildCreatorStats(creator, [
+    tip('0xa', '100', '2024-05-15T10:00:00Z'),
+    tip('0xa', '50', '2024-05-13T00:00:00Z'),
+    tip('0xa', '25', '2024-05-12T23:59:59Z'),
+    tip('0xa', '7', '2020-01-01T00:00:00Z')
+  ], now);
+
+  const { daily, weekly, monthly } = stats.buckets;
+  assert.deepStrictEqual(daily[daily.length - 1], { period: '2024-05-15', totalWei: '100', count: 1 });
+  assert.strictEqual(daily[0].period, '2024-04-16');
+
+  // Weeks start on Monday
+  assert.deepStrictEqual(weekly[weekly.length - 1], { period: '2024-05-13', totalWei: '150', count: 2 });
+  assert.deepStrictEqual(weekly[weekly.length - 2], { period: '2024-05-06', totalWei: '25', count: 1 });
+
+  assert.deepStrictEqual(monthly[monthly.length - 1], { period: '2024-05', totalWei: '175', count: 3 });
+  assert.strictEqual(monthly[0].period, '2023-06');
+});
@@ -0,0 +1,94 @@
+const { test, beforeEach } = require('node:test');
+const assert = require('node:assert');
+
+// Stand-in RPC answers, replaced before feeEstimator picks up shardeumRPC
+const rpc = require('../lib/shardeumRpc');
+let rpcResults;
+const rpcCalls = [];
+rpc.shardeumRPC = async (method, params) => {
+  rpcCalls.push({ method, params });
+  const result = rpcResults[method];
+  if (result instanceof Error) throw result;
+  return typeof result === 'function' ? result(params) : result;
+};
+
+const { estimateFees, paidFeeWei } = require('../lib/feeEstimator');
+
+const FROM = '0x1111111111111111111111111111111111111111';
+const TO = '0x2222222222222222222222222222222222222222';
+const GWEI = 1000000000n;
+
+beforeEach(() => {
+  rpcCalls.length = 0;
+  rpcResults = {
+    eth_estimateGas: '0x5208',
+    eth_getBlockByNumber: { baseFeePerGas: `0x${(10n * GWEI).toString(16)}` },
+    eth_feeHistory: { reward: [['0x1', '0x2', '0x3'], ['0x3', '0x4', '0x5']] },
+    eth_maxPriorityFeePerGas: `0x${GWEI.toString(16)}`,
+    eth_gasPrice: `0x${(10n * GWEI).toString(16)}`
+  };
+});
+
+test('a plain transfer keeps its exact gas limit', async () => {
+  const estimate = await estimateFees({ from: FROM, to: TO, valueWei: 5n });
+
+  assert.strictEqual(estimate.gasLimit, '21000');
+  assert.deepStrictEqual(rpcCalls[0], { method: 'eth_estimateGas', params: [{ from: FROM, to: TO, value: '0x5' }] });
+});
+
+test('contract calls get 20% gas headroom', async () => {
+  rpcResults.eth_estimateGas = '0x186a0';
+  const estimate = await estimateFees({ from: FROM, to: TO, valueWei: 0n, data: '0xabcd' });
+
+  assert.strictEqual(estimate.gasLimit, '120000');
+  assert.strictEqual(rpcCalls[0].params[0].data, '0xabcd');
+});
+
+test('EIP-1559 tiers from the fee history', async () => {
+  const estimate = await estimateFees({ from: FROM, to: TO, valueWei: 1n });
+
+  assert.strictEqual(estimate.type, 'eip1559');
+  assert.strictEqual(estimate.baseFeePerGas, (10n * GWEI).toString());
+  // Average rewards per percentile: 2, 3 and 4 wei
+  assert.deepStrictEqual(estimate.tiers.normal, {
+    maxFeePerGas: (20n * GWEI + 3n).toString(),
+    maxPriorityFeePerGas: '3',
+    estimatedFeeWei: (21000n * (10n * GWEI + 3n)).toString(),
+    maxFeeWei: (21000n * (20n * GWEI + 3n)).toString()
+  });
+  assert.strictEqual(estimate.tiers.slow.maxPriorityFeePerGas, '2');
+  assert.strictEqual(estimate.tiers.fast.maxPriorityFeePerGas, '4');
+});
+
+test('falls back to eth_maxPriorityFeePerGas without fee history', async () => {
+  rpcResults.eth_feeHistory = new Error('method not found');
+  const estimate = await estimateFees({ from: FROM, to: TO, valueWei: 1n });
+
+  assert.strictEqual(estimate.type, 'eip1559');
+  assert.strictEqual(estimate.tiers.slow.maxPriorityFeePerGas, GWEI.toString());
+  assert.strictEqual(estimate.tiers.fast.maxPriorityFeePerGas, ((GWEI * 125n) / 100n).toString());
+});
+
+test('legacy tiers without a base fee', async () => {
+  rpcResults.eth_getBlockByNumber = {};
+  const estimate = await estimateFees({ from: FROM, to: TO, valueWei: 1n });
+
+  assert.strictEqual(estimate.type, 'legacy');
+  assert.strictEqual(estimate.baseFeePerGas, null);
+  assert.deepStrictEqual(estimate.tiers.normal, {
+    gasPrice: (11n * GWEI).toString(),
+    estimatedFeeWei: (21000n * 11n * GWEI).toString(),
+    maxFeeWei: (21000n * 11n * GWEI).toString()
+  });
+});
+
+test('the paid fee is gas used times the effective gas price', () => {
+  const receipt = { from: FROM, gasUsed: '0x5208', effectiveGasPrice: '0x2540be400' };
+
+  assert.strictEqual(paidFeeWei(receipt, FROM), '210000000000000');
+});
+
+test('no paid fee for someone else\'s transaction or without a gas price', () => {
+  assert.strictEqual(paidFeeWei({ from: TO, gasUsed: '0x5208', effectiveGasPrice: '0x1' }, FROM), null);
+  assert.strictEqual(paidFeeWei({ from: FROM, gasUsed: '0x5208' }, FROM), null);
+});
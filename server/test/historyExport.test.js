@@ -0,0 +1,106 @@
+const { test } = require('node:test');
+const assert = require('node:assert');
+
+const TOKEN = '0x' + 'd'.repeat(40);
+process.env.DB_PATH = ':memory:';
+process.env.TIP_TOKENS = JSON.stringify([{ address: TOKEN, symbol: 'USDT', name: 'Tether', decimals: 6 }]);
+const creatorRepository = require('../repositories/creatorRepository');
+const { buildExportRows, toCsv } = require('../lib/historyExport');
+
+const alice = '0x' + 'a'.repeat(40);
+const bob = '0x' + 'b'.repeat(40);
+const carol = '0x' + 'c'.repeat(40);
+
+creatorRepository.create({ id: 'creator-bob', name: 'Bob', address: bob, description: '', avatar: '' });
+
+const tip = (overrides) => ({
+  txHash: '0x01',
+  blockNumber: 42,
+  timestamp: '2024-05-01T00:00:00.000Z',
+  fromAddress: alice,
+  toAddress: bob,
+  amountWei: '1500000000000000000',
+  creatorId: 'creator-bob',
+  status: 'confirmed',
+  feeWei: '21000000000000',
+  ...overrides
+});
+
+test('the sender sees a sent row with the fee it paid', () => {
+  const [row] = buildExportRows([tip()], '0x' + 'A'.repeat(40));
+
+  assert.deepStrictEqual(row, {
+    txHash: '0x01',
+    blockNumber: 42,
+    timestamp: '2024-05-01T00:00:00.000Z',
+    direction: 'sent',
+    counterparty: bob,
+    creatorName: 'Bob',
+    asset: 'SHM',
+    amount: '1.5',
+    amountWei: '1500000000000000000',
+    feeShm: '0.000021',
+    feeWei: '21000000000000',
+    status: 'confirmed'
+  });
+});
+
+test('the recipient sees a received row without a fee', () => {
+  const [row] = buildExportRows([tip()], bob);
+
+  assert.strictEqual(row.direction, 'received');
+  assert.strictEqual(row.counterparty, alice);
+  assert.strictEqual(row.feeWei, null);
+  assert.strictEqual(row.feeShm, null);
+});
+
+test('a split recipient only gets its own part', () => {
+  const split = tip({
+    toAddress: bob,
+    splits: [
+      { address: bob, shareBps: 7000, amountWei: '1050000000000000000' },
+      { address: carol, shareBps: 3000, amountWei: '450000000000000000' }
+    ]
+  });
+
+  const [row] = buildExportRows([split], carol);
+  assert.strictEqual(row.amountWei, '450000000000000000');
+  assert.strictEqual(row.amount, '0.45');
+
+  const [sent] = buildExportRows([split], alice);
+  assert.strictEqual(sent.amountWei, '1500000000000000000');
+});
+
+test('token tips use the token symbol and decimals', () => {
+  const rows = buildExportRows([
+    tip({ tokenAddress: TOKEN, tokenDecimals: 6, amountWei: '2500000' }),
+    tip({ tokenAddress: '0x' + 'e'.repeat(40), tokenDecimals: 2, amountWei: '250', creatorId: undefined })
+  ], bob);
+
+  assert.strictEqual(rows[0].asset, 'USDT');
+  assert.strictEqual(rows[0].amount, '2.5');
+  assert.strictEqual(rows[1].asset, '0x' + 'e'.repeat(40));
+  assert.strictEqual(rows[1].amount, '2.5');
+  assert.strictEqual(rows[1].creatorName, null);
+});
+
+test('csv has a header row and quotes fields that need it', () => {
+  const [row] = buildExportRows([tip({ blockNumber: undefined, creatorId: undefined })], alice);
+  const csv = toCsv([{ ...row, creatorName: 'Bob, "the builder"' }]);
+
+  assert.deepStrictEqual(csv.split('\r\n'), [
+    'txHash,blockNumber,timestamp,direction,counterparty,creatorName,asset,amount,amountWei,feeShm,feeWei,status',
+    `0x01,,2024-05-01T00:00:00.000Z,sent,${bob},"Bob, ""the builder""",SHM,1.5,1500000000000000000,0.000021,21000000000000,confirmed`,
+    ''
+  ]);
+});
+
+test('csv fields that a spreadsheet would run as a formula are escaped', () => {
+  const names = ['=HYPERLINK("x")', '+1', '-1', '@SUM(A1)', '\tTab', '\rReturn', 'Plain'];
+  const csv = toCsv(names.map(creatorName => ({ creatorName })));
+  const fields = csv.split('\r\n').slice(1, -1).map(line => line.split(',')[5]);
+
+  assert.deepStrictEqual(fields, [
+    `"'=HYPERLINK(""x"")"`, "'+1", "'-1", "'@SUM(A1)", "'\tTab", `"'\rReturn"`, 'Plain'
+  ]);
+});
@@ -0,0 +1,68 @@
+const { test } = require('node:test');
+const assert = require('node:assert');
+const { Web3 } = require('web3');
+const { MAX_SPLIT_RECIPIENTS, validateSplits, splitAmount, sameSplits } = require('../lib/payoutSplits');
+
+const web3 = new Web3();
+const address = (digit) => `0x${digit.repeat(40)}`;
+const A = address('a');
+const B = address('b');
+const C = address('c');
+
+test('validateSplits accepts no split and a split adding up to 100%', () => {
+  assert.strictEqual(validateSplits(web3, []), null);
+  assert.strictEqual(validateSplits(web3, [{ address: A, shareBps: 7000 }, { address: B, shareBps: 3000 }]), null);
+});
+
+test('validateSplits rejects invalid splits', () => {
+  const cases = [
+    ['nope', 'splits must be an array'],
+    [[{ address: A, shareBps: 10000 }], 'A split needs at least two addresses'],
+    [[{ address: '0x123', shareBps: 5000 }, { address: B, shareBps: 5000 }], 'Every split needs a valid address'],
+    [[{ address: A, shareBps: 0 }, { address: B, shareBps: 10000 }], 'Every split share must be a positive whole number of basis points'],
+    [[{ address: A, shareBps: 50.5 }, { address: B, shareBps: 9949.5 }], 'Every split share must be a positive whole number of basis points'],
+    [[{ address: A, shareBps: 5000 }, { address: A.toUpperCase().replace('0X', '0x'), shareBps: 5000 }], 'Each address can only appear once in a split'],
+    [[{ address: A, shareBps: 5000 }, { address: B, shareBps: 4000 }], 'Split shares must add up to 100%']
+  ];
+  for (const [splits, error] of cases) {
+    assert.strictEqual(validateSplits(web3, splits), error);
+  }
+
+  const tooMany = Array.from({ length: MAX_SPLIT_RECIPIENTS + 1 }, (_, index) => ({
+    address: address(index.toString(16)),
+    shareBps: 1
+  }));
+  assert.match(validateSplits(web3, tooMany), /at most 10 addresses/);
+});
+
+test('splitAmount gives the rounding dust to the last recipient', () => {
+  const parts = splitAmount(100n, [
+    { address: A, shareBps: 3333 },
+    { address: B, shareBps: 3333 },
+    { address: C, shareBps: 3334 }
+  ]);
+
+  assert.deepStrictEqual(parts.map(part => part.amountWei), [33n, 33n, 34n]);
+  assert.strictEqual(parts.reduce((sum, part) => sum + part.amountWei, 0n), 100n);
+});
+
+test('splitAmount lowercases addresses and accepts wei strings', () => {
+  const parts = splitAmount('1000000000000000000', [
+    { address: A.toUpperCase().replace('0X', '0x'), shareBps: 2500 },
+    { address: B, shareBps: 7500 }
+  ]);
+
+  assert.deepStrictEqual(parts, [
+    { address: A, shareBps: 2500, amountWei: 250000000000000000n },
+    { address: B, shareBps: 7500, amountWei: 750000000000000000n }
+  ]);
+});
+
+test('sameSplits compares addresses case-insensitively and in order', () => {
+  const splits = [{ address: A, shareBps: 5000 }, { address: B, shareBps: 5000 }];
+
+  assert.ok(sameSplits(splits, [{ address: A.toUpperCase().replace('0X', '0x'), shareBps: 5000 }, { address: B, shareBps: 5000 }]));
+  assert.ok(!sameSplits(splits, [...splits].reverse()));
+  assert.ok(!sameSplits(splits, [{ address: A, shareBps: 4000 }, { address: B, shareBps: 6000 }]));
+  assert.ok(!sameSplits(splits, splits.slice(0, 1)));
+});
@@ -0,0 +1,16 @@
+const { test } = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const path = require('path');
+const { CLIENT_CONFIG_DIR, SHARED_CONFIG_DIR, SHARED_CONFIG_FILES } = require('../scripts/syncSharedConfig');
+
+// Only checkable in a full checkout; a deployed server has no client
+test('config/shared matches the client config', { skip: !fs.existsSync(CLIENT_CONFIG_DIR) }, () => {
+  for (const file of SHARED_CONFIG_FILES) {
+    assert.deepStrictEqual(
+      JSON.parse(fs.readFileSync(path.join(SHARED_CONFIG_DIR, file), 'utf8')),
+      JSON.parse(fs.readFileSync(path.join(CLIENT_CONFIG_DIR, file), 'utf8')),
+      `${file} is out of date, run npm run sync:config`
+    );
+  }
+});
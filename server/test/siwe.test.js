@@ -0,0 +1,94 @@
+const { test } = require('node:test');
+const assert = require('node:assert');
+const { Web3 } = require('web3');
+const { activeNetwork } = require('../config/networks');
+const { parseSiweMessage, verifySiweMessage } = require('../lib/siwe');
+
+const web3 = new Web3();
+const account = web3.eth.accounts.privateKeyToAccount(`0x${'11'.repeat(32)}`);
+
+const buildMessage = ({
+  domain = 'localhost:3000',
+  address = account.address,
+  uri = 'http://localhost:3000',
+  chainId = activeNetwork.chainId,
+  expirationTime = new Date(Date.now() + 60 * 1000).toISOString(),
+  notBefore = null
+} = {}) => [
+  `${domain} wants you to sign in with your Ethereum account:`,
+  address,
+  '',
+  'Sign in to SHM Tip Jar to manage your creator profile.',
+  '',
+  `URI: ${uri}`,
+  'Version: 1',
+  `Chain ID: ${chainId}`,
+  'Nonce: abc123',
+  `Issued At: ${new Date().toISOString()}`,
+  `Expiration Time: ${expirationTime}`,
+  ...(notBefore ? [`Not Before: ${notBefore}`] : [])
+].join('\n');
+
+const verify = (message, signer = account) =>
+  verifySiweMessage(web3, parseSiweMessage(message), message, signer.sign(message).signature);
+
+test('parseSiweMessage reads the fields', () => {
+  const fields = parseSiweMessage(buildMessage());
+
+  assert.strictEqual(fields.domain, 'localhost:3000');
+  assert.strictEqual(fields.address, account.address);
+  assert.strictEqual(fields.statement, 'Sign in to SHM Tip Jar to manage your creator profile.');
+  assert.strictEqual(fields.uri, 'http://localhost:3000');
+  assert.strictEqual(fields.version, '1');
+  assert.strictEqual(fields.chainId, activeNetwork.chainId);
+  assert.strictEqual(fields.nonce, 'abc123');
+});
+
+test('parseSiweMessage accepts a message without a statement', () => {
+  const message = buildMessage().replace('Sign in to SHM Tip Jar to manage your creator profile.\n\n', '');
+  assert.strictEqual(parseSiweMessage(message).statement, null);
+});
+
+test('parseSiweMessage rejects malformed messages', () => {
+  assert.throws(() => parseSiweMessage('hello'), /Invalid SIWE header/);
+  assert.throws(() => parseSiweMessage(buildMessage({ address: '0x123' })), /Invalid SIWE address/);
+  assert.throws(() => parseSiweMessage(buildMessage().replace(/Nonce: .*\n/, '')), /Missing SIWE field: Nonce/);
+});
+
+test('verifySiweMessage accepts a valid signed message', () => {
+  assert.strictEqual(verify(buildMessage()), null);
+});
+
+test('verifySiweMessage rejects another domain', () => {
+  assert.match(verify(buildMessage({ domain: 'evil.example', uri: 'https://evil.example' })), /unexpected domain/);
+});
+
+test('verifySiweMessage rejects a URI for another site', () => {
+  assert.match(verify(buildMessage({ uri: 'https://evil.example' })), /unexpected URI/);
+  assert.match(verify(buildMessage({ uri: 'not a uri' })), /unexpected URI/);
+  assert.match(verify(buildMessage({ uri: 'ftp://localhost:3000' })), /unexpected URI/);
+});
+
+test('verifySiweMessage rejects another chain', () => {
+  assert.match(verify(buildMessage({ chainId: 1 })), /is for chain 1/);
+});
+
+test('verifySiweMessage rejects an expired message', () => {
+  const expirationTime = new Date(Date.now() - 1000).toISOString();
+  assert.strictEqual(verify(buildMessage({ expirationTime })), 'Sign-in message has expired');
+});
+
+test('verifySiweMessage rejects a message that is not yet valid', () => {
+  const notBefore = new Date(Date.now() + 60 * 1000).toISOString();
+  assert.strictEqual(verify(buildMessage({ notBefore })), 'Sign-in message is not yet valid');
+});
+
+test('verifySiweMessage rejects unreadable times', () => {
+  assert.strictEqual(verify(buildMessage({ expirationTime: 'never' })), 'Sign-in message has an invalid time');
+  assert.strictEqual(verify(buildMessage({ notBefore: 'soon' })), 'Sign-in message has an invalid time');
+});
+
+test('verifySiweMessage rejects a signature from another wallet', () => {
+  const other = web3.eth.accounts.privateKeyToAccount(`0x${'22'.repeat(32)}`);
+  assert.strictEqual(verify(buildMessage(), other), 'Signature does not match address');
+});
@@ -0,0 +1,96 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const http = require('http');
+
+const FROM = '0x1111111111111111111111111111111111111111';
+const TO = '0x2222222222222222222222222222222222222222';
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+const AMOUNT_WEI = '1000000000000000000';
+
+// Stands in for the Shardeum node. Transactions are answered after a delay, so
+// that concurrent tip reports are all waiting on the chain at the same time.
+const rpcResults = {
+  eth_getTransactionByHash: ([hash]) => ({ hash, from: FROM, to: TO, value: '0xde0b6b3a7640000', input: '0x' }),
+  eth_getTransactionReceipt: () => null,
+  eth_blockNumber: () => '0x10'
+};
+const RPC_DELAY_MS = 100;
+
+let rpcServer;
+let apiServer;
+let baseUrl;
+
+const listen = server => new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+
+before(async () => {
+  rpcServer = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      const result = rpcResults[method] ? rpcResults[method](params) : null;
+      setTimeout(() => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+      }, RPC_DELAY_MS);
+    });
+  });
+  await listen(rpcServer);
+
+  process.env.DB_PATH = ':memory:';
+  process.env.SHARDEUM_RPC = `http://127.0.0.1:${rpcServer.address().port}`;
+  process.env.INDEXER_ENABLED = 'false';
+  const app = require('../index');
+
+  apiServer = http.createServer(app);
+  await listen(apiServer);
+  baseUrl = `http://127.0.0.1:${apiServer.address().port}`;
+});
+
+after(() => {
+  apiServer.close();
+  rpcServer.close();
+});
+
+const postTip = (body) => fetch(`${baseUrl}/api/tips`, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+});
+
+const tip = (txHash) => ({ fromAddress: FROM, toAddress: TO, amountWei: AMOUNT_WEI, txHash });
+
+test('records a tip that matches the chain', async () => {
+  const response = await postTip(tip(`0x${'01'.repeat(32)}`));
+  assert.strictEqual(response.status, 201);
+
+  const transaction = await response.json();
+  assert.strictEqual(transaction.status, 'pending');
+  assert.strictEqual(transaction.amountWei, AMOUNT_WEI);
+  assert.match(transaction.id, /^[0-9a-f-]{36}$/);
+});
+
+test('rejects a tip that is already recorded', async () => {
+  const txHash = `0x${'02'.repeat(32)}`;
+  assert.strictEqual((await postTip(tip(txHash))).status, 201);
+
+  const response = await postTip(tip(txHash));
+  assert.strictEqual(response.status, 409);
+  assert.deepStrictEqual(await response.json(), { error: 'Transaction already recorded' });
+});
+
+test('records concurrent reports of the same transaction once', async () => {
+  const responses = await Promise.all([postTip(tip(TX_HASH)), postTip(tip(TX_HASH)), postTip(tip(TX_HASH))]);
+
+  assert.deepStrictEqual(responses.map(response => response.status).sort(), [201, 409, 409]);
+
+  // The server is still up
+  const health = await fetch(`${baseUrl}/api/health`);
+  assert.strictEqual(health.status, 200);
+});
+
+test('rejects a tip whose amount does not match the chain', async () => {
+  const response = await postTip({ ...tip(`0x${'03'.repeat(32)}`), amountWei: '1' });
+  assert.strictEqual(response.status, 400);
+  assert.deepStrictEqual(await response.json(), { error: 'Transaction value does not match amount' });
+});
@@ -0,0 +1,125 @@
+const { test } = require('node:test');
+const assert = require('node:assert');
+
+process.env.DB_PATH = ':memory:';
+const creatorRepository = require('../repositories/creatorRepository');
+const transactionRepository = require('../repositories/transactionRepository');
+
+const alice = '0x' + 'a'.repeat(40);
+const bob = '0x' + 'b'.repeat(40);
+const carol = '0x' + 'c'.repeat(40);
+const token = '0x' + 'd'.repeat(40);
+
+creatorRepository.create({ id: 'creator-bob', name: 'Bob', address: bob, description: '', avatar: '' });
+
+let hashCounter = 0;
+const record = (id, overrides) => transactionRepository.create({
+  id,
+  fromAddress: alice,
+  toAddress: bob,
+  amountWei: '1000000000000000000',
+  txHash: '0x' + (++hashCounter).toString(16).padStart(64, '0'),
+  status: 'confirmed',
+  ...overrides
+});
+
+record('t1', { timestamp: '2024-05-01T00:00:00.000Z', amountWei: '5' });
+record('t2', { timestamp: '2024-05-02T00:00:00.000Z', amountWei: '900', creatorId: 'creator-bob' });
+// Two tips in the same millisecond; the id breaks the tie
+record('t3a', { timestamp: '2024-05-03T00:00:00.000Z', amountWei: '1000', status: 'pending' });
+record('t3b', { timestamp: '2024-05-03T00:00:00.000Z', fromAddress: bob, toAddress: carol });
+record('t4', {
+  timestamp: '2024-05-04T00:00:00.000Z',
+  amountWei: '1000000',
+  toAddress: carol,
+  splits: [
+    { address: carol, shareBps: 5000, amountWei: '500000' },
+    { address: bob, shareBps: 5000, amountWei: '500000' }
+  ]
+});
+record('t5', {
+  timestamp: '2024-05-05T00:00:00.000Z',
+  amountWei: '99999999999999999999',
+  tokenAddress: token,
+  tokenDecimals: 6
+});
+
+const ids = (transactions) => transactions.map(transaction => transaction.id);
+
+function allPages(filters, limit) {
+  const pages = [];
+  let cursor;
+  do {
+    const page = transactionRepository.findPage({ ...filters, cursor, limit });
+    pages.push(ids(page.items));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+test('pages run newest first and continue from the cursor', () => {
+  assert.deepStrictEqual(allPages({}, 2), [['t5', 't4'], ['t3b', 't3a'], ['t2', 't1']]);
+  assert.deepStrictEqual(allPages({}, 4), [['t5', 't4', 't3b', 't3a'], ['t2', 't1']]);
+});
+
+test('the last page has no cursor', () => {
+  const page = transactionRepository.findPage({ limit: 6 });
+
+  assert.strictEqual(page.items.length, 6);
+  assert.strictEqual(page.nextCursor, null);
+});
+
+test('a malformed cursor is rejected', () => {
+  assert.throws(() => transactionRepository.findPage({ cursor: 'not-a-cursor', limit: 2 }), /Invalid cursor/);
+});
+
+test('the minimum amount compares wei strings of different lengths numerically', () => {
+  assert.deepStrictEqual(ids(transactionRepository.findMatching({ minAmountWei: '1000' })), ['t3a', 't3b', 't4']);
+  assert.deepStrictEqual(ids(transactionRepository.findMatching({ minAmountWei: '901' })), ['t3a', 't3b', 't4']);
+  assert.deepStrictEqual(ids(transactionRepository.findMatching({ minAmountWei: '900' })), ['t2', 't3a', 't3b', 't4']);
+  assert.deepStrictEqual(ids(transactionRepository.findMatching({ minAmountWei: 6n })), ['t2', 't3a', 't3b', 't4']);
+});
+
+test('the minimum amount leaves out token tips', () => {
+  const matching = transactionRepository.findMatching({ minAmountWei: '0' });
+
+  assert.ok(!ids(matching).includes('t5'));
+});
+
+test('direction separates sent tips from received ones, including split payouts', () => {
+  assert.deepStrictEqual(ids(transactionRepository.findMatching({ address: bob, direction: 'sent' })), ['t3b']);
+  assert.deepStrictEqual(
+    ids(transactionRepository.findMatching({ address: bob, direction: 'received' })),
+    ['t1', 't2', 't3a', 't4', 't5']
+  );
+  assert.deepStrictEqual(ids(transactionRepository.findMatching({ address: '0x' + 'C'.repeat(40) })), ['t3b', 't4']);
+});
+
+test('status, creator and date range filters', () => {
+  assert.deepStrictEqual(ids(transactionRepository.findMatching({ status: 'pending' })), ['t3a']);
+  assert.deepStrictEqual(ids(transactionRepository.findMatching({ creatorId: 'creator-bob' })), ['t2']);
+  assert.deepStrictEqual(
+    ids(transactionRepository.findMatching({ from: '2024-05-02T00:00:00.000Z', to: '2024-05-03T00:00:00.000Z' })),
+    ['t2', 't3a', 't3b']
+  );
+});
+
+test('filters also apply to pages', () => {
+  const page = transactionRepository.findPage({ address: alice, direction: 'sent', minAmountWei: '900', limit: 2 });
+
+  assert.deepStrictEqual(ids(page.items), ['t4', 't3a']);
+  const next = transactionRepository.findPage({
+    address: alice, direction: 'sent', minAmountWei: '900', limit: 2, cursor: page.nextCursor
+  });
+  assert.deepStrictEqual(ids(next.items), ['t2']);
+  assert.strictEqual(next.nextCursor, null);
+});
+
+test('split tips keep their parts', () => {
+  const transaction = transactionRepository.findById('t4');
+
+  assert.deepStrictEqual(transaction.splits.map(split => [split.address, split.amountWei]), [
+    [carol, '500000'],
+    [bob, '500000']
+  ]);
+});